@@ -0,0 +1,68 @@
+const fs = require('fs/promises');
+const path = require('path');
+
+// Our category tree, and the supplier spellings approved for its categories.
+// Approved spellings are kept in a JSON file so they are matched directly
+// the next time any supplier uses them.
+const CATEGORY_TABLE = process.env.CATEGORY_TABLE || 'pim_category';
+const SYNONYM_FILE = process.env.CATEGORY_SYNONYM_FILE || path.join('categories', 'synonyms.json');
+
+/** Every category with its path of names from the root. */
+async function loadCategoryTree(pool) {
+  if (!/^\w+$/.test(CATEGORY_TABLE)) throw new Error('Invalid CATEGORY_TABLE');
+  const [rows] = await pool.query(`SELECT id, name, parent_id FROM \`${CATEGORY_TABLE}\``);
+  const byId = new Map(rows.map(row => [row.id, row]));
+
+  const pathOf = (row) => {
+    const names = [];
+    // The seen set guards against cycles in bad parent links
+    for (let node = row, seen = new Set(); node && !seen.has(node.id); node = byId.get(node.parent_id)) {
+      seen.add(node.id);
+      names.unshift(node.name);
+    }
+    return names;
+  };
+
+  return rows.map(row => ({ id: row.id, name: row.name, parentId: row.parent_id ?? null, path: pathOf(row) }));
+}
+
+async function listSynonyms() {
+  try {
+    return JSON.parse(await fs.readFile(SYNONYM_FILE, 'utf8')).synonyms || [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Remembers approved matches of supplier values to categories, replacing
+ * earlier approvals of the same value.
+ */
+async function approveSynonyms(matches, categories) {
+  const known = new Set(categories.map(category => String(category.id)));
+  const invalid = matches.filter(match => !match || !String(match.value || '').trim() || !known.has(String(match.categoryId)));
+  if (invalid.length > 0) throw new Error(`${invalid.length} matches have no value or an unknown category`);
+
+  const key = (value) => normalizeValue(value);
+  const approved = new Map((await listSynonyms()).map(synonym => [key(synonym.value), synonym]));
+  const now = new Date().toISOString();
+  for (const { value, categoryId } of matches) {
+    approved.set(key(value), { value: String(value).trim(), categoryId, approvedAt: now });
+  }
+
+  const synonyms = [...approved.values()];
+  await fs.mkdir(path.dirname(SYNONYM_FILE), { recursive: true });
+  await fs.writeFile(SYNONYM_FILE, JSON.stringify({ synonyms }, null, 2));
+  return synonyms;
+}
+
+// Same normalization as the client's category matching
+function normalizeValue(value) {
+  return String(value).toLowerCase().replace(/\s*[>/|›»]\s*/g, ' > ').replace(/\s+/g, ' ').trim();
+}
+
+module.exports = {
+  loadCategoryTree,
+  listSynonyms,
+  approveSynonyms
+};
@@ -0,0 +1,149 @@
+const { createReadStream } = require('fs');
+
+// Streaming reader for delimited text, following the browser's tokenizer
+// (src/services/csvParser.ts): RFC 4180 quoting with "" escapes unless
+// another escape character is given, CRLF or LF line breaks, a leading BOM
+// dropped, delimiters of one or more characters, unquoted fields trimmed
+// and empty lines skipped.
+
+class CsvReader {
+  constructor({ delimiter = ',', quote = '"', escape = quote } = {}) {
+    if (!delimiter || /[\r\n]/.test(delimiter)) throw new Error('Invalid delimiter');
+    if (quote.length !== 1 || escape.length !== 1) throw new Error('Invalid quote or escape');
+    this.delimiter = delimiter;
+    this.quote = quote;
+    this.escape = escape;
+    this.field = '';
+    this.record = [];
+    this.quoted = false;
+    this.inQuotes = false;
+    this.afterQuote = false;
+    this.afterEscape = false;
+    this.lastCR = false;
+    this.started = false;
+    this.pending = '';
+  }
+
+  /** Records completed by this chunk of text. */
+  write(text) {
+    const records = [];
+    let start = 0;
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) start = 1;
+    }
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      // The LF of a CRLF pair was handled with the CR, possibly in the last chunk
+      const crlf = char === '\n' && this.lastCR;
+      this.lastCR = char === '\r';
+      if (crlf && !this.inQuotes) continue;
+      this.consume(char, records);
+    }
+    return records;
+  }
+
+  end() {
+    const records = [];
+    this.flushDelimiter(records);
+    if (this.inQuotes || this.quoted || this.field || this.record.length > 0) this.endRecord(records);
+    return records;
+  }
+
+  consume(char, records) {
+    if (this.delimiter.length === 1 || (this.inQuotes && !this.afterQuote)) {
+      this.step(char, char === this.delimiter, records);
+      return;
+    }
+
+    const candidate = this.pending + char;
+    if (candidate === this.delimiter) {
+      this.pending = '';
+      this.step(char, true, records);
+    } else if (this.delimiter.startsWith(candidate)) {
+      this.pending = candidate;
+    } else if (this.pending) {
+      this.pending = '';
+      this.step(candidate[0], false, records);
+      for (const next of candidate.slice(1)) this.consume(next, records);
+    } else {
+      this.step(char, false, records);
+    }
+  }
+
+  flushDelimiter(records) {
+    const pending = this.pending;
+    this.pending = '';
+    for (const char of pending) this.step(char, false, records);
+  }
+
+  step(char, isDelimiter, records) {
+    if (this.inQuotes) {
+      if (this.afterQuote) {
+        this.afterQuote = false;
+        if (char === this.quote && this.escape === this.quote) {
+          this.field += char;
+          return;
+        }
+        this.inQuotes = false;
+        // Falls through to the closing-quote handling below
+      } else {
+        if (this.afterEscape) {
+          this.afterEscape = false;
+          this.field += char;
+        } else if (char === this.escape && this.escape !== this.quote) {
+          this.afterEscape = true;
+        } else if (char === this.quote) {
+          this.afterQuote = true;
+        } else {
+          this.field += char;
+        }
+        return;
+      }
+    }
+
+    if (isDelimiter) {
+      this.endField();
+    } else if (char === '\n' || char === '\r') {
+      this.endRecord(records);
+    } else if (char === this.quote && !this.quoted && this.field.trim() === '') {
+      this.field = '';
+      this.quoted = true;
+      this.inQuotes = true;
+    } else if (!(this.quoted && (char === ' ' || char === '\t'))) {
+      this.field += char;
+    }
+  }
+
+  endField() {
+    this.record.push(this.quoted ? this.field : this.field.trim());
+    this.field = '';
+    this.quoted = false;
+  }
+
+  endRecord(records) {
+    const empty = this.record.length === 0 && !this.quoted && this.field.trim() === '';
+    if (this.inQuotes) this.inQuotes = this.afterQuote = this.afterEscape = false;
+    this.endField();
+    const record = this.record;
+    this.record = [];
+    if (!empty) records.push(record);
+  }
+}
+
+/** Yields the records of a delimited text file without reading it whole. */
+async function* readCsvRecords(filePath, { encoding = 'utf-8', delimiter = ',', quote, escape } = {}) {
+  const decoder = new TextDecoder(encoding);
+  const reader = new CsvReader({ delimiter, quote, escape });
+  for await (const bytes of createReadStream(filePath)) {
+    yield* reader.write(decoder.decode(bytes, { stream: true }));
+  }
+  yield* reader.write(decoder.decode());
+  yield* reader.end();
+}
+
+module.exports = {
+  CsvReader,
+  readCsvRecords
+};
@@ -0,0 +1,458 @@
+const fs = require('fs/promises');
+const { createReadStream, createWriteStream } = require('fs');
+const { once } = require('events');
+const readline = require('readline');
+const path = require('path');
+const crypto = require('crypto');
+const XLSX = require('xlsx');
+const { readCsvRecords } = require('./csv');
+
+// Parsed uploads are persisted as one directory per dataset: meta.json
+// (headers, schema, profile), rows.ndjson (one typed row per line) and
+// index.json (byte offset of every ROW_INDEX_STEP-th row), so a page of
+// rows is read by seeking instead of parsing the whole dataset.
+const DATASET_DIR = process.env.DATASET_DIR || 'datasets';
+const SAMPLE_ROWS = 1000;
+const ROW_INDEX_STEP = 1000;
+const TOP_VALUES = 5;
+// Value counts kept per column while profiling; past this the rarest are
+// dropped, and the distinct count comes from a HyperLogLog sketch instead
+const TRACKED_VALUES = 10000;
+const SKETCH_BITS = 12;
+
+// Formats the server reads itself; anything else (XML catalogs, JSON feeds,
+// fixed-width text) is parsed in the browser and uploaded as rows.
+const SERVER_PARSED = /\.(xlsx|xlsm|xlsb|xls|ods|fods|csv|txt|tsv|tab)$/i;
+
+function canParse(fileName) {
+  return SERVER_PARSED.test(fileName);
+}
+
+/**
+ * Parses an uploaded file into one table per requested sheet. `hints`
+ * carries what the browser already worked out (encoding, delimiter,
+ * quote and escape characters, header rows), so both sides agree on where the data starts. Text files
+ * and rows parsed in the browser (`hints.rows`) are streamed; their tables'
+ * `rows` are async iterables to be consumed once.
+ */
+async function parseUpload(file, hints = {}) {
+  if (hints.rows) {
+    const { fileName, sheetName, headers, schema } = hints.rows;
+    if (!fileName || !Array.isArray(headers)) throw new Error('fileName and headers are required');
+    return [{ fileName, sheetName, headers, rows: readRowLines(file.path), schema }];
+  }
+
+  if (/\.(csv|txt|tsv|tab)$/i.test(file.originalname)) {
+    const { encoding, delimiter, quote, escape } = hints;
+    const header = hints.header || { rowIndex: 0, rowCount: 1 };
+    // Header row numbers count every record the browser's reader gives, which
+    // leaves out empty lines but keeps rows of blank cells such as `,,`
+    const records = readCsvRecords(file.path, { encoding, delimiter, quote, escape })[Symbol.asyncIterator]();
+    const headerRows = [];
+    for (let index = 0; index < header.rowIndex + header.rowCount; index++) {
+      const { value, done } = await records.next();
+      if (done) break;
+      if (index >= header.rowIndex) headerRows.push(value);
+    }
+    return [{
+      fileName: file.originalname,
+      headers: combineHeaderRows(headerRows),
+      rows: nonBlank({ [Symbol.asyncIterator]: () => records }),
+      schema: hints.schema
+    }];
+  }
+
+  // Workbooks can't be read in parts, but only the requested sheets are parsed
+  const names = hints.sheets && hints.sheets.length > 0 ? hints.sheets.map(sheet => sheet.name) : 0;
+  const workbook = XLSX.read(await fs.readFile(file.path), { type: 'buffer', sheets: names });
+  const sheets = hints.sheets && hints.sheets.length > 0
+    ? hints.sheets
+    : [{ name: workbook.SheetNames[0], header: hints.header }];
+
+  return sheets.map(sheet => {
+    const worksheet = workbook.Sheets[sheet.name];
+    if (!worksheet) throw new Error(`Sheet "${sheet.name}" not found in ${file.originalname}`);
+
+    const grid = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' });
+    const header = sheet.header || { rowIndex: 0, rowCount: 1 };
+    const headers = combineHeaderRows(grid.slice(header.rowIndex, header.rowIndex + header.rowCount));
+    const rows = grid
+      .slice(header.rowIndex + header.rowCount)
+      .filter(row => row.some(cell => String(cell).trim() !== ''));
+
+    return {
+      fileName: file.originalname,
+      sheetName: sheet.name,
+      headers,
+      rows,
+      schema: sheet.schema || hints.schema
+    };
+  });
+}
+
+async function* nonBlank(records) {
+  for await (const record of records) {
+    if (record.some(cell => String(cell).trim() !== '')) yield record;
+  }
+}
+
+// Rows parsed in the browser arrive as one JSON array per line
+async function* readRowLines(filePath) {
+  const lines = readline.createInterface({ input: createReadStream(filePath), crlfDelay: Infinity });
+  let number = 0;
+  for await (const line of lines) {
+    number++;
+    if (!line.trim()) continue;
+    const row = JSON.parse(line);
+    if (!Array.isArray(row)) throw new Error(`Line ${number} is not a row`);
+    yield row;
+  }
+}
+
+/**
+ * Same as the browser's header combination: group labels are carried
+ * across blank cells and joined with the label below.
+ */
+function combineHeaderRows(headerRows) {
+  const width = Math.max(0, ...headerRows.map(row => row.length));
+  const filled = headerRows.map((row, rowIndex) => {
+    if (rowIndex === headerRows.length - 1) return row.map(cell => String(cell).trim());
+    let carried = '';
+    return Array.from({ length: width }, (_, column) => {
+      const cell = String(row[column] ?? '').trim();
+      if (cell) carried = cell;
+      return cell || carried;
+    });
+  });
+
+  return Array.from({ length: width }, (_, column) => {
+    const parts = [];
+    for (const row of filled) {
+      const part = row[column] || '';
+      if (part && !parts.includes(part)) parts.push(part);
+    }
+    return parts.join(' ');
+  });
+}
+
+/**
+ * Types the rows, profiles them and writes the dataset to disk. `rows` may
+ * be any iterable or async iterable, so large tables are written as they
+ * are read; only the first SAMPLE_ROWS are held to infer missing types.
+ */
+async function saveDataset({ fileName, sheetName, headers, rows, schema }) {
+  const id = crypto.randomUUID();
+  const dir = path.join(DATASET_DIR, id);
+  await fs.mkdir(dir, { recursive: true });
+
+  const output = createWriteStream(path.join(dir, 'rows.ndjson'));
+  const offsets = [];
+  let bytes = 0;
+  let totalRows = 0;
+  let columns;
+  let profiler;
+  let sample = [];
+
+  const write = async (row) => {
+    const typed = columns.map(column => coerce(row[column.index], column));
+    profiler.add(typed);
+    if (totalRows % ROW_INDEX_STEP === 0) offsets.push(bytes);
+    totalRows++;
+
+    const line = `${JSON.stringify(typed)}\n`;
+    bytes += Buffer.byteLength(line);
+    if (!output.write(line)) await once(output, 'drain');
+  };
+  const start = async () => {
+    columns = headers.map((name, index) => ({
+      name,
+      index,
+      type: 'string',
+      ...(schema && schema[index]),
+    }));
+    if (!schema) columns.forEach(column => { column.type = inferType(sample, column.index); });
+    profiler = new Profiler(columns);
+    for (const row of sample) await write(row);
+    sample = [];
+  };
+
+  try {
+    for await (const row of rows) {
+      if (columns) {
+        await write(row);
+      } else {
+        sample.push(row);
+        if (sample.length >= SAMPLE_ROWS) await start();
+      }
+    }
+    if (!columns) await start();
+    output.end();
+    await once(output, 'finish');
+  } catch (error) {
+    output.destroy();
+    await fs.rm(dir, { recursive: true, force: true });
+    throw error;
+  }
+
+  const meta = {
+    id,
+    fileName,
+    sheetName,
+    headers,
+    schema: columns,
+    totalRows,
+    profile: profiler.result(totalRows),
+    createdAt: new Date().toISOString()
+  };
+  await fs.writeFile(path.join(dir, 'index.json'), JSON.stringify({ step: ROW_INDEX_STEP, offsets }));
+  await fs.writeFile(path.join(dir, 'meta.json'), JSON.stringify(meta));
+  return meta;
+}
+
+async function loadDataset(id) {
+  // Ids are UUIDs; anything else must not reach the file system
+  if (!/^[0-9a-f-]{36}$/.test(id)) return null;
+  try {
+    return JSON.parse(await fs.readFile(path.join(DATASET_DIR, id, 'meta.json'), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads `limit` rows from `offset`, starting at the nearest indexed row
+ * before it, so a page costs at most ROW_INDEX_STEP extra lines.
+ */
+async function readRows(id, offset = 0, limit = 100) {
+  if (!/^[0-9a-f-]{36}$/.test(id)) return null;
+  let index;
+  try {
+    index = JSON.parse(await fs.readFile(path.join(DATASET_DIR, id, 'index.json'), 'utf8'));
+  } catch {
+    return null;
+  }
+
+  const block = Math.floor(offset / index.step);
+  if (limit <= 0 || block >= index.offsets.length) return [];
+
+  const input = createReadStream(path.join(DATASET_DIR, id, 'rows.ndjson'), { start: index.offsets[block] });
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  const rows = [];
+  let skip = offset - block * index.step;
+  try {
+    for await (const line of lines) {
+      if (skip > 0) {
+        skip--;
+        continue;
+      }
+      rows.push(JSON.parse(line));
+      if (rows.length >= limit) break;
+    }
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+  return rows;
+}
+
+function inferType(rows, index) {
+  const values = rows.slice(0, SAMPLE_ROWS).map(row => row[index]).filter(value => !isBlank(value));
+  if (values.length === 0) return 'empty';
+  if (values.every(value => Number.isInteger(parseNumber(value, '.')))) return 'integer';
+  if (values.every(value => parseNumber(value, '.') !== null)) return 'decimal';
+  return 'string';
+}
+
+/**
+ * Converts a cell using the column type the browser inferred. Only the
+ * conversions that matter for storage are repeated here; anything that
+ * doesn't fit is kept as trimmed text.
+ */
+function coerce(value, column) {
+  if (isBlank(value)) return null;
+  const text = String(value).trim();
+
+  switch (column.type) {
+    case 'integer':
+    case 'decimal':
+      return parseNumber(value, column.decimalSeparator || '.') ?? text;
+    case 'money':
+      return parseNumber(text.replace(/[^\d.,'’\s+-]/g, '').trim(), column.decimalSeparator || '.') ?? text;
+    case 'boolean':
+      if (/^(1|true|yes|y|ja|j|oui|si|x|wahr)$/i.test(text)) return true;
+      if (/^(0|false|no|n|nein|non|falsch)$/i.test(text)) return false;
+      return text;
+    case 'date':
+      return parseDate(value, column.dateFormat || 'iso') ?? text;
+    default:
+      return typeof value === 'string' ? text : value;
+  }
+}
+
+function parseNumber(value, decimalSeparator) {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = String(value).trim();
+  const group = decimalSeparator === '.' ? ',' : '.';
+  const escape = char => char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(
+    `^[-+]?(?:\\d{1,3}(?:[${escape(group)}\\s'’]\\d{3})+|\\d+)(?:${escape(decimalSeparator)}\\d+)?$`
+  );
+  if (!pattern.test(text)) return null;
+  const number = Number(text.replace(new RegExp(`[${escape(group)}\\s'’]`, 'g'), '').replace(decimalSeparator, '.'));
+  return Number.isFinite(number) ? number : null;
+}
+
+function parseDate(value, format) {
+  if (format === 'excel-serial') {
+    const serial = typeof value === 'number' ? value : parseNumber(value, '.');
+    if (serial === null) return null;
+    return new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86400000).toISOString().slice(0, 10);
+  }
+
+  const text = String(value).trim();
+  let year;
+  let month;
+  let day;
+  if (format === 'iso') {
+    const match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (!match) return null;
+    [year, month, day] = match.slice(1).map(Number);
+  } else {
+    const match = text.match(/^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})/);
+    if (!match) return null;
+    const [a, b, c] = match.slice(1).map(Number);
+    const fullYear = (year, digits) => (digits.length > 2 ? year : year < 70 ? 2000 + year : 1900 + year);
+    if (format === 'ymd') [year, month, day] = [a, b, c];
+    if (format === 'dmy') [year, month, day] = [fullYear(c, match[3]), b, a];
+    if (format === 'mdy') [year, month, day] = [fullYear(c, match[3]), a, b];
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function isBlank(value) {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+// Column profile built up one typed row at a time
+class Profiler {
+  constructor(columns) {
+    this.columns = columns.map(column => ({
+      column,
+      present: 0,
+      counts: new Map(),
+      pruned: false,
+      sketch: new DistinctSketch(SKETCH_BITS),
+      min: Infinity,
+      max: -Infinity
+    }));
+  }
+
+  add(row) {
+    this.columns.forEach((stats, index) => {
+      const value = row[index];
+      if (value === null) return;
+      const text = String(value);
+      stats.present++;
+      stats.sketch.add(text);
+      stats.counts.set(text, (stats.counts.get(text) || 0) + 1);
+      // Frequent values survive pruning, so the top values stay close to exact
+      if (stats.counts.size >= 2 * TRACKED_VALUES) {
+        stats.counts = new Map(topEntries(stats.counts, TRACKED_VALUES));
+        stats.pruned = true;
+      }
+      if (typeof value === 'number') {
+        stats.min = Math.min(stats.min, value);
+        stats.max = Math.max(stats.max, value);
+      }
+    });
+  }
+
+  result(totalRows) {
+    return this.columns.map(({ column, present, counts, pruned, sketch, min, max }) => ({
+      name: column.name,
+      type: column.type,
+      blankPercent: totalRows ? ((totalRows - present) / totalRows) * 100 : 0,
+      distinctCount: pruned ? sketch.estimate() : counts.size,
+      ...(pruned && { distinctEstimated: true }),
+      topValues: topEntries(counts, TOP_VALUES).map(([value, count]) => ({ value, count })),
+      ...(min <= max && { min, max })
+    }));
+  }
+}
+
+function topEntries(counts, limit) {
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit);
+}
+
+// HyperLogLog: the top bits of each value's hash pick a register, which keeps
+// the longest run of leading zeros seen in the remaining bits
+class DistinctSketch {
+  constructor(bits) {
+    this.bits = bits;
+    this.registers = new Uint8Array(1 << bits);
+  }
+
+  add(text) {
+    const hash = hash32(text);
+    const index = hash >>> (32 - this.bits);
+    // The guard bit caps the run at the number of remaining bits
+    const rank = Math.clz32((hash << this.bits) | (1 << (this.bits - 1))) + 1;
+    if (rank > this.registers[index]) this.registers[index] = rank;
+  }
+
+  estimate() {
+    const m = this.registers.length;
+    let sum = 0;
+    let empty = 0;
+    for (const rank of this.registers) {
+      sum += 2 ** -rank;
+      if (rank === 0) empty++;
+    }
+    const raw = ((0.7213 / (1 + 1.079 / m)) * m * m) / sum;
+    // Small counts are estimated better from the share of empty registers
+    return Math.round(raw <= 2.5 * m && empty > 0 ? m * Math.log(m / empty) : raw);
+  }
+}
+
+// FNV-1a, then MurmurHash3's finalizer to spread the bits
+function hash32(text) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+/**
+ * Plain-text description of a dataset for the chat prompt.
+ */
+function describeDataset(meta, sampleRows) {
+  const lines = [
+    `Dataset ${meta.id}: ${meta.fileName}${meta.sheetName ? ` (sheet ${meta.sheetName})` : ''}, ${meta.totalRows} rows`
+  ];
+  for (const column of meta.profile) {
+    const parts = [`type ${column.type}`, `${column.blankPercent.toFixed(1)}% blank`, `${column.distinctEstimated ? '~' : ''}${column.distinctCount} distinct`];
+    if (column.min !== undefined) parts.push(`range ${column.min} .. ${column.max}`);
+    if (column.topValues.length) parts.push(`top ${column.topValues.map(v => `"${v.value}" x${v.count}`).join(', ')}`);
+    lines.push(`- ${column.name}: ${parts.join('; ')}`);
+  }
+  if (sampleRows.length > 0) {
+    lines.push('Sample rows:');
+    sampleRows.forEach(row => lines.push(JSON.stringify(Object.fromEntries(meta.headers.map((h, i) => [h, row[i]])))));
+  }
+  return lines.join('\n');
+}
+
+module.exports = {
+  canParse,
+  parseUpload,
+  saveDataset,
+  loadDataset,
+  readRows,
+  describeDataset
+};
@@ -5,6 +5,11 @@ const multer = require('multer');
 const mysql = require('mysql2/promise');
 const axios = require('axios');
 const path = require('path');
+const fs = require('fs/promises');
+const { canParse, parseUpload, saveDataset, loadDataset, readRows, describeDataset } = require('./datasets');
+const uploads = require('./uploads');
+const templates = require('./templates');
+const categories = require('./categories');
 require('dotenv').config();
 
 const app = express();
@@ -12,10 +17,13 @@ const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// JSON bodies are chat context, templates and category approvals; dataset
+// rows are uploaded as files
+app.use(express.json({ limit: '50mb' }));
 app.use(express.static('dist'));
 
-// Multer setup for file uploads
+// Multer setup for small single-request uploads; large files go through
+// the chunked upload routes below
 const upload = multer({ 
   dest: 'uploads/',
   limits: {
@@ -78,7 +86,7 @@ async function testOllamaConnection() {
 // Chat endpoint
 app.post('/api/chat', async (req, res) => {
   try {
-    const { message, files, history } = req.body;
+    const { message, files, images, history } = req.body;
     
     console.log('💬 Received chat message:', message);
     console.log('📁 Files:', files?.length || 0);
@@ -90,7 +98,35 @@ Database connection: ${dbConfig.host}:${dbConfig.port}/${dbConfig.database}
 Current request: ${message}`;
 
     if (files && files.length > 0) {
-      context += `\n\nFiles uploaded: ${files.map(f => f.name).join(', ')}`;
+      context += `\n\nFiles uploaded: ${files.map(f => (
+        f.selectedSheets ? `${f.name} (sheets: ${f.selectedSheets.join(', ')})` : f.name
+      )).join(', ')}`;
+
+      // Stored datasets carry the real contents; the browser profile is
+      // only a fallback for files that could not be uploaded
+      const descriptions = [];
+      for (const f of files) {
+        const metas = await Promise.all((f.datasetIds || []).map(loadDataset));
+        for (const meta of metas.filter(Boolean)) {
+          descriptions.push(describeDataset(meta, await readRows(meta.id, 0, 5) || []));
+        }
+        if (!f.datasetIds?.length && f.profile) descriptions.push(f.profile);
+        if (f.mapping?.columns?.length || f.mapping?.computed?.length) {
+          const headers = metas.find(Boolean)?.headers || [];
+          descriptions.push(`Column mapping for ${f.name} into ${f.mapping.table}: ${[
+            ...f.mapping.columns.map(c => `${headers[c.source] ?? `column ${c.source + 1}`} -> ${c.target}${
+              c.steps?.length ? ` (${c.steps.map(step => step.op).join(', ')})` : ''}`),
+            ...(f.mapping.computed || []).map(c => `${c.target} = ${c.expression}`)
+          ].join(', ')}`);
+        }
+      }
+      if (descriptions.length > 0) {
+        context += `\n\nData:\n${descriptions.join('\n\n')}`;
+      }
+    }
+
+    if (images && images.length > 0) {
+      context += `\n\nProduct images available (${images.length}), to be matched to SKUs by file name: ${images.slice(0, 20).join(', ')}${images.length > 20 ? ', ...' : ''}`;
     }
 
     // Call Ollama API
@@ -121,19 +157,45 @@ Current request: ${message}`;
   }
 });
 
-// File upload endpoint
+// Parses an uploaded file and stores one dataset per table in it. Formats
+// only the browser reads are uploaded as rows, one JSON array per line,
+// with `hints.rows` describing them.
+async function storeDatasets(file, hints) {
+  if (!hints?.rows && !canParse(file.originalname)) {
+    throw new Error('This format is parsed in the browser; upload its rows with hints.rows');
+  }
+  const datasets = [];
+  for (const table of await parseUpload(file, hints)) {
+    datasets.push(await saveDataset(table));
+  }
+  return datasets;
+}
+
+// File upload endpoint: parses each file into one dataset per sheet.
+// `hints` is a JSON array aligned with `files`, holding the encoding,
+// delimiter, quoting, header rows and column schema the browser detected.
 app.post('/api/upload', upload.array('files'), async (req, res) => {
   try {
     const files = req.files;
+    const hints = req.body.hints ? JSON.parse(req.body.hints) : [];
     console.log('📁 Files uploaded:', files.map(f => f.originalname));
     
-    // Process files here - parse CSV, Excel, etc.
-    const processedFiles = files.map(file => ({
-      name: file.originalname,
-      size: file.size,
-      type: file.mimetype,
-      path: file.path
-    }));
+    const processedFiles = [];
+    for (const [index, file] of files.entries()) {
+      const result = {
+        name: file.originalname,
+        size: file.size,
+        type: file.mimetype,
+        datasets: []
+      };
+
+      try {
+        result.datasets = await storeDatasets(file, hints[index]);
+      } catch (error) {
+        result.error = error.message;
+      }
+      processedFiles.push(result);
+    }
     
     res.json({
       success: true,
@@ -146,6 +208,161 @@ app.post('/api/upload', upload.array('files'), async (req, res) => {
       success: false,
       error: 'Failed to upload files'
     });
+  } finally {
+    // Multer's temp files are only needed while parsing
+    await Promise.all((req.files || []).map(file => fs.rm(file.path, { force: true })));
+  }
+});
+
+// Resumable chunked uploads: create a session, PUT each chunk with its
+// CRC-32 (hex) in X-Chunk-Checksum, then complete it to parse the assembled file.
+// GET on the session lists the chunks already stored, for resuming.
+function sendUploadError(res, error) {
+  console.error('❌ Chunked upload error:', error.message);
+  res.status(error instanceof uploads.UploadError ? error.status : 500).json({
+    success: false,
+    error: error.message
+  });
+}
+
+app.post('/api/uploads', async (req, res) => {
+  try {
+    const session = await uploads.createSession(req.body);
+    console.log('📦 Chunked upload started:', session.id, session.fileName, session.size);
+    res.json({ success: true, upload: session });
+  } catch (error) {
+    sendUploadError(res, error);
+  }
+});
+
+app.get('/api/uploads/:id', async (req, res) => {
+  try {
+    res.json({ success: true, upload: await uploads.getSession(req.params.id) });
+  } catch (error) {
+    sendUploadError(res, error);
+  }
+});
+
+app.put(
+  '/api/uploads/:id/chunks/:index',
+  express.raw({ type: 'application/octet-stream', limit: uploads.MAX_CHUNK_SIZE }),
+  async (req, res) => {
+    try {
+      const chunk = await uploads.writeChunk(
+        req.params.id,
+        Number(req.params.index),
+        Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+        req.get('X-Chunk-Checksum')
+      );
+      res.json({ success: true, ...chunk });
+    } catch (error) {
+      sendUploadError(res, error);
+    }
+  }
+);
+
+app.post('/api/uploads/:id/complete', async (req, res) => {
+  try {
+    const file = await uploads.assemble(req.params.id);
+    console.log('📦 Chunked upload assembled:', file.originalname, file.size);
+    const datasets = await storeDatasets(file, req.body.hints);
+    await uploads.removeSession(req.params.id);
+    res.json({ success: true, datasets });
+  } catch (error) {
+    sendUploadError(res, error);
+  }
+});
+
+app.delete('/api/uploads/:id', async (req, res) => {
+  try {
+    await uploads.removeSession(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    sendUploadError(res, error);
+  }
+});
+
+app.get('/api/datasets/:id', async (req, res) => {
+  const dataset = await loadDataset(req.params.id);
+  if (!dataset) {
+    return res.status(404).json({ success: false, error: 'Dataset not found' });
+  }
+  res.json({ success: true, dataset });
+});
+
+app.get('/api/datasets/:id/rows', async (req, res) => {
+  const offset = Number(req.query.offset) || 0;
+  const limit = Math.min(Number(req.query.limit) || 100, 1000);
+  const rows = await readRows(req.params.id, offset, limit);
+  if (!rows) {
+    return res.status(404).json({ success: false, error: 'Dataset not found' });
+  }
+  res.json({ success: true, offset, rows });
+});
+
+// Supplier mapping templates
+app.get('/api/templates', async (req, res) => {
+  try {
+    res.json({ success: true, templates: await templates.listTemplates() });
+  } catch (error) {
+    console.error('❌ Template error:', error.message);
+    res.status(500).json({ success: false, error: 'Failed to list templates', details: error.message });
+  }
+});
+
+app.post('/api/templates', async (req, res) => {
+  try {
+    const template = await templates.saveTemplate(req.body);
+    console.log('🧩 Template saved:', template.name);
+    res.json({ success: true, template });
+  } catch (error) {
+    console.error('❌ Template error:', error.message);
+    res.status(400).json({ success: false, error: error.message });
+  }
+});
+
+app.get('/api/templates/:id', async (req, res) => {
+  const template = await templates.loadTemplate(req.params.id);
+  if (!template) {
+    return res.status(404).json({ success: false, error: 'Template not found' });
+  }
+  res.json({ success: true, template });
+});
+
+app.delete('/api/templates/:id', async (req, res) => {
+  if (!(await templates.deleteTemplate(req.params.id))) {
+    return res.status(404).json({ success: false, error: 'Template not found' });
+  }
+  res.json({ success: true });
+});
+
+// Category tree and approved supplier spellings, for resolving category values
+app.get('/api/categories', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      categories: await categories.loadCategoryTree(pool),
+      synonyms: await categories.listSynonyms()
+    });
+  } catch (error) {
+    console.error('❌ Category error:', error.message);
+    res.status(500).json({ success: false, error: 'Failed to load categories', details: error.message });
+  }
+});
+
+app.post('/api/categories/synonyms', async (req, res) => {
+  const matches = req.body?.matches;
+  if (!Array.isArray(matches) || matches.length === 0) {
+    return res.status(400).json({ success: false, error: 'matches is required' });
+  }
+
+  try {
+    const synonyms = await categories.approveSynonyms(matches, await categories.loadCategoryTree(pool));
+    console.log('🏷️ Category matches approved:', matches.length);
+    res.json({ success: true, synonyms });
+  } catch (error) {
+    console.error('❌ Category error:', error.message);
+    res.status(400).json({ success: false, error: error.message });
   }
 });
 
@@ -176,6 +393,36 @@ app.post('/api/database/query', async (req, res) => {
   }
 });
 
+// Column layout of a table, for mapping file columns onto it
+app.get('/api/database/schema/:table', async (req, res) => {
+  const table = req.params.table;
+  if (!/^\w+$/.test(table)) {
+    return res.status(400).json({ success: false, error: 'Invalid table name' });
+  }
+
+  try {
+    const [rows] = await pool.query(`DESCRIBE \`${table}\``);
+    res.json({
+      success: true,
+      columns: rows.map(row => ({
+        name: row.Field,
+        type: row.Type,
+        nullable: row.Null === 'YES',
+        key: row.Key || undefined,
+        default: row.Default,
+        extra: row.Extra || undefined
+      }))
+    });
+  } catch (error) {
+    console.error('❌ Schema error:', error.message);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to read table schema',
+      details: error.message
+    });
+  }
+});
+
 // Health check endpoint
 app.get('/api/health', async (req, res) => {
   const health = {
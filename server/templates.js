@@ -0,0 +1,82 @@
+const fs = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+
+// Supplier mapping templates, one JSON file each. They are small and few
+// (one per supplier feed), so listing simply reads them all. Validation
+// rules for a supplier are added to the `rules` of its template's file.
+const TEMPLATE_DIR = process.env.TEMPLATE_DIR || 'templates';
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+async function listTemplates() {
+  let names;
+  try {
+    names = await fs.readdir(TEMPLATE_DIR);
+  } catch {
+    return [];
+  }
+  const templates = await Promise.all(
+    names.filter(name => name.endsWith('.json')).map(name => loadTemplate(path.basename(name, '.json')))
+  );
+  return templates.filter(Boolean).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function loadTemplate(id) {
+  // Ids are UUIDs; anything else must not reach the file system
+  if (!ID_PATTERN.test(id)) return null;
+  try {
+    return JSON.parse(await fs.readFile(path.join(TEMPLATE_DIR, `${id}.json`), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Creates a template, or replaces the one with the same name so that
+ * re-saving a supplier's mapping updates it in place.
+ */
+async function saveTemplate({ name, table, headers, fingerprint, columns, computed, rules, parseOptions }) {
+  if (!name || !String(name).trim()) throw new Error('name is required');
+  if (!/^\w+$/.test(table || '')) throw new Error('table is required');
+  if (!Array.isArray(headers) || !fingerprint || !Array.isArray(columns)) {
+    throw new Error('headers, fingerprint and columns are required');
+  }
+
+  const existing = (await listTemplates()).find(template => template.name === name.trim());
+  const now = new Date().toISOString();
+  const template = {
+    id: existing ? existing.id : crypto.randomUUID(),
+    name: name.trim(),
+    table,
+    headers,
+    fingerprint,
+    columns,
+    computed: Array.isArray(computed) ? computed : [],
+    // Saving the mapping again keeps the rules unless new ones are sent
+    rules: Array.isArray(rules) ? rules : (existing && existing.rules) || [],
+    parseOptions: parseOptions || {},
+    createdAt: existing ? existing.createdAt : now,
+    updatedAt: now
+  };
+
+  await fs.mkdir(TEMPLATE_DIR, { recursive: true });
+  await fs.writeFile(path.join(TEMPLATE_DIR, `${template.id}.json`), JSON.stringify(template, null, 2));
+  return template;
+}
+
+async function deleteTemplate(id) {
+  if (!ID_PATTERN.test(id)) return false;
+  try {
+    await fs.unlink(path.join(TEMPLATE_DIR, `${id}.json`));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+module.exports = {
+  listTemplates,
+  loadTemplate,
+  saveTemplate,
+  deleteTemplate
+};
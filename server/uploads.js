@@ -0,0 +1,177 @@
+const fs = require('fs/promises');
+const { createReadStream, createWriteStream } = require('fs');
+const { pipeline } = require('stream/promises');
+const path = require('path');
+const crypto = require('crypto');
+
+// Chunked uploads live in one directory per upload: session.json plus one
+// <index>.part file per verified chunk. A chunk is only renamed into place
+// once its checksum matched, so the parts on disk are always complete and
+// the set of parts is the resume state.
+const UPLOAD_DIR = process.env.UPLOAD_DIR || 'uploads/chunked';
+const CHUNK_SIZE = 5 * 1024 * 1024;
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+const MAX_FILE_SIZE = 1024 * 1024 * 1024;
+// Abandoned uploads are removed after a day
+const SESSION_TTL = 24 * 60 * 60 * 1000;
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+// CRC-32 rather than a cryptographic hash: it only has to catch chunks
+// damaged in transit, and browsers lack SubtleCrypto outside HTTPS
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data) {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+}
+
+class UploadError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function sessionDir(id) {
+  // Ids are UUIDs; anything else must not reach the file system
+  if (!ID_PATTERN.test(id)) throw new UploadError('Upload not found', 404);
+  return path.join(UPLOAD_DIR, id);
+}
+
+async function createSession({ fileName, size, chunkSize }) {
+  if (!fileName || !Number.isInteger(size) || size < 0) {
+    throw new UploadError('fileName and size are required');
+  }
+  if (size > MAX_FILE_SIZE) throw new UploadError(`Files over ${MAX_FILE_SIZE / 1024 / 1024}MB are not accepted`, 413);
+
+  await removeExpiredSessions();
+
+  const session = {
+    id: crypto.randomUUID(),
+    fileName: path.basename(fileName),
+    size,
+    chunkSize: Math.min(Number.isInteger(chunkSize) && chunkSize > 0 ? chunkSize : CHUNK_SIZE, MAX_CHUNK_SIZE),
+    createdAt: new Date().toISOString()
+  };
+  session.chunkCount = Math.max(1, Math.ceil(size / session.chunkSize));
+
+  await fs.mkdir(sessionDir(session.id), { recursive: true });
+  await fs.writeFile(path.join(sessionDir(session.id), 'session.json'), JSON.stringify(session));
+  return { ...session, received: [] };
+}
+
+/**
+ * Session details with the indexes of the chunks already stored, so a
+ * client can pick up where a dropped connection left off.
+ */
+async function getSession(id) {
+  const dir = sessionDir(id);
+  let session;
+  try {
+    session = JSON.parse(await fs.readFile(path.join(dir, 'session.json'), 'utf8'));
+  } catch {
+    throw new UploadError('Upload not found', 404);
+  }
+
+  const received = (await fs.readdir(dir))
+    .map(name => name.match(/^(\d+)\.part$/))
+    .filter(Boolean)
+    .map(match => Number(match[1]))
+    .sort((a, b) => a - b);
+  return { ...session, received };
+}
+
+/**
+ * Stores one chunk after checking its CRC-32 against the one the client
+ * computed. Re-sending a chunk that is already stored is harmless.
+ */
+async function writeChunk(id, index, data, checksum) {
+  const session = await getSession(id);
+  if (!Number.isInteger(index) || index < 0 || index >= session.chunkCount) {
+    throw new UploadError(`Chunk ${index} is out of range`);
+  }
+
+  const expectedSize = index === session.chunkCount - 1
+    ? session.size - index * session.chunkSize
+    : session.chunkSize;
+  if (data.length !== expectedSize) {
+    throw new UploadError(`Chunk ${index} should be ${expectedSize} bytes, got ${data.length}`);
+  }
+
+  if (!checksum || crc32(data) !== checksum.toLowerCase()) {
+    throw new UploadError(`Checksum mismatch for chunk ${index}`, 422);
+  }
+
+  const dir = sessionDir(id);
+  const temp = path.join(dir, `${index}.${crypto.randomUUID()}.tmp`);
+  await fs.writeFile(temp, data);
+  await fs.rename(temp, path.join(dir, `${index}.part`));
+  return { index };
+}
+
+/**
+ * Joins the chunks into the complete file. Returns an object shaped like
+ * a multer file so it can go straight into the parsing pipeline.
+ */
+async function assemble(id) {
+  const session = await getSession(id);
+  const missing = [];
+  for (let index = 0; index < session.chunkCount; index++) {
+    if (!session.received.includes(index)) missing.push(index);
+  }
+  if (missing.length > 0) {
+    throw new UploadError(`Upload incomplete, missing chunks: ${missing.slice(0, 10).join(', ')}`, 409);
+  }
+
+  const dir = sessionDir(id);
+  const target = path.join(dir, 'file');
+  const output = createWriteStream(target);
+  for (let index = 0; index < session.chunkCount; index++) {
+    await pipeline(createReadStream(path.join(dir, `${index}.part`)), output, { end: false });
+  }
+  output.end();
+  await new Promise((resolve, reject) => {
+    output.on('finish', resolve);
+    output.on('error', reject);
+  });
+
+  const { size } = await fs.stat(target);
+  if (size !== session.size) {
+    throw new UploadError(`Assembled file is ${size} bytes, expected ${session.size}`, 409);
+  }
+  return { path: target, originalname: session.fileName, size };
+}
+
+async function removeSession(id) {
+  await fs.rm(sessionDir(id), { recursive: true, force: true });
+}
+
+async function removeExpiredSessions() {
+  let ids;
+  try {
+    ids = await fs.readdir(UPLOAD_DIR);
+  } catch {
+    return;
+  }
+  const now = Date.now();
+  for (const id of ids.filter(name => ID_PATTERN.test(name))) {
+    const { mtimeMs } = await fs.stat(path.join(UPLOAD_DIR, id)).catch(() => ({ mtimeMs: now }));
+    if (now - mtimeMs > SESSION_TTL) await removeSession(id);
+  }
+}
+
+module.exports = {
+  MAX_CHUNK_SIZE,
+  UploadError,
+  createSession,
+  getSession,
+  writeChunk,
+  assemble,
+  removeSession
+};
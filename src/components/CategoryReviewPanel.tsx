@@ -0,0 +1,112 @@
+import React from 'react';
+import { FolderTree } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Category,
+  CategoryMatch,
+  CategoryMatchMethod,
+  CategoryReport,
+  categoryLabel,
+} from '@/services/categoryResolution';
+
+interface CategoryReviewPanelProps {
+  report: CategoryReport;
+  categories: Category[];
+  /** True while the AI is asked about values nothing else matched. */
+  suggesting?: boolean;
+  onChoose: (value: string, category: Category) => void;
+  onApprove: (matches: CategoryMatch[]) => void;
+}
+
+const methodLabels: Record<CategoryMatchMethod, string> = {
+  exact: 'same name',
+  synonym: 'approved before',
+  fuzzy: 'similar name',
+  ai: 'AI suggestion'
+};
+
+const CategoryReviewPanel: React.FC<CategoryReviewPanelProps> = ({ report, categories, suggesting, onChoose, onApprove }) => {
+  const review = report.matches.filter(match => match.review);
+  const suggested = review.filter(match => match.category);
+  const resolved = (['exact', 'synonym', 'fuzzy', 'ai'] as CategoryMatchMethod[])
+    .map(method => [method, report.matches.filter(match => !match.review && match.method === method).length] as const)
+    .filter(([, count]) => count > 0);
+
+  return (
+    <div className="space-y-1 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <FolderTree className="w-3 h-3 text-muted-foreground" />
+        <span>
+          {report.matches.length} category values
+          {resolved.length > 0 && `, ${resolved.map(([method, count]) => `${count} by ${methodLabels[method]}`).join(', ')}`}
+        </span>
+        {review.length > 0 && <span className="text-yellow-400">{review.length} to review</span>}
+        {suggesting && <span className="text-muted-foreground">asking AI…</span>}
+        {suggested.length > 1 && (
+          <Button size="sm" variant="ghost" onClick={() => onApprove(suggested)} className="ml-auto h-6 px-2 text-xs">
+            Approve all suggestions
+          </Button>
+        )}
+      </div>
+
+      {review.length > 0 && (
+        <ScrollArea className="max-h-60 rounded border border-border/50 bg-background/50">
+          <div className="divide-y divide-border/50">
+            {review.map(match => (
+              <div key={match.value} className="px-2 py-1 flex items-center gap-2">
+                <span className="font-mono">{match.value}</span>
+                <span className="text-muted-foreground">{match.count} rows</span>
+                {match.method && (
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                    {methodLabels[match.method]}
+                    {match.confidence !== undefined && ` ${Math.round(match.confidence * 100)}%`}
+                  </Badge>
+                )}
+                <div className="ml-auto flex gap-1">
+                  <Select
+                    value={match.category ? String(match.category.id) : undefined}
+                    onValueChange={(id) => {
+                      const category = categories.find(c => String(c.id) === id);
+                      if (category) onChoose(match.value, category);
+                    }}
+                  >
+                    <SelectTrigger className="h-6 w-56 text-xs">
+                      <SelectValue placeholder="Choose category…" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map(category => (
+                        <SelectItem key={category.id} value={String(category.id)} className="text-xs">
+                          {categoryLabel(category)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    disabled={!match.category}
+                    onClick={() => onApprove([match])}
+                    className="h-6 px-2 text-xs"
+                  >
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+};
+
+export default CategoryReviewPanel;
@@ -1,11 +1,61 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Upload, Bot, User } from 'lucide-react';
+import { Send, Upload, Bot, User, ImageIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Progress } from '@/components/ui/progress';
 import { toast } from '@/hooks/use-toast';
+import { fileService, ProcessOptions, ProcessedData } from '@/services/fileService';
+import { DataProfile, describeProfile, profileData } from '@/services/dataProfiler';
+import { FixedWidthColumn } from '@/services/fixedWidth';
+import { layoutStore } from '@/services/layoutStore';
+import { ImageAsset } from '@/services/imageCatalog';
+import { formatRegistry } from '@/services/formatRegistry';
+import { Dataset, datasetService } from '@/services/datasetService';
+import { normalizationPreview } from '@/services/normalization';
+import { ColumnLocaleOverride } from '@/services/typeInference';
+import { ValidationReport, validationEngine } from '@/services/validation';
+import { unitRules } from '@/services/units';
+import { DuplicateDecision, DuplicateReport, findDuplicates } from '@/services/duplicateDetection';
+import { ColumnMapping, TargetColumn, mergeMappings, schemaRules, suggestMapping } from '@/services/columnMapping';
+import { aiService } from '@/services/aiService';
+import {
+  MappingTemplate,
+  TemplateDrift,
+  TemplateMatch,
+  applyTemplate,
+  findTemplate,
+  matchTemplate,
+  parseOptionChanges,
+  templateService,
+} from '@/services/templateService';
+import { databaseService } from '@/services/databaseService';
+import { importService } from '@/services/importService';
+import {
+  Category,
+  CategoryMatch,
+  CategoryReport,
+  CategorySynonym,
+  categoryCandidates,
+  categoryColumn,
+  categoryService,
+  collectCategoryValues,
+  resolveCategories,
+} from '@/services/categoryResolution';
+import SheetPicker from './SheetPicker';
+import EncodingSelect from './EncodingSelect';
+import XmlMappingPanel from './XmlMappingPanel';
+import HeaderRowPicker from './HeaderRowPicker';
+import FixedWidthPanel from './FixedWidthPanel';
+import NormalizationPreview from './NormalizationPreview';
+import DataProfileCard from './DataProfileCard';
+import ValidationPanel from './ValidationPanel';
+import DuplicatePanel from './DuplicatePanel';
+import ColumnMappingEditor from './ColumnMappingEditor';
+import TemplatePanel from './TemplatePanel';
+import CategoryReviewPanel from './CategoryReviewPanel';
 
 interface Message {
   id: string;
@@ -13,14 +63,84 @@ interface Message {
   content: string;
   timestamp: Date;
   files?: FileInfo[];
+  profiles?: DataProfile[];
 }
 
 interface FileInfo {
   name: string;
   size: number;
   type: string;
+  selectedSheets?: string[];
+  encoding?: string;
+  /** ZIP archive the file was unpacked from. */
+  archive?: string;
+  /** Plain-text column profile handed to the AI as context. */
+  profile?: string;
+  /** Datasets stored on the server for this file, one per sheet. */
+  datasetIds?: string[];
+  /** Source → pim_product column mapping chosen in the editor. */
+  mapping?: ColumnMapping;
 }
 
+interface UploadedFile extends FileInfo {
+  id: string;
+  file: File;
+  /** Parse options chosen in the preview, reused whenever the file is re-parsed. */
+  options?: ProcessOptions;
+  data?: ProcessedData;
+  /** Parse progress in percent while the file is still being read. */
+  progress?: number;
+  /** Upload progress in percent while the file is sent to the server. */
+  uploadProgress?: number;
+  headerConfirmed?: boolean;
+  validation?: ValidationReport;
+  duplicates?: DuplicateReport;
+  /** Merge-or-keep choices by duplicate group id; unset groups use the default. */
+  duplicateDecisions?: Record<string, DuplicateDecision>;
+  /** True while the AI mapping suggestion is pending. */
+  mappingSuggesting?: boolean;
+  /** Saved mapping template applied to the file. */
+  template?: Omit<TemplateMatch, 'template'> & { id: string; name: string };
+  templateDrift?: TemplateDrift;
+  categories?: CategoryReport;
+  /** True while the AI is asked about unresolved category values. */
+  categoriesSuggesting?: boolean;
+  /** True while the rows are being inserted. */
+  importing?: boolean;
+  /** What was worked out for the other sheets of a workbook, by sheet name. */
+  sheetStates?: Record<string, SheetState>;
+}
+
+const SHEET_FIELDS = [
+  'data', 'headerConfirmed', 'mapping', 'validation', 'duplicates', 'duplicateDecisions', 'template', 'templateDrift', 'categories'
+] as const;
+
+/** The part of an uploaded file that belongs to its active sheet. */
+type SheetState = Pick<UploadedFile, typeof SHEET_FIELDS[number]>;
+
+// Unresolved category values sent to the AI at once
+const CATEGORY_AI_VALUES = 50;
+
+const categoriesToReview = (file: SheetState) => file.categories?.matches.filter(match => match.review).length ?? 0;
+
+const sheetState = (file: SheetState): SheetState => Object.fromEntries(SHEET_FIELDS.map(field => [field, file[field]]));
+
+/** Sheets to import, with what was worked out for each; files without sheets have one entry. */
+const sheetsToImport = (file: UploadedFile): { name?: string; state?: SheetState }[] => {
+  const active = file.data?.sheetName;
+  if (!file.data?.sheets || !active) return [{ state: file }];
+  return (file.selectedSheets ?? [active]).map(name => ({ name, state: name === active ? file : file.sheetStates?.[name] }));
+};
+
+const isReadyToImport = (state?: SheetState) => !!(
+  state?.data && state.mapping && state.validation && !state.validation.blocked && categoriesToReview(state) === 0
+);
+
+/** Selected sheets other than the active one that still need mapping or checks. */
+const sheetsNotReady = (file: UploadedFile) => sheetsToImport(file)
+  .filter(sheet => sheet.name && sheet.name !== file.data?.sheetName && !isReadyToImport(sheet.state))
+  .map(sheet => sheet.name!);
+
 interface ChatInterfaceProps {
   onNewMessage?: (message: string) => void;
 }
@@ -29,7 +149,12 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onNewMessage }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [uploadedFiles, setUploadedFiles] = useState<FileInfo[]>([]);
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  // Images from uploaded archives, kept for the session to match to SKUs later
+  const [imageCatalog, setImageCatalog] = useState<ImageAsset[]>([]);
+  const [targetColumns, setTargetColumns] = useState<TargetColumn[]>([]);
+  const [templates, setTemplates] = useState<MappingTemplate[]>([]);
+  const [categoryTree, setCategoryTree] = useState<{ categories: Category[]; synonyms: CategorySynonym[] }>();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
@@ -38,6 +163,12 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onNewMessage }) => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  useEffect(() => {
+    databaseService.getTableSchema().then(setTargetColumns);
+    templateService.list().then(setTemplates).catch(error => console.error('Error loading templates:', error));
+    categoryService.load().then(setCategoryTree).catch(error => console.error('Error loading categories:', error));
+  }, []);
+
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
@@ -53,26 +184,49 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onNewMessage }) => {
     processFiles(files);
   };
 
-  const processFiles = (files: File[]) => {
-    const validFiles: FileInfo[] = [];
-    const supportedTypes = [
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'application/vnd.ms-excel',
-      'text/csv',
-      'text/plain'
-    ];
+  const handlePaste = (event: React.ClipboardEvent) => {
+    const file = fileService.fileFromClipboard(event.clipboardData);
+    if (!file) return;
+    // A pasted table becomes an attachment instead of text in the message
+    event.preventDefault();
+    processFiles([file]);
+  };
+
+  const processFiles = async (files: File[]) => {
+    const validFiles: UploadedFile[] = [];
+    const acceptedFiles: File[] = [];
 
     for (const file of files) {
-      if (supportedTypes.includes(file.type) || file.name.endsWith('.csv')) {
+      const format = await formatRegistry.detect(file);
+
+      if (format?.kind === 'archive') {
+        const extracted = await unpackArchive(file);
+        extracted.forEach(({ path, file: dataFile }) => {
+          validFiles.push({
+            id: `${Date.now()}-${validFiles.length}-${path}`,
+            name: path,
+            size: dataFile.size,
+            type: dataFile.type,
+            archive: file.name,
+            file: dataFile,
+            progress: 0
+          });
+          acceptedFiles.push(dataFile);
+        });
+      } else if (format) {
         validFiles.push({
+          id: `${Date.now()}-${validFiles.length}-${file.name}`,
           name: file.name,
           size: file.size,
-          type: file.type || 'text/csv'
+          type: file.type || format.mimeTypes[0] || 'text/plain',
+          file,
+          progress: 0
         });
+        acceptedFiles.push(file);
       } else {
         toast({
           title: "Unsupported file type",
-          description: `${file.name} is not supported. Please upload Excel, CSV, or text files.`,
+          description: `${file.name} is not supported. Please upload Excel, OpenDocument, CSV, JSON, XML, text or ZIP files.`,
           variant: "destructive"
         });
       }
@@ -85,24 +239,556 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onNewMessage }) => {
         description: `${validFiles.length} file(s) ready for processing.`
       });
     }
+
+    // One at a time, so several large files don't compete for memory
+    for (let i = 0; i < validFiles.length; i++) {
+      await parseUploadedFile(validFiles[i].id, acceptedFiles[i]);
+    }
+  };
+
+  const unpackArchive = async (archive: File) => {
+    try {
+      const { dataFiles, images, skipped } = await fileService.extractArchive(archive);
+      setImageCatalog(prev => [...prev.filter(image => image.archive !== archive.name), ...images]);
+
+      if (skipped.length > 0) {
+        toast({
+          title: "Some archive entries were skipped",
+          description: `${archive.name}: ${skipped.slice(0, 5).map(entry => `${entry.path} (${entry.reason})`).join(', ')}${
+            skipped.length > 5 ? ` and ${skipped.length - 5} more` : ''
+          }`
+        });
+      }
+      return dataFiles;
+    } catch (error) {
+      console.error('Archive error:', error);
+      toast({
+        title: "Could not unpack archive",
+        description: `${archive.name}: ${error instanceof Error ? error.message : error}`,
+        variant: "destructive"
+      });
+      return [];
+    }
+  };
+
+  const removeArchiveImages = (archive: string) => {
+    setImageCatalog(prev => prev.filter(image => image.archive !== archive));
+  };
+
+  const updateUploadedFile = (id: string, changes: Partial<UploadedFile>) => {
+    setUploadedFiles(prev => prev.map(file => (file.id === id ? { ...file, ...changes } : file)));
+  };
+
+  /**
+   * @param template template chosen for the file, whose parse options are
+   *   already in `options`; otherwise a matching one is looked up
+   */
+  const parseUploadedFile = async (id: string, file: File, options: ProcessOptions = {}, template?: MappingTemplate) => {
+    try {
+      const data = await fileService.processFile(file, {
+        ...options,
+        onProgress: ({ bytesRead, totalBytes }) => {
+          updateUploadedFile(id, { progress: totalBytes ? Math.round((bytesRead / totalBytes) * 100) : 100 });
+        }
+      });
+
+      const selectedSheets = data.sheets
+        ?.filter(sheet => !sheet.hidden && !sheet.empty)
+        .map(sheet => sheet.name);
+      if (data.sheets) flagSkippedSheets(data);
+
+      const match = template ? matchTemplate(data.headers, template) : findTemplate(data.headers, templates);
+      const changes = match && !template && parseOptionChanges(match.template, options);
+      if (match && changes) {
+        // The template's encoding, header rows or layout change the columns, so read the file again
+        data.rowSource.close();
+        updateUploadedFile(id, { options: { ...options, ...changes }, progress: 0 });
+        return parseUploadedFile(id, file, { ...options, ...changes }, match.template);
+      }
+
+      // A header set by hand on one sheet leaves the choice of sheets as it was
+      updateUploadedFile(id, { data, ...(!options.header?.sheet && { selectedSheets }), progress: undefined });
+      if (match) applyTemplateToFile(id, data, match, options);
+      // JSON and XML keys are the columns, so there is no header row to confirm
+      else if (['json', 'ndjson', 'xml'].includes(data.fileType)) startMapping(id, data);
+    } catch (error) {
+      console.error('File processing error:', error);
+      updateUploadedFile(id, { progress: undefined });
+      toast({
+        title: "Could not read file",
+        description: `${file.name} could not be parsed: ${error instanceof Error ? error.message : error}`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const applyTemplateToFile = (
+    id: string,
+    parsed: ProcessedData,
+    { template, exact, similarity }: TemplateMatch,
+    options: ProcessOptions = {}
+  ) => {
+    const { mapping, locale: templateLocale, drift } = applyTemplate(template, parsed.headers);
+    const locale = { ...options.locale, ...templateLocale };
+    const relocalized = JSON.stringify(locale) !== JSON.stringify(options.locale ?? {});
+    const data = relocalized ? fileService.withSchema(parsed, locale) : parsed;
+    // The template vouches for the header rows, so checks can start right away
+    updateUploadedFile(id, {
+      ...(relocalized && { data, options: { ...options, locale } }),
+      mapping,
+      template: { id: template.id, name: template.name, exact, similarity },
+      templateDrift: drift,
+      headerConfirmed: true
+    });
+    validateUploadedFile(id, data, mapping, template);
+    detectDuplicates(id, data);
+    resolveFileCategories(id, data, mapping);
+
+    if (drift.missing.length > 0) {
+      toast({
+        title: "Template columns missing",
+        description: `${template.name}: ${drift.missing.join(', ')} not found in ${data.fileName}, so they are not mapped.`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const chooseTemplate = (uploaded: UploadedFile, template: MappingTemplate) => {
+    const changes = parseOptionChanges(template, uploaded.options);
+    if (changes) {
+      const options = { ...uploaded.options, ...changes };
+      uploaded.data?.rowSource.close();
+      updateUploadedFile(uploaded.id, {
+        data: undefined, options, progress: 0, validation: undefined, duplicates: undefined, categories: undefined
+      });
+      parseUploadedFile(uploaded.id, uploaded.file, options, template);
+    } else if (uploaded.data) {
+      applyTemplateToFile(uploaded.id, uploaded.data, matchTemplate(uploaded.data.headers, template), uploaded.options);
+    }
+  };
+
+  const saveTemplate = async (uploaded: UploadedFile, name: string) => {
+    if (!uploaded.data || !uploaded.mapping) return;
+    const { csv, encoding, header, locale, fixedWidth } = uploaded.options || {};
+    try {
+      const template = await templateService.save(name, uploaded.data.headers, uploaded.mapping, {
+        csv, encoding, header, locale, fixedWidth
+      });
+      setTemplates(prev => [...prev.filter(t => t.id !== template.id), template].sort((a, b) => a.name.localeCompare(b.name)));
+      updateUploadedFile(uploaded.id, {
+        template: { id: template.id, name: template.name, exact: true, similarity: 1 },
+        templateDrift: undefined
+      });
+      toast({
+        title: "Template saved",
+        description: `Files with these columns will be mapped as ${template.name}.`
+      });
+    } catch (error) {
+      toast({
+        title: "Could not save template",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const reparseUploadedFile = (uploaded: UploadedFile, changes: ProcessOptions) => {
+    const options = { ...uploaded.options, ...changes };
+    uploaded.data?.rowSource.close();
+    updateUploadedFile(uploaded.id, {
+      data: undefined,
+      options,
+      progress: 0,
+      headerConfirmed: false,
+      validation: undefined,
+      duplicates: undefined,
+      duplicateDecisions: undefined,
+      mapping: undefined,
+      template: undefined,
+      templateDrift: undefined,
+      categories: undefined,
+      // The other sheets of a workbook keep their mapping when one sheet's header changes
+      sheetStates: changes.header?.sheet ? uploaded.sheetStates : undefined
+    });
+    parseUploadedFile(uploaded.id, uploaded.file, options);
+  };
+
+  /**
+   * Shows another sheet of a workbook, keeping what was worked out for the
+   * one shown so far. A sheet shown for the first time starts like a new
+   * file; checks that didn't finish while it was hidden run again.
+   */
+  const activateSheet = (uploaded: UploadedFile, name: string) => {
+    const current = uploaded.data?.sheetName;
+    if (!uploaded.data || !current || name === current) return;
+    const { [name]: stored, ...others } = { ...uploaded.sheetStates, [current]: sheetState(uploaded) };
+    const next = stored ?? { data: fileService.selectSheet(uploaded.data, name) };
+    updateUploadedFile(uploaded.id, { ...sheetState(next), sheetStates: others });
+
+    const { data, mapping } = next;
+    if (!data) return;
+    if (!next.headerConfirmed) {
+      const match = findTemplate(data.headers, templates);
+      if (match) applyTemplateToFile(uploaded.id, data, match, uploaded.options);
+      return;
+    }
+    const template = templates.find(t => t.id === next.template?.id);
+    if (!next.validation) validateUploadedFile(uploaded.id, data, mapping, template);
+    if (!next.duplicates) detectDuplicates(uploaded.id, data);
+    if (!next.categories && mapping) resolveFileCategories(uploaded.id, data, mapping);
+  };
+
+  const overrideHeader = (uploaded: UploadedFile, row: number, count: number) => {
+    reparseUploadedFile(uploaded, { header: { row, count, sheet: uploaded.data?.sheetName } });
+  };
+
+  const saveFixedWidthLayout = (uploaded: UploadedFile, pattern: string, columns: FixedWidthColumn[]) => {
+    layoutStore.save(pattern, columns);
+    toast({
+      title: "Layout saved",
+      description: `Files matching ${pattern} will be read with these ${columns.length} columns.`
+    });
+    // Re-read without an explicit layout so the saved one is picked up
+    reparseUploadedFile(uploaded, { fixedWidth: undefined });
+  };
+
+  const overrideLocale = (uploaded: UploadedFile, index: number, override: ColumnLocaleOverride | undefined) => {
+    if (!uploaded.data) return;
+    const locale = { ...uploaded.options?.locale };
+    if (override) {
+      locale[index] = override;
+    } else {
+      delete locale[index];
+    }
+
+    // Only the column types depend on the locale, so there is no need to re-parse
+    const data = fileService.withSchema(uploaded.data, locale);
+    updateUploadedFile(uploaded.id, { data, options: { ...uploaded.options, locale }, validation: undefined });
+    if (uploaded.headerConfirmed) validateUploadedFile(uploaded.id, data, uploaded.mapping, templateOf(uploaded));
+  };
+
+  const confirmHeader = (uploaded: UploadedFile) => {
+    if (!uploaded.data) return;
+    // Validation only makes sense once the columns are the right ones
+    startMapping(uploaded.id, uploaded.data, uploaded.mapping, templateOf(uploaded));
+  };
+
+  /** Maps the file's columns, by name and then by the AI unless a mapping is given, and starts the checks. */
+  const startMapping = (id: string, data: ProcessedData, current?: ColumnMapping, template?: MappingTemplate) => {
+    const mapping = current ?? suggestMapping('pim_product', data.headers, targetColumns);
+    updateUploadedFile(id, { headerConfirmed: true, mapping });
+    validateUploadedFile(id, data, mapping, template);
+    detectDuplicates(id, data);
+    resolveFileCategories(id, data, mapping);
+    if (!current) suggestMappingWithAI(id, data, mapping);
+  };
+
+  const suggestMappingWithAI = async (id: string, data: ProcessedData, byName: ColumnMapping) => {
+    if (targetColumns.length === 0) return;
+    updateUploadedFile(id, { mappingSuggesting: true });
+    let mapping: ColumnMapping | undefined;
+    try {
+      const profile = await profileData(data);
+      mapping = mergeMappings(await aiService.suggestColumnMapping(profile, byName.table, targetColumns), byName);
+    } catch (error) {
+      console.error('Mapping suggestion error:', error);
+    }
+    // Keep whatever the user has mapped by hand in the meantime
+    setUploadedFiles(prev => prev.map(file => (
+      file.id !== id ? file : {
+        ...file,
+        mappingSuggesting: false,
+        mapping: mapping && file.mapping === byName ? mapping : file.mapping
+      }
+    )));
+    if (mapping) {
+      validateUploadedFile(id, data, mapping);
+      resolveFileCategories(id, data, mapping);
+    }
+  };
+
+  const changeMapping = (uploaded: UploadedFile, mapping: ColumnMapping) => {
+    updateUploadedFile(uploaded.id, { mapping });
+    if (!uploaded.data) return;
+    const template = templateOf(uploaded);
+    const rules = (m?: ColumnMapping) => JSON.stringify(validationRules(uploaded.data!, m, template));
+    if (uploaded.headerConfirmed && rules(uploaded.mapping) !== rules(mapping)) {
+      validateUploadedFile(uploaded.id, uploaded.data, mapping, template);
+    }
+    if (JSON.stringify(categoryColumn(uploaded.mapping)) !== JSON.stringify(categoryColumn(mapping))) {
+      resolveFileCategories(uploaded.id, uploaded.data, mapping);
+    }
+  };
+
+  /**
+   * Matches the values of the mapped category column to the category tree.
+   * The AI is asked about values nothing else matched; its answers still
+   * need review.
+   */
+  const resolveFileCategories = async (id: string, data: ProcessedData, mapping: ColumnMapping) => {
+    const column = categoryColumn(mapping);
+    // Drop results once the file was re-parsed or its category column changed
+    const isCurrent = (file: UploadedFile) => (
+      file.id === id && file.data === data && JSON.stringify(categoryColumn(file.mapping)) === JSON.stringify(column)
+    );
+    if (!column || !categoryTree) {
+      setUploadedFiles(prev => prev.map(file => (isCurrent(file) ? { ...file, categories: undefined } : file)));
+      return;
+    }
+
+    try {
+      const values = await collectCategoryValues(data, column.source, column.steps);
+      const report = { column: column.source, matches: resolveCategories(values, categoryTree.categories, categoryTree.synonyms) };
+      const unresolved = report.matches.filter(match => !match.category).slice(0, CATEGORY_AI_VALUES).map(match => match.value);
+      setUploadedFiles(prev => prev.map(file => (
+        isCurrent(file) ? { ...file, categories: report, categoriesSuggesting: unresolved.length > 0 } : file
+      )));
+      if (unresolved.length === 0) return;
+
+      let suggestions: Awaited<ReturnType<typeof aiService.suggestCategories>> = [];
+      try {
+        suggestions = await aiService.suggestCategories(unresolved, categoryCandidates(unresolved, categoryTree.categories));
+      } catch (error) {
+        console.error('Category suggestion error:', error);
+      }
+      // Values chosen by hand in the meantime are left alone
+      setUploadedFiles(prev => prev.map(file => (
+        !isCurrent(file) || !file.categories ? file : {
+          ...file,
+          categoriesSuggesting: false,
+          categories: {
+            ...file.categories,
+            matches: file.categories.matches.map(match => {
+              const suggestion = suggestions.find(s => s.value === match.value);
+              return suggestion && !match.category
+                ? { ...match, category: suggestion.category, method: 'ai', confidence: suggestion.confidence }
+                : match;
+            })
+          }
+        }
+      )));
+    } catch (error) {
+      console.error('Category resolution error:', error);
+    }
+  };
+
+  const chooseCategory = (uploaded: UploadedFile, value: string, category: Category) => {
+    setUploadedFiles(prev => prev.map(file => (
+      file.id !== uploaded.id || !file.categories ? file : {
+        ...file,
+        categories: {
+          ...file.categories,
+          matches: file.categories.matches.map(match => (
+            match.value === value ? { ...match, category, method: undefined, confidence: undefined, review: true } : match
+          ))
+        }
+      }
+    )));
+  };
+
+  /** Approved matches are remembered, so the values resolve by synonym in later files. */
+  const approveCategories = async (uploaded: UploadedFile, matches: CategoryMatch[]) => {
+    const approved = new Map(matches.filter(match => match.category).map(match => [match.value, match.category!]));
+    try {
+      const synonyms = await categoryService.approve([...approved].map(([value, category]) => ({ value, categoryId: category.id })));
+      setCategoryTree(prev => prev && { ...prev, synonyms });
+      setUploadedFiles(prev => prev.map(file => (
+        file.id !== uploaded.id || !file.categories ? file : {
+          ...file,
+          categories: {
+            ...file.categories,
+            matches: file.categories.matches.map(match => (
+              approved.has(match.value) ? { ...match, category: approved.get(match.value), review: false } : match
+            ))
+          }
+        }
+      )));
+    } catch (error) {
+      toast({
+        title: "Could not approve categories",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const detectDuplicates = async (id: string, data: ProcessedData, keyColumn?: number) => {
+    try {
+      const duplicates = await findDuplicates(data, { keyColumn }) ?? undefined;
+      setUploadedFiles(prev => prev.map(file => (
+        file.id === id && file.data?.rowSource === data.rowSource
+          ? { ...file, duplicates, duplicateDecisions: {} }
+          : file
+      )));
+    } catch (error) {
+      console.error('Duplicate detection error:', error);
+    }
+  };
+
+  const decideDuplicate = (uploaded: UploadedFile, groupId: string, decision: DuplicateDecision) => {
+    updateUploadedFile(uploaded.id, {
+      duplicateDecisions: { ...uploaded.duplicateDecisions, [groupId]: decision }
+    });
+  };
+
+  const templateOf = (uploaded: UploadedFile) => templates.find(template => template.id === uploaded.template?.id);
+
+  /** The target table's constraints and unit checks for the mapped columns, and the template's own rules. */
+  const validationRules = (data: ProcessedData, mapping?: ColumnMapping, template?: MappingTemplate) => [
+    ...(mapping ? [...schemaRules(mapping, data.headers, targetColumns), ...unitRules(mapping, data.headers)] : []),
+    ...(template?.rules ?? [])
+  ];
+
+  const validateUploadedFile = async (id: string, data: ProcessedData, mapping?: ColumnMapping, template?: MappingTemplate) => {
+    try {
+      const validation = await validationEngine.validate(data, validationRules(data, mapping, template));
+      // Drop the result if the file was re-parsed or its mapping changed meanwhile
+      setUploadedFiles(prev => prev.map(file => (
+        file.id === id && file.data === data && (!mapping || file.mapping === mapping) ? { ...file, validation } : file
+      )));
+    } catch (error) {
+      console.error('Validation error:', error);
+    }
+  };
+
+  /** Imports the file, or each selected sheet of a workbook with its own mapping and checks. */
+  const importUploadedFile = async (uploaded: UploadedFile) => {
+    const sheets = sheetsToImport(uploaded);
+    if (sheets.length === 0 || !sheets.every(sheet => isReadyToImport(sheet.state))) return;
+    updateUploadedFile(uploaded.id, { importing: true });
+    const totals = { inserted: 0, skipped: 0, merged: 0 };
+    let source = uploaded.name;
+    try {
+      for (const { name, state } of sheets) {
+        const { data, mapping, validation, duplicates, duplicateDecisions, categories } = state!;
+        source = name ? `${uploaded.name} (${name})` : uploaded.name;
+        const result = await importService.importFile(data!, mapping!, { validation, duplicates, duplicateDecisions, categories });
+        totals.inserted += result.inserted;
+        totals.skipped += result.skipped;
+        totals.merged += result.merged;
+      }
+      const { inserted, skipped, merged } = totals;
+      toast({
+        title: "Import finished",
+        description: `${inserted} rows of ${uploaded.name}${sheets.length > 1 ? ` (${sheets.length} sheets)` : ''} imported${
+          [merged > 0 && `, ${merged} merged into duplicates`, skipped > 0 && `, ${skipped} skipped`].filter(Boolean).join('')
+        }.`
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: `${source}: ${error instanceof Error ? error.message : error}${
+          totals.inserted > 0 ? ` (${totals.inserted} rows of the sheets before were imported)` : ''
+        }`,
+        variant: "destructive"
+      });
+    } finally {
+      updateUploadedFile(uploaded.id, { importing: false });
+    }
+  };
+
+  const removeUploadedFile = (id: string) => {
+    setUploadedFiles(prev => prev.filter(file => {
+      if (file.id !== id) return true;
+      file.data?.rowSource.close();
+      return false;
+    }));
+  };
+
+  const flagSkippedSheets = (data: ProcessedData) => {
+    const skipped = data.sheets?.filter(sheet => sheet.hidden || sheet.empty) || [];
+    if (skipped.length === 0) return;
+
+    toast({
+      title: "Some sheets were not selected",
+      description: `${data.fileName}: ${skipped
+        .map(sheet => `${sheet.name} (${sheet.empty ? 'empty' : 'hidden'})`)
+        .join(', ')}. Tick them in the sheet list to import them anyway.`
+    });
+  };
+
+  const updateSelectedSheets = (id: string, selectedSheets: string[]) => {
+    updateUploadedFile(id, { selectedSheets });
+  };
+
+  const storeDatasets = async (
+    id: string,
+    name: string,
+    file: File,
+    data: ProcessedData,
+    selectedSheets?: string[]
+  ) => {
+    try {
+      updateUploadedFile(id, { uploadProgress: 0 });
+      return await datasetService.createDatasets(file, data, selectedSheets, {
+        onProgress: ({ bytesSent, totalBytes }) => {
+          updateUploadedFile(id, { uploadProgress: totalBytes ? Math.round((bytesSent / totalBytes) * 100) : 100 });
+        }
+      });
+    } catch (error) {
+      console.error(`Storing ${name} failed:`, error);
+      toast({
+        title: "Dataset not stored",
+        description: `${name} could not be stored on the server: ${error instanceof Error ? error.message : error}`,
+        variant: "destructive"
+      });
+      return undefined;
+    } finally {
+      updateUploadedFile(id, { uploadProgress: undefined });
+    }
   };
 
   const sendMessage = async () => {
     if (!inputValue.trim() && uploadedFiles.length === 0) return;
 
+    setIsLoading(true);
+    const profiles = await Promise.all(uploadedFiles.map(async ({ name, data }) => {
+      if (!data) return undefined;
+      try {
+        return await profileData(data);
+      } catch (error) {
+        console.error(`Profiling ${name} failed:`, error);
+        return undefined;
+      }
+    }));
+
+    // One at a time, so large files don't split the bandwidth
+    const datasets: (Dataset[] | undefined)[] = [];
+    for (const { id, name, file, data, selectedSheets } of uploadedFiles) {
+      datasets.push(data && await storeDatasets(id, name, file, data, selectedSheets));
+    }
+
+    const sentFiles: FileInfo[] = uploadedFiles.map(({
+      id, file, options, data, progress, uploadProgress, headerConfirmed, validation, duplicates, duplicateDecisions,
+      mappingSuggesting, template, templateDrift, categories, categoriesSuggesting, importing, sheetStates, ...info
+    }, index) => ({
+      ...info,
+      encoding: data?.encoding?.name,
+      profile: profiles[index] && describeProfile(profiles[index]),
+      datasetIds: datasets[index]?.map(dataset => dataset.id)
+    }));
     const userMessage: Message = {
       id: Date.now().toString(),
       type: 'user',
       content: inputValue || `Uploaded ${uploadedFiles.length} file(s) for processing`,
       timestamp: new Date(),
-      files: uploadedFiles.length > 0 ? uploadedFiles : undefined
+      files: sentFiles.length > 0 ? sentFiles : undefined
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    const reports = profiles.filter((profile): profile is DataProfile => profile !== undefined);
+    const profileMessage: Message | undefined = reports.length > 0 ? {
+      id: `${userMessage.id}-profile`,
+      type: 'ai',
+      content: 'Here is a profile of the uploaded data.',
+      timestamp: new Date(),
+      profiles: reports
+    } : undefined;
+
+    setMessages(prev => profileMessage ? [...prev, userMessage, profileMessage] : [...prev, userMessage]);
     onNewMessage?.(inputValue);
     setInputValue('');
+    uploadedFiles.forEach(file => file.data?.rowSource.close());
     setUploadedFiles([]);
-    setIsLoading(true);
 
     try {
       // Real API call to backend
@@ -113,7 +799,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onNewMessage }) => {
         },
         body: JSON.stringify({
           message: inputValue,
-          files: uploadedFiles,
+          files: sentFiles,
+          images: imageCatalog.map(image => image.path),
           history: messages
         }),
       });
@@ -214,10 +901,23 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onNewMessage }) => {
                               <span className="text-xs text-muted-foreground">
                                 ({formatFileSize(file.size)})
                               </span>
+                              {file.selectedSheets && (
+                                <span className="text-xs text-muted-foreground">
+                                  • {file.selectedSheets.join(', ') || 'no sheets'}
+                                </span>
+                              )}
                             </div>
                           ))}
                         </div>
                       )}
+
+                      {message.profiles && (
+                        <div className="mt-3 space-y-3">
+                          {message.profiles.map((profile, index) => (
+                            <DataProfileCard key={index} profile={profile} />
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -260,22 +960,221 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onNewMessage }) => {
       </div>
 
       {/* File Upload Preview */}
-      {uploadedFiles.length > 0 && (
+      {(uploadedFiles.length > 0 || imageCatalog.length > 0) && (
         <div className="px-4 py-3 border-t border-border bg-background/50 backdrop-blur-sm">
           <div className="max-w-4xl mx-auto">
             <div className="flex flex-wrap gap-2">
-              {uploadedFiles.map((file, index) => (
-                <div key={index} className="flex items-center gap-2 px-3 py-2 bg-primary/10 rounded-lg border border-primary/20">
-                  <Upload className="w-4 h-4 text-primary" />
-                  <span className="text-sm font-medium">{file.name}</span>
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    onClick={() => setUploadedFiles(prev => prev.filter((_, i) => i !== index))}
-                    className="h-4 w-4 p-0 text-muted-foreground hover:text-foreground"
-                  >
-                    ×
-                  </Button>
+              {uploadedFiles.map((file) => (
+                <div key={file.id} className="px-3 py-2 bg-primary/10 rounded-lg border border-primary/20">
+                  <div className="flex items-center gap-2">
+                    <Upload className="w-4 h-4 text-primary" />
+                    <span className="text-sm font-medium">{file.name}</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => removeUploadedFile(file.id)}
+                      className="h-4 w-4 p-0 text-muted-foreground hover:text-foreground"
+                    >
+                      ×
+                    </Button>
+                  </div>
+                  {file.progress !== undefined && (
+                    <div className="mt-2 flex items-center gap-2">
+                      <Progress value={file.progress} className="h-1.5 w-32" />
+                      <span className="text-xs text-muted-foreground">Parsing {file.progress}%</span>
+                    </div>
+                  )}
+                  {file.uploadProgress !== undefined && (
+                    <div className="mt-2 flex items-center gap-2">
+                      <Progress value={file.uploadProgress} className="h-1.5 w-32" />
+                      <span className="text-xs text-muted-foreground">Uploading {file.uploadProgress}%</span>
+                    </div>
+                  )}
+                  {file.data?.childRecords && file.data.childRecords.length > 0 && (
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {file.data.totalRows} records with{' '}
+                      {file.data.childRecords.map(child => `${child.totalRows} ${child.name}`).join(', ')}
+                    </p>
+                  )}
+                  {file.data?.encoding && (
+                    <div className="mt-2">
+                      <EncodingSelect
+                        encoding={file.data.encoding}
+                        onChange={(encoding) => reparseUploadedFile(file, { encoding })}
+                      />
+                    </div>
+                  )}
+                  {file.data?.sampleLines && (
+                    <div className="mt-2">
+                      <FixedWidthPanel
+                        key={JSON.stringify(file.data.fixedWidth)}
+                        fileName={file.name}
+                        sampleLines={file.data.sampleLines}
+                        layout={file.data.fixedWidth}
+                        onApply={(fixedWidth) => reparseUploadedFile(file, { fixedWidth })}
+                        onSave={(pattern, columns) => saveFixedWidthLayout(file, pattern, columns)}
+                      />
+                    </div>
+                  )}
+                  {file.data?.xml && (
+                    <div className="mt-2">
+                      <XmlMappingPanel
+                        key={JSON.stringify([file.data.xml.mode, file.data.xml.recordPath, file.data.xml.fields])}
+                        xml={file.data.xml}
+                        onApply={(xml) => reparseUploadedFile(file, { xml })}
+                      />
+                    </div>
+                  )}
+                  {file.data?.header && (
+                    <div className="mt-2 space-y-1">
+                      <HeaderRowPicker
+                        header={file.data.header}
+                        confirmed={!!file.headerConfirmed}
+                        onOverride={(row, count) => overrideHeader(file, row, count)}
+                        onConfirm={() => confirmHeader(file)}
+                      />
+                    </div>
+                  )}
+                  {file.data?.schema && (
+                    <div className="mt-1 flex flex-wrap gap-1 max-w-xl">
+                      {file.data.schema.map(column => (
+                        <span
+                          key={column.index}
+                          title={`${Math.round(column.confidence * 100)}% of ${column.sampleSize} values`}
+                          className="text-[10px] px-1.5 py-0.5 rounded bg-background/60 border border-border/50"
+                        >
+                          {column.name || `#${column.index + 1}`}
+                          <span className="text-muted-foreground"> {column.type}</span>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {file.data?.locale && (
+                    <div className="mt-2">
+                      <NormalizationPreview
+                        locale={file.data.locale}
+                        columns={normalizationPreview(file.data)}
+                        onOverride={(index, override) => overrideLocale(file, index, override)}
+                      />
+                    </div>
+                  )}
+                  {file.validation && (
+                    <div className="mt-1">
+                      <ValidationPanel report={file.validation} />
+                    </div>
+                  )}
+                  {file.data && file.headerConfirmed && (
+                    <div className="mt-2">
+                      <TemplatePanel
+                        key={file.template?.id}
+                        fileName={file.name}
+                        templates={templates}
+                        match={file.template}
+                        drift={file.templateDrift}
+                        onApply={(template) => chooseTemplate(file, template)}
+                        onSave={(name) => saveTemplate(file, name)}
+                      />
+                    </div>
+                  )}
+                  {file.data && file.mapping && targetColumns.length > 0 && (
+                    <div className="mt-2">
+                      <ColumnMappingEditor
+                        headers={file.data.headers}
+                        rows={file.data.rows}
+                        previewRows={file.data.preview.map(record => file.data!.headers.map(header => record[header]))}
+                        schema={file.data.schema}
+                        targets={targetColumns}
+                        mapping={file.mapping}
+                        suggesting={file.mappingSuggesting}
+                        onChange={(mapping) => changeMapping(file, mapping)}
+                      />
+                    </div>
+                  )}
+                  {file.categories && categoryTree && (
+                    <div className="mt-2">
+                      <CategoryReviewPanel
+                        report={file.categories}
+                        categories={categoryTree.categories}
+                        suggesting={file.categoriesSuggesting}
+                        onChoose={(value, category) => chooseCategory(file, value, category)}
+                        onApprove={(matches) => approveCategories(file, matches)}
+                      />
+                    </div>
+                  )}
+                  {file.data && file.duplicates && (
+                    <div className="mt-2">
+                      <DuplicatePanel
+                        headers={file.data.headers}
+                        report={file.duplicates}
+                        decisions={file.duplicateDecisions || {}}
+                        onDecide={(groupId, decision) => decideDuplicate(file, groupId, decision)}
+                        onKeyColumnChange={(column) => file.data && detectDuplicates(file.id, file.data, column)}
+                      />
+                    </div>
+                  )}
+                  {file.data?.sheets && file.data.sheets.length > 1 && (
+                    <div className="mt-2">
+                      <SheetPicker
+                        sheets={file.data.sheets}
+                        selected={file.selectedSheets || []}
+                        active={file.data.sheetName}
+                        ready={file.data.sheets
+                          .map(sheet => sheet.name)
+                          .filter(name => isReadyToImport(name === file.data?.sheetName ? file : file.sheetStates?.[name]))}
+                        onChange={(selected) => updateSelectedSheets(file.id, selected)}
+                        onActivate={(name) => activateSheet(file, name)}
+                      />
+                    </div>
+                  )}
+                  {file.data && file.mapping && file.validation && (
+                    <div className="mt-2 flex items-center gap-2">
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        disabled={
+                          file.importing
+                          || file.categoriesSuggesting
+                          || sheetsToImport(file).length === 0
+                          || !sheetsToImport(file).every(sheet => isReadyToImport(sheet.state))
+                        }
+                        onClick={() => importUploadedFile(file)}
+                        className="h-7 px-3 text-xs"
+                      >
+                        {file.importing
+                          ? 'Importing…'
+                          : sheetsToImport(file).length > 1
+                            ? `Import ${sheetsToImport(file).length} sheets into ${file.mapping.table}`
+                            : `Import into ${file.mapping.table}`}
+                      </Button>
+                      {file.validation.blocked ? (
+                        <span className="text-xs text-destructive">Resolve the blocking issues first</span>
+                      ) : categoriesToReview(file) > 0 ? (
+                        <span className="text-xs text-yellow-400">Approve the {categoriesToReview(file)} category values first</span>
+                      ) : sheetsToImport(file).length === 0 ? (
+                        <span className="text-xs text-muted-foreground">Choose the sheets to import</span>
+                      ) : sheetsNotReady(file).length > 0 && (
+                        <span className="text-xs text-yellow-400">Map and check {sheetsNotReady(file).join(', ')} first</span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+              {[...new Set(imageCatalog.map(image => image.archive))].map(archive => (
+                <div key={archive} className="px-3 py-2 bg-muted/30 rounded-lg border border-border/50">
+                  <div className="flex items-center gap-2">
+                    <ImageIcon className="w-4 h-4 text-muted-foreground" />
+                    <span className="text-sm">
+                      {imageCatalog.filter(image => image.archive === archive).length} images from {archive}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => removeArchiveImages(archive)}
+                      className="h-4 w-4 p-0 text-muted-foreground hover:text-foreground"
+                    >
+                      ×
+                    </Button>
+                  </div>
                 </div>
               ))}
             </div>
@@ -298,6 +1197,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onNewMessage }) => {
                   value={inputValue}
                   onChange={(e) => setInputValue(e.target.value)}
                   onKeyPress={handleKeyPress}
+                  onPaste={handlePaste}
                   placeholder="Ask me about your data or drop files here..."
                   className="min-h-[60px] max-h-[120px] resize-none border-none bg-transparent focus:ring-0 focus-visible:ring-0 focus:border-none text-sm placeholder:text-muted-foreground/60"
                   disabled={isLoading}
@@ -327,7 +1227,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onNewMessage }) => {
               ref={fileInputRef}
               type="file"
               multiple
-              accept=".xlsx,.xls,.csv,.txt"
+              accept={formatRegistry.accept()}
               onChange={handleFileUpload}
               className="hidden"
             />
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ArrowRight, GripVertical, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import {
+  ColumnMapping,
+  TargetColumn,
+  compatibilityWarnings,
+  isMappable,
+  isRequired,
+  needsReview,
+} from '@/services/columnMapping';
+import { columnReference, compileExpression, evaluateRows } from '@/services/expressions';
+import { TransformStep, runPipeline } from '@/services/transformPipeline';
+import { canonicalUnit } from '@/services/units';
+import { ColumnSchema, isBlank } from '@/services/typeInference';
+import ExpressionInput from './ExpressionInput';
+import TransformPipelineEditor from './TransformPipelineEditor';
+
+interface ColumnMappingEditorProps {
+  headers: string[];
+  /** Rows to take sample values from. */
+  rows: unknown[][];
+  /** Rows the transform steps are previewed on. */
+  previewRows: unknown[][];
+  schema?: ColumnSchema[];
+  targets: TargetColumn[];
+  mapping: ColumnMapping;
+  /** True while an AI suggestion is being worked out. */
+  suggesting?: boolean;
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+const UNMAPPED = 'none';
+const COMPUTED = 'expression';
+const DRAG_TYPE = 'application/x-source-column';
+const SAMPLE_VALUES = 3;
+
+const ColumnMappingEditor: React.FC<ColumnMappingEditorProps> = ({
+  headers,
+  rows,
+  previewRows,
+  schema,
+  targets,
+  mapping,
+  suggesting,
+  onChange
+}) => {
+  const [editing, setEditing] = useState<string>();
+  const mappedFor = (target: string) => mapping.columns.find(column => column.target === target);
+  const computedFor = (target: string) => mapping.computed?.find(column => column.target === target);
+  const reviewCount = mapping.columns.filter(needsReview).length;
+
+  // Choosing by hand replaces the suggestion, so it no longer needs review
+  const assign = (target: string, source: number | undefined) => {
+    // A source column fills one target at most
+    const columns = mapping.columns.filter(column => column.target !== target && column.source !== source);
+    onChange({
+      ...mapping,
+      columns: source === undefined ? columns : [...columns, { target, source }],
+      computed: mapping.computed?.filter(column => column.target !== target)
+    });
+  };
+
+  const setExpression = (target: string, expression: string) => {
+    onChange({
+      ...mapping,
+      columns: mapping.columns.filter(column => column.target !== target),
+      computed: [...(mapping.computed ?? []).filter(column => column.target !== target), { target, expression }]
+    });
+  };
+
+  const setSteps = (target: string, steps: TransformStep[]) => {
+    onChange({
+      ...mapping,
+      columns: mapping.columns.map(column => (column.target === target ? { ...column, steps } : column))
+    });
+  };
+
+  // Values as they will be inserted, after the column's steps
+  const separatorOf = (source: number) => schema?.find(column => column.index === source)?.decimalSeparator;
+  const valuesOf = (source: number, steps: TransformStep[] = []) =>
+    rows.map(row => (steps.length > 0 ? runPipeline(row[source], steps, row, separatorOf(source)) : row[source]));
+
+  // Computed values for the rows in memory, with the rows they fail on
+  const evaluateComputed = (expression: string) => {
+    const { expression: compiled, issues } = compileExpression(expression, headers, schema);
+    return compiled ? { ...evaluateRows(compiled, rows), issues } : { values: [], errors: [], issues };
+  };
+
+  return (
+    <div className="space-y-1 text-xs">
+      <p className="text-muted-foreground">
+        Map columns onto {mapping.table} • drag a column onto a field or pick it from the list
+        {suggesting && ' • asking AI for suggestions…'}
+        {!suggesting && reviewCount > 0 && (
+          <span className="text-yellow-400"> • {reviewCount} suggestions to review</span>
+        )}
+      </p>
+
+      <div className="flex flex-wrap gap-1">
+        {headers.map((header, index) => {
+          const mapped = mapping.columns.some(column => column.source === index);
+          return (
+            <span
+              key={index}
+              draggable
+              onDragStart={(event) => event.dataTransfer.setData(DRAG_TYPE, String(index))}
+              className={`inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded border border-border/50 cursor-grab ${
+                mapped ? 'opacity-50' : 'bg-background/60'
+              }`}
+            >
+              <GripVertical className="w-3 h-3 text-muted-foreground" />
+              {header || `#${index + 1}`}
+            </span>
+          );
+        })}
+      </div>
+
+      <ScrollArea className="max-h-64 rounded border border-border/50 bg-background/50">
+        <div className="divide-y divide-border/50">
+          {targets.filter(isMappable).map(target => {
+            const mapped = mappedFor(target.name);
+            const source = mapped?.source;
+            const computed = computedFor(target.name);
+            const result = computed && evaluateComputed(computed.expression);
+            const values = result ? result.values : source === undefined ? [] : valuesOf(source, mapped?.steps);
+            const warnings = result
+              ? compatibilityWarnings(target, undefined, result.values)
+              : source === undefined
+                ? isRequired(target) ? ['required column is not mapped'] : []
+                : compatibilityWarnings(target, schema?.find(column => column.index === source), values);
+
+            return (
+              <div
+                key={target.name}
+                onDragOver={(event) => event.preventDefault()}
+                onDrop={(event) => {
+                  event.preventDefault();
+                  event.stopPropagation();
+                  const dropped = event.dataTransfer.getData(DRAG_TYPE);
+                  if (dropped) assign(target.name, Number(dropped));
+                }}
+                className="px-2 py-1 space-y-1"
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select
+                    value={computed ? COMPUTED : source === undefined ? UNMAPPED : String(source)}
+                    onValueChange={(value) => {
+                      if (value === COMPUTED) {
+                        setExpression(target.name, source === undefined ? '' : columnReference(headers[source]));
+                      } else {
+                        assign(target.name, value === UNMAPPED ? undefined : Number(value));
+                      }
+                    }}
+                  >
+                    <SelectTrigger className="h-6 w-36 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED} className="text-xs">— not mapped —</SelectItem>
+                      <SelectItem value={COMPUTED} className="text-xs">= expression…</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)} className="text-xs">
+                          {header || `#${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                  <span className="w-32 truncate font-medium" title={target.name}>
+                    {target.name}
+                    {isRequired(target) && <span className="text-destructive">*</span>}
+                  </span>
+                  <span className="w-24 truncate text-muted-foreground">{target.type}</span>
+                  {mapped && (
+                    <Button
+                      size="sm"
+                      variant={editing === target.name ? 'secondary' : 'ghost'}
+                      onClick={() => setEditing(editing === target.name ? undefined : target.name)}
+                      className="h-6 px-1.5 text-xs"
+                    >
+                      <Wand2 className="w-3 h-3 mr-1" />
+                      {mapped.steps?.length ? `${mapped.steps.length} steps` : 'Transform'}
+                    </Button>
+                  )}
+                  {mapped?.confidence !== undefined && (
+                    <Badge
+                      variant={needsReview(mapped) ? 'outline' : 'secondary'}
+                      title={mapped.rationale}
+                      className={`text-[10px] px-1.5 py-0 ${needsReview(mapped) ? 'text-yellow-400 border-yellow-400/50' : ''}`}
+                    >
+                      {needsReview(mapped) ? 'review' : 'AI'} {Math.round(mapped.confidence * 100)}%
+                    </Badge>
+                  )}
+                  <span className="truncate font-mono text-muted-foreground max-w-[16rem]">
+                    {values.filter(value => !isBlank(value)).slice(0, SAMPLE_VALUES).map(value => String(value)).join(' | ')}
+                  </span>
+                  {warnings.length > 0 && (
+                    <span className="inline-flex items-center gap-1 text-yellow-400">
+                      <AlertTriangle className="w-3 h-3" />
+                      {warnings.join('; ')}
+                    </span>
+                  )}
+                </div>
+                {computed && result && (
+                  <div className="pl-4 space-y-0.5">
+                    <ExpressionInput
+                      value={computed.expression}
+                      headers={headers}
+                      onChange={(expression) => setExpression(target.name, expression)}
+                    />
+                    {result.issues.length > 0 ? (
+                      <p className="flex items-center gap-1 text-yellow-400">
+                        <AlertTriangle className="w-3 h-3" />
+                        {result.issues[0].message} (at character {result.issues[0].start + 1})
+                        {result.issues.length > 1 && ` • ${result.issues.length - 1} more`}
+                      </p>
+                    ) : result.errors.length > 0 && (
+                      <p className="text-destructive">
+                        Fails on {result.errors.length} of {rows.length} rows •{' '}
+                        {result.errors.slice(0, 3).map(error => `row ${error.row + 1}: ${error.message}`).join(' • ')}
+                      </p>
+                    )}
+                  </div>
+                )}
+                {mapped && editing === target.name && (
+                  <TransformPipelineEditor
+                    headers={headers}
+                    rows={previewRows}
+                    source={mapped.source}
+                    steps={mapped.steps ?? []}
+                    unit={canonicalUnit(target.name)}
+                    decimalSeparator={separatorOf(mapped.source)}
+                    onChange={(steps) => setSteps(target.name, steps)}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default ColumnMappingEditor;
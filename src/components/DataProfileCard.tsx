@@ -0,0 +1,111 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { DataProfile } from '@/services/dataProfiler';
+
+interface DataProfileCardProps {
+  profile: DataProfile;
+}
+
+const chartConfig = {
+  filled: {
+    label: 'Filled %',
+    color: 'hsl(var(--primary))',
+  },
+  distinct: {
+    label: 'Distinct %',
+    color: 'hsl(var(--muted-foreground))',
+  },
+} satisfies ChartConfig;
+
+const DataProfileCard: React.FC<DataProfileCardProps> = ({ profile }) => {
+  const chartData = profile.columns.map(column => ({
+    column: column.name || `#${column.index + 1}`,
+    filled: Math.round(100 - column.blankPercent),
+    distinct: profile.totalRows ? Math.round((column.distinctCount / profile.totalRows) * 100) : 0,
+  }));
+  const outlierColumns = profile.columns.filter(column => column.outlierCount > 0);
+
+  return (
+    <Card className="bg-background/50">
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-sm">
+          Profile of {profile.fileName}
+          {profile.sheetName && ` • ${profile.sheetName}`}
+        </CardTitle>
+        <CardDescription className="text-xs">
+          {profile.totalRows.toLocaleString()} rows • {profile.columns.length} columns
+          {outlierColumns.length > 0 && ` • suspected outliers in ${outlierColumns.map(c => c.name).join(', ')}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-4">
+        <ChartContainer config={chartConfig} className="h-48 w-full">
+          <BarChart data={chartData} margin={{ left: -20 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="column" tickLine={false} axisLine={false} fontSize={10} interval={0} />
+            <YAxis domain={[0, 100]} tickLine={false} axisLine={false} fontSize={10} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="filled" fill="var(--color-filled)" radius={2} />
+            <Bar dataKey="distinct" fill="var(--color-distinct)" radius={2} />
+          </BarChart>
+        </ChartContainer>
+
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-8">Column</TableHead>
+              <TableHead className="h-8">Type</TableHead>
+              <TableHead className="h-8 text-right">Blank</TableHead>
+              <TableHead className="h-8 text-right">Distinct</TableHead>
+              <TableHead className="h-8">Range</TableHead>
+              <TableHead className="h-8">Length</TableHead>
+              <TableHead className="h-8">Patterns</TableHead>
+              <TableHead className="h-8">Top values</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {profile.columns.map(column => (
+              <TableRow key={column.index}>
+                <TableCell className="py-1 font-medium">{column.name || `#${column.index + 1}`}</TableCell>
+                <TableCell className="py-1">{column.type}</TableCell>
+                <TableCell className="py-1 text-right">{column.blankPercent.toFixed(1)}%</TableCell>
+                <TableCell className="py-1 text-right">
+                  {column.distinctCount.toLocaleString()}{column.distinctCapped && '+'}
+                </TableCell>
+                <TableCell className="py-1 max-w-32 truncate">
+                  {column.min !== undefined ? `${column.min} – ${column.max}` : '—'}
+                  {column.outlierCount > 0 && (
+                    <span
+                      className="ml-1 text-destructive"
+                      title={column.outliers.map(o => `row ${o.row}: ${o.value}`).join('\n')}
+                    >
+                      ({column.outlierCount} outliers)
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell className="py-1">{column.minLength}–{column.maxLength}</TableCell>
+                <TableCell className="py-1 font-mono max-w-32 truncate">
+                  {column.patterns.map(p => p.value).join(' ')}
+                </TableCell>
+                <TableCell className="py-1 max-w-40 truncate">
+                  {column.topValues.map(v => `${v.value} (${v.count})`).join(', ')}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DataProfileCard;
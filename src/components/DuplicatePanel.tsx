@@ -0,0 +1,138 @@
+import React from 'react';
+import { Copy } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DuplicateDecision,
+  DuplicateMatch,
+  DuplicateReport,
+  defaultDecision,
+  mergeGroup,
+} from '@/services/duplicateDetection';
+
+interface DuplicatePanelProps {
+  headers: string[];
+  report: DuplicateReport;
+  decisions: Record<string, DuplicateDecision>;
+  onDecide: (groupId: string, decision: DuplicateDecision) => void;
+  onKeyColumnChange: (column: number) => void;
+}
+
+const matchLabels: Record<DuplicateMatch, string> = {
+  exact: 'same key',
+  normalized: 'similar key',
+  fuzzy: 'similar name'
+};
+
+const PREVIEW_CELLS = 6;
+
+const DuplicatePanel: React.FC<DuplicatePanelProps> = ({ headers, report, decisions, onDecide, onKeyColumnChange }) => {
+  const { groups } = report;
+  const merged = groups.filter(group => (decisions[group.id] ?? defaultDecision(group)) === 'merge');
+
+  return (
+    <div className="space-y-1 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <Copy className="w-3 h-3 text-muted-foreground" />
+        <span>
+          {groups.length === 0
+            ? 'No duplicates found'
+            : `${groups.length} duplicate groups, ${merged.length} to be merged`}
+        </span>
+        <span className="text-muted-foreground">by</span>
+        <Select value={String(report.keyColumn)} onValueChange={(value) => onKeyColumnChange(Number(value))}>
+          <SelectTrigger className="h-6 w-32 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {headers.map((header, index) => (
+              <SelectItem key={index} value={String(index)} className="text-xs">
+                {header || `#${index + 1}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {groups.length > 0 && (
+        <ScrollArea className="max-h-60 rounded border border-border/50 bg-background/50">
+          <div className="divide-y divide-border/50">
+            {groups.map(group => {
+              const decision = decisions[group.id] ?? defaultDecision(group);
+              const { row: mergedRow, conflicts } = mergeGroup(group);
+              const columns = [
+                ...new Set([report.keyColumn, ...(report.nameColumn !== undefined ? [report.nameColumn] : []), ...conflicts])
+              ].slice(0, PREVIEW_CELLS);
+
+              return (
+                <div key={group.id} className="px-2 py-1 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={group.match === 'fuzzy' ? 'outline' : 'secondary'} className="text-[10px] px-1.5 py-0">
+                      {matchLabels[group.match]}
+                      {group.similarity !== undefined && ` ${Math.round(group.similarity * 100)}%`}
+                    </Badge>
+                    <span className="text-muted-foreground">rows {group.rows.map(row => row + 1).join(', ')}</span>
+                    <div className="ml-auto flex gap-1">
+                      {(['merge', 'keep'] as DuplicateDecision[]).map(option => (
+                        <Button
+                          key={option}
+                          size="sm"
+                          variant={decision === option ? 'secondary' : 'ghost'}
+                          onClick={() => onDecide(group.id, option)}
+                          className="h-6 px-2 text-xs"
+                        >
+                          {option === 'merge' ? 'Merge' : 'Keep all'}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <table className="font-mono">
+                    <thead>
+                      <tr className="text-muted-foreground">
+                        {columns.map(column => (
+                          <th key={column} className="pr-3 text-left font-normal">{headers[column]}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {group.values.map((values, i) => (
+                        <tr key={group.rows[i]} className={decision === 'merge' ? 'opacity-60' : ''}>
+                          {columns.map(column => (
+                            <td
+                              key={column}
+                              className={`pr-3 ${conflicts.includes(column) ? 'text-yellow-400' : ''}`}
+                            >
+                              {String(values[column] ?? '')}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                      {decision === 'merge' && (
+                        <tr className="text-primary">
+                          {columns.map(column => (
+                            <td key={column} className="pr-3">{String(mergedRow[column] ?? '')}</td>
+                          ))}
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+};
+
+export default DuplicatePanel;
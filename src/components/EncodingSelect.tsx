@@ -0,0 +1,53 @@
+import React from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DetectedEncoding, SUPPORTED_ENCODINGS } from '@/services/encoding';
+
+interface EncodingSelectProps {
+  encoding: DetectedEncoding;
+  onChange: (encoding: string) => void;
+  disabled?: boolean;
+}
+
+const sourceLabels: Record<DetectedEncoding['source'], string> = {
+  bom: 'from byte order mark',
+  declaration: 'declared in file',
+  heuristic: 'detected',
+  user: 'chosen manually'
+};
+
+const EncodingSelect: React.FC<EncodingSelectProps> = ({ encoding, onChange, disabled }) => {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-muted-foreground">Encoding</span>
+      <Select value={encoding.name} onValueChange={onChange} disabled={disabled}>
+        <SelectTrigger className="h-7 w-48 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {!SUPPORTED_ENCODINGS.some(({ value }) => value === encoding.name) && (
+            <SelectItem value={encoding.name} className="text-xs">
+              {encoding.name}
+            </SelectItem>
+          )}
+          {SUPPORTED_ENCODINGS.map(({ value, label }) => (
+            <SelectItem key={value} value={value} className="text-xs">
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span className="text-xs text-muted-foreground">
+        {sourceLabels[encoding.source]}
+        {encoding.source === 'heuristic' && ` (${Math.round(encoding.confidence * 100)}%)`}
+      </span>
+    </div>
+  );
+};
+
+export default EncodingSelect;
@@ -0,0 +1,86 @@
+import React, { useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Completion, completeExpression } from '@/services/expressions';
+
+interface ExpressionInputProps {
+  value: string;
+  headers: string[];
+  onChange: (value: string) => void;
+}
+
+/** Single-line expression field suggesting columns and functions as you type. */
+const ExpressionInput: React.FC<ExpressionInputProps> = ({ value, headers, onChange }) => {
+  const input = useRef<HTMLInputElement>(null);
+  const [completion, setCompletion] = useState<{ from: number; to: number; items: Completion[] }>();
+  const [active, setActive] = useState(0);
+
+  const suggest = (text: string, cursor: number) => {
+    const { from, items } = completeExpression(text, cursor, headers);
+    setCompletion(items.length > 0 ? { from, to: cursor, items } : undefined);
+    setActive(0);
+  };
+
+  const accept = (item: Completion) => {
+    if (!completion) return;
+    const next = value.slice(0, completion.from) + item.insert + value.slice(completion.to);
+    const cursor = completion.from + item.insert.length;
+    onChange(next);
+    setCompletion(undefined);
+    requestAnimationFrame(() => {
+      input.current?.focus();
+      input.current?.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!completion) return;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActive((active + step + completion.items.length) % completion.items.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      accept(completion.items[active]);
+    } else if (event.key === 'Escape') {
+      setCompletion(undefined);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        ref={input}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          suggest(e.target.value, e.target.selectionStart ?? e.target.value.length);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setCompletion(undefined)}
+        placeholder="e.g. price * 1.15 if currency == 'USD' else price"
+        spellCheck={false}
+        className="h-6 w-80 text-xs font-mono"
+      />
+      {completion && (
+        <div className="absolute z-50 mt-1 w-80 rounded border border-border bg-popover shadow-md py-1">
+          {completion.items.map((item, index) => (
+            <div
+              key={`${item.kind}-${item.label}`}
+              // Keeps focus in the input so the blur doesn't close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(item);
+              }}
+              className={`px-2 py-0.5 cursor-pointer ${index === active ? 'bg-accent' : ''}`}
+            >
+              <span className="font-mono">{item.label}</span>
+              <span className="ml-2 text-muted-foreground truncate">{item.detail}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExpressionInput;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Save, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import {
+  FixedWidthColumn,
+  FixedWidthLayout,
+  columnsFromBoundaries,
+  suggestFixedWidthColumns
+} from '@/services/fixedWidth';
+import { suggestPattern } from '@/services/layoutStore';
+
+interface FixedWidthPanelProps {
+  fileName: string;
+  sampleLines: string[];
+  layout?: FixedWidthLayout;
+  onApply: (columns: FixedWidthColumn[] | false) => void;
+  onSave: (pattern: string, columns: FixedWidthColumn[]) => void;
+}
+
+const MAX_RULER_WIDTH = 300;
+
+const sourceLabels: Record<FixedWidthLayout['source'], string> = {
+  saved: 'saved layout',
+  suggested: 'suggested from alignment',
+  user: 'chosen manually'
+};
+
+const FixedWidthPanel: React.FC<FixedWidthPanelProps> = ({ fileName, sampleLines, layout, onApply, onSave }) => {
+  const lines = sampleLines.filter(line => line.trim());
+  const layoutEnd = Math.max(0, ...(layout?.columns || []).map(column => column.start + column.length));
+  const width = Math.min(MAX_RULER_WIDTH, Math.max(layoutEnd, ...lines.map(line => line.length)));
+
+  const [boundaries, setBoundaries] = useState<number[]>(
+    () => layout?.columns.map(column => column.start).filter(start => start > 0) || []
+  );
+  const [pattern, setPattern] = useState(layout?.pattern || suggestPattern(fileName));
+  const columns = columnsFromBoundaries(boundaries, width);
+
+  const toggleBoundary = (position: number) => {
+    if (position === 0) return;
+    setBoundaries(prev => (prev.includes(position) ? prev.filter(p => p !== position) : [...prev, position]));
+  };
+
+  const suggest = () => {
+    setBoundaries(suggestFixedWidthColumns(lines).map(column => column.start).filter(start => start > 0));
+  };
+
+  const toggleMode = (enabled: boolean) => {
+    onApply(enabled ? suggestFixedWidthColumns(lines) : false);
+  };
+
+  const columnAt = (position: number) => columns.findIndex(
+    column => position >= column.start && position < column.start + column.length
+  );
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <label className="flex items-center gap-1.5 text-xs cursor-pointer">
+          <Checkbox checked={!!layout} onCheckedChange={(checked) => toggleMode(checked === true)} />
+          Fixed-width columns
+        </label>
+        {layout && (
+          <span className="text-xs text-muted-foreground">
+            {layout.columns.length} columns, {sourceLabels[layout.source]}
+            {layout.pattern && ` (${layout.pattern})`} • click the ruler to add or remove a boundary
+          </span>
+        )}
+      </div>
+
+      {layout && (
+        <>
+          <ScrollArea className="max-w-xl rounded border border-border/50 bg-background/50">
+            <div className="text-xs font-mono whitespace-pre leading-5 p-1">
+              <div className="flex text-muted-foreground select-none">
+                {Array.from({ length: width }, (_, position) => (
+                  <span
+                    key={position}
+                    onClick={() => toggleBoundary(position)}
+                    className={`cursor-pointer hover:bg-primary/30 ${
+                      boundaries.includes(position) ? 'bg-primary text-primary-foreground' : ''
+                    }`}
+                  >
+                    {position % 10 === 0 ? String((position / 10) % 10) : position % 5 === 0 ? '+' : '·'}
+                  </span>
+                ))}
+              </div>
+              {lines.map((line, index) => (
+                <div key={index} className="flex">
+                  {Array.from({ length: width }, (_, position) => (
+                    <span key={position} className={columnAt(position) % 2 === 0 ? 'bg-primary/10' : ''}>
+                      {line[position] || ' '}
+                    </span>
+                  ))}
+                </div>
+              ))}
+            </div>
+            <ScrollBar orientation="horizontal" />
+          </ScrollArea>
+
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={suggest} className="h-7 text-xs">
+              <Wand2 className="w-3 h-3 mr-1" />
+              Suggest
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => onApply(columns)} className="h-7 text-xs">
+              Apply
+            </Button>
+            <Input
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder="File name pattern"
+              className="h-7 w-48 text-xs"
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onSave(pattern.trim(), columns)}
+              disabled={!pattern.trim()}
+              className="h-7 text-xs"
+            >
+              <Save className="w-3 h-3 mr-1" />
+              Save layout
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FixedWidthPanel;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { HeaderDetection } from '@/services/headerDetection';
+
+interface HeaderRowPickerProps {
+  header: HeaderDetection;
+  confirmed: boolean;
+  onOverride: (row: number, count: number) => void;
+  onConfirm: () => void;
+}
+
+const PREVIEW_CELLS = 6;
+
+const HeaderRowPicker: React.FC<HeaderRowPickerProps> = ({ header, confirmed, onOverride, onConfirm }) => {
+  const isHeaderRow = (index: number) =>
+    index >= header.rowIndex && index < header.rowIndex + header.rowCount;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <p className="text-xs text-muted-foreground">
+          Header row {header.rowIndex + 1}
+          {header.rowCount > 1 && `–${header.rowIndex + header.rowCount}`}
+          {header.source === 'detected'
+            ? ` detected (${Math.round(header.confidence * 100)}%)`
+            : ' chosen manually'}
+          {' '}• click a row to change it
+        </p>
+      </div>
+
+      <ScrollArea className="max-h-40 rounded border border-border/50 bg-background/50">
+        <div className="text-xs font-mono">
+          {header.leadingRows.map((row, index) => (
+            <div
+              key={index}
+              onClick={() => onOverride(index, header.rowCount)}
+              className={`flex gap-2 px-2 py-0.5 cursor-pointer hover:bg-muted/50 ${
+                isHeaderRow(index) ? 'bg-primary/20 font-semibold' : index < header.rowIndex ? 'opacity-50' : ''
+              }`}
+            >
+              <span className="w-6 shrink-0 text-right text-muted-foreground">{index + 1}</span>
+              <span className="truncate">
+                {row.slice(0, PREVIEW_CELLS).join(' | ') || '(blank)'}
+                {row.length > PREVIEW_CELLS && ' | …'}
+              </span>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-1.5 text-xs cursor-pointer">
+          <Checkbox
+            checked={header.rowCount > 1}
+            onCheckedChange={(checked) => onOverride(header.rowIndex, checked === true ? 2 : 1)}
+          />
+          Two-row header
+        </label>
+        <Button
+          size="sm"
+          variant={confirmed ? 'ghost' : 'outline'}
+          onClick={onConfirm}
+          disabled={confirmed}
+          className="h-7 text-xs"
+        >
+          {confirmed && <Check className="w-3 h-3 mr-1" />}
+          {confirmed ? 'Headers confirmed' : 'Confirm headers'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default HeaderRowPicker;
@@ -0,0 +1,133 @@
+import React from 'react';
+import { ArrowRight, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CURRENCY_CODES } from '@/services/currency';
+import { ColumnNormalization } from '@/services/normalization';
+import { ColumnLocaleOverride, DateFormat, FileLocale } from '@/services/typeInference';
+
+interface NormalizationPreviewProps {
+  locale: FileLocale;
+  columns: ColumnNormalization[];
+  onOverride: (index: number, override: ColumnLocaleOverride | undefined) => void;
+}
+
+const dateFormatLabels: Record<DateFormat, string> = {
+  dmy: 'Day first',
+  mdy: 'Month first',
+  ymd: 'Year first',
+  iso: 'ISO',
+  'excel-serial': 'Excel serial'
+};
+
+const NormalizationPreview: React.FC<NormalizationPreviewProps> = ({ locale, columns, onOverride }) => {
+  if (columns.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">
+        File locale: decimal {locale.decimalSeparator === ',' ? 'comma' : 'point'}
+        {' '}• {locale.dateOrder === 'dmy' ? 'day-first' : 'month-first'} dates
+        {locale.currency && ` • ${locale.currency}`}
+      </p>
+
+      <div className="space-y-1">
+        {columns.map(({ column, samples }) => {
+          const override = column.override || {};
+          const setOverride = (changes: ColumnLocaleOverride) => onOverride(column.index, { ...override, ...changes });
+          const numeric = ['integer', 'decimal', 'money'].includes(column.type) || !!override.decimalSeparator;
+
+          return (
+            <div key={column.index} className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="font-medium w-28 truncate" title={column.name}>
+                {column.name || `#${column.index + 1}`}
+              </span>
+              <span className="text-muted-foreground w-14">{column.type}</span>
+
+              {numeric && (
+                <Select
+                  value={override.decimalSeparator ?? column.decimalSeparator ?? locale.decimalSeparator}
+                  onValueChange={(value) => setOverride({ decimalSeparator: value as '.' | ',' })}
+                >
+                  <SelectTrigger className="h-6 w-20 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="." className="text-xs">1,234.5</SelectItem>
+                    <SelectItem value="," className="text-xs">1.234,5</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+
+              {(column.type === 'date' || override.dateFormat) && (
+                <Select
+                  value={override.dateFormat ?? column.dateFormat}
+                  onValueChange={(value) => setOverride({ dateFormat: value as DateFormat })}
+                >
+                  <SelectTrigger className="h-6 w-28 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(dateFormatLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value} className="text-xs">{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {(column.type === 'money' || override.currency) && (
+                <Select
+                  value={override.currency ?? column.currency}
+                  onValueChange={(currency) => setOverride({ currency })}
+                >
+                  <SelectTrigger className="h-6 w-20 text-xs">
+                    <SelectValue placeholder="Currency" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCY_CODES.map(code => (
+                      <SelectItem key={code} value={code} className="text-xs">{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {column.override && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onOverride(column.index, undefined)}
+                  className="h-6 w-6 p-0"
+                  title="Use detected locale"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                </Button>
+              )}
+
+              <span className="flex flex-wrap gap-x-3 font-mono">
+                {samples.map((sample, i) => (
+                  <span key={i} className="inline-flex items-center gap-1">
+                    <span className="text-muted-foreground">{sample.original}</span>
+                    {sample.changed && (
+                      <>
+                        <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                        <span className="text-primary">{sample.normalized}</span>
+                      </>
+                    )}
+                  </span>
+                ))}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default NormalizationPreview;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { EyeOff, FileSpreadsheet } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { SheetData } from '@/services/fileService';
+
+interface SheetPickerProps {
+  sheets: SheetData[];
+  selected: string[];
+  /** Sheet whose mapping and checks are shown. */
+  active?: string;
+  /** Sheets mapped and checked, ready to import. */
+  ready?: string[];
+  onChange: (selected: string[]) => void;
+  onActivate?: (name: string) => void;
+}
+
+const SheetPicker: React.FC<SheetPickerProps> = ({ sheets, selected, active, ready = [], onChange, onActivate }) => {
+  const toggleSheet = (name: string, checked: boolean) => {
+    // Keep workbook order regardless of click order
+    const next = sheets
+      .map(sheet => sheet.name)
+      .filter(sheetName => (sheetName === name ? checked : selected.includes(sheetName)));
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">Sheets to import</p>
+      {sheets.map((sheet) => (
+        <label
+          key={sheet.name}
+          className="flex items-center gap-2 px-2 py-1 rounded hover:bg-muted/50 cursor-pointer"
+        >
+          <Checkbox
+            checked={selected.includes(sheet.name)}
+            onCheckedChange={(checked) => toggleSheet(sheet.name, checked === true)}
+          />
+          <FileSpreadsheet className="w-3 h-3 text-muted-foreground" />
+          <span className="text-xs font-medium">{sheet.name}</span>
+          <span className="text-xs text-muted-foreground">
+            {sheet.totalRows} rows
+          </span>
+          {sheet.hidden && (
+            <Badge variant="secondary" className="text-[10px] px-1.5 py-0 gap-1">
+              <EyeOff className="w-3 h-3" />
+              hidden
+            </Badge>
+          )}
+          {sheet.empty && (
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+              empty
+            </Badge>
+          )}
+          {ready.includes(sheet.name) && (
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+              ready
+            </Badge>
+          )}
+          {sheet.name === active ? (
+            <span className="ml-auto text-xs text-muted-foreground">mapping shown</span>
+          ) : onActivate && !sheet.empty && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={(event) => {
+                event.preventDefault();
+                onActivate(sheet.name);
+              }}
+              className="ml-auto h-5 px-2 text-xs"
+            >
+              Map
+            </Button>
+          )}
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default SheetPicker;
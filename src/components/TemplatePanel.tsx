@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { AlertTriangle, LayoutTemplate, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { MappingTemplate, TemplateDrift, TemplateMatch } from '@/services/templateService';
+
+interface TemplatePanelProps {
+  fileName: string;
+  templates: MappingTemplate[];
+  /** Template applied to the file, if any. */
+  match?: Omit<TemplateMatch, 'template'> & { id: string; name: string };
+  drift?: TemplateDrift;
+  onApply: (template: MappingTemplate) => void;
+  onSave: (name: string) => void;
+}
+
+const TemplatePanel: React.FC<TemplatePanelProps> = ({ fileName, templates, match, drift, onApply, onSave }) => {
+  // Supplier files usually differ only by date or sequence number
+  const [name, setName] = useState(match?.name || fileName.replace(/\.[^.]+$/, '').replace(/[\d_-]+$/, ''));
+
+  const driftNotes = drift && [
+    drift.missing.length > 0 && `missing: ${drift.missing.join(', ')}`,
+    drift.added.length > 0 && `new: ${drift.added.join(', ')}`,
+    drift.moved.length > 0 && `moved: ${drift.moved.join(', ')}`
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-1 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <LayoutTemplate className="w-3 h-3 text-muted-foreground" />
+        {match ? (
+          <span>
+            Template <span className="font-medium">{match.name}</span> applied
+            <span className="text-muted-foreground">
+              {match.exact ? ' (same columns)' : ` (${Math.round(match.similarity * 100)}% of columns match)`}
+            </span>
+          </span>
+        ) : (
+          <span className="text-muted-foreground">No saved template matches these columns</span>
+        )}
+        {templates.length > 0 && (
+          <Select
+            value={match?.id ?? ''}
+            onValueChange={(id) => {
+              const template = templates.find(t => t.id === id);
+              if (template) onApply(template);
+            }}
+          >
+            <SelectTrigger className="h-6 w-40 text-xs">
+              <SelectValue placeholder="Apply template…" />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map(template => (
+                <SelectItem key={template.id} value={template.id} className="text-xs">{template.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {driftNotes && driftNotes.length > 0 && (
+        <p className="flex items-start gap-1 text-yellow-400">
+          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+          Columns changed since the template was saved • {driftNotes.join(' • ')}
+        </p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Supplier or template name"
+          className="h-7 w-48 text-xs"
+        />
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onSave(name.trim())}
+          disabled={!name.trim()}
+          className="h-7 text-xs"
+        >
+          <Save className="w-3 h-3 mr-1" />
+          Save as template
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TemplatePanel;
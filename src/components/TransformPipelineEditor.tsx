@@ -0,0 +1,395 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ArrowDown, ArrowUp, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  TRANSFORM_OPS,
+  TransformOp,
+  PipelineValue,
+  TransformStep,
+  createStep,
+  previewPipeline,
+  stepError,
+} from '@/services/transformPipeline';
+import { UNITS, convertQuantity, findUnit } from '@/services/units';
+
+interface TransformPipelineEditorProps {
+  headers: string[];
+  /** Rows the steps are previewed on. */
+  rows: unknown[][];
+  source: number;
+  steps: TransformStep[];
+  /** Unit the target column is stored in, for new unit steps. */
+  unit?: string;
+  /** Decimal separator of the source column, for reading quantities. */
+  decimalSeparator?: '.' | ',';
+  onChange: (steps: TransformStep[]) => void;
+}
+
+const PREVIEW_VALUES = 3;
+const NO_UNIT = 'none';
+
+const opLabels: Record<TransformOp, string> = {
+  trim: 'Trim spaces',
+  case: 'Change case',
+  replace: 'Replace (regex)',
+  split: 'Split / join',
+  pad: 'Pad',
+  default: 'Default if blank',
+  nullIf: 'Blank if equal to',
+  substring: 'Substring',
+  concat: 'Append columns',
+  lookup: 'Value map',
+  unit: 'Convert unit'
+};
+
+const TransformPipelineEditor: React.FC<TransformPipelineEditorProps> = ({
+  headers,
+  rows,
+  source,
+  steps,
+  unit,
+  decimalSeparator,
+  onChange
+}) => {
+  const stages = previewPipeline(rows.slice(0, PREVIEW_VALUES), source, steps, decimalSeparator);
+
+  const update = (index: number, step: TransformStep) => onChange(steps.map((s, i) => (i === index ? step : s)));
+  const remove = (index: number) => onChange(steps.filter((_, i) => i !== index));
+  const move = (index: number, by: number) => {
+    const next = [...steps];
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    onChange(next);
+  };
+
+  const values = (stage: PipelineValue[]) => stage
+    .map(value => (value === null ? '∅' : typeof value === 'number' ? String(value) : `"${value}"`))
+    .join(' | ');
+
+  const add = (op: TransformOp) => {
+    const step = createStep(op);
+    onChange([...steps, step.op === 'unit' && unit ? { ...step, to: unit } : step]);
+  };
+
+  // Values a unit step had to leave as they were, and why
+  const unitIssues = (step: TransformStep, stage: PipelineValue[]) => (step.op !== 'unit' ? [] : stage
+    .map(value => convertQuantity(value, step.to, { assume: step.assume, decimalSeparator })?.issue)
+    .filter((issue): issue is string => !!issue));
+
+  return (
+    <div className="space-y-1 pl-4 border-l border-border/50">
+      <p className="font-mono text-muted-foreground truncate">{values(stages[0])}</p>
+
+      {steps.map((step, index) => {
+        const error = stepError(step);
+        const ambiguous = error ? [] : unitIssues(step, stages[index]);
+        return (
+          <div key={index} className="space-y-0.5">
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="w-28 font-medium">{index + 1}. {opLabels[step.op]}</span>
+              <StepSettings step={step} headers={headers} source={source} onChange={(s) => update(index, s)} />
+              <Button size="icon" variant="ghost" className="h-6 w-6" disabled={index === 0} onClick={() => move(index, -1)}>
+                <ArrowUp className="w-3 h-3" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6"
+                disabled={index === steps.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ArrowDown className="w-3 h-3" />
+              </Button>
+              <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => remove(index)}>
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+            {error ? (
+              <p className="flex items-center gap-1 text-yellow-400">
+                <AlertTriangle className="w-3 h-3" />
+                {error} • step is skipped
+              </p>
+            ) : (
+              <p className="font-mono text-muted-foreground truncate">→ {values(stages[index + 1])}</p>
+            )}
+            {ambiguous.length > 0 && (
+              <p className="flex items-center gap-1 text-yellow-400">
+                <AlertTriangle className="w-3 h-3" />
+                Left unchanged: {ambiguous.join(' • ')}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      <Select value="" onValueChange={(op) => add(op as TransformOp)}>
+        <SelectTrigger className="h-6 w-36 text-xs">
+          <SelectValue placeholder="Add step…" />
+        </SelectTrigger>
+        <SelectContent>
+          {TRANSFORM_OPS.map(op => (
+            <SelectItem key={op} value={op} className="text-xs">{opLabels[op]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+interface StepSettingsProps {
+  step: TransformStep;
+  headers: string[];
+  source: number;
+  onChange: (step: TransformStep) => void;
+}
+
+const inputClass = 'h-6 text-xs';
+
+const StepSettings: React.FC<StepSettingsProps> = ({ step, headers, source, onChange }) => {
+  // Blank means "not set" for optional numbers
+  const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+  switch (step.op) {
+    case 'case':
+      return (
+        <Select value={step.to} onValueChange={(to) => onChange({ ...step, to: to as typeof step.to })}>
+          <SelectTrigger className="h-6 w-28 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="upper" className="text-xs">UPPER</SelectItem>
+            <SelectItem value="lower" className="text-xs">lower</SelectItem>
+            <SelectItem value="title" className="text-xs">Title Case</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    case 'replace':
+      return (
+        <>
+          <Input
+            value={step.pattern}
+            onChange={(e) => onChange({ ...step, pattern: e.target.value })}
+            placeholder="pattern"
+            className={`${inputClass} w-32 font-mono`}
+          />
+          <Input
+            value={step.replacement}
+            onChange={(e) => onChange({ ...step, replacement: e.target.value })}
+            placeholder="replace with ($1 …)"
+            className={`${inputClass} w-32 font-mono`}
+          />
+          <label className="flex items-center gap-1 cursor-pointer">
+            <Checkbox
+              checked={!!step.ignoreCase}
+              onCheckedChange={(checked) => onChange({ ...step, ignoreCase: checked === true })}
+            />
+            ignore case
+          </label>
+        </>
+      );
+    case 'split':
+      return (
+        <>
+          <Input
+            value={step.separator}
+            onChange={(e) => onChange({ ...step, separator: e.target.value })}
+            placeholder="split on"
+            className={`${inputClass} w-16 font-mono`}
+          />
+          <Input
+            type="number"
+            value={step.part === undefined ? '' : step.part < 0 ? step.part : step.part + 1}
+            onChange={(e) => {
+              const part = optionalNumber(e.target.value);
+              onChange({ ...step, part: part === undefined || part < 0 ? part : Math.max(0, part - 1) });
+            }}
+            placeholder="part (-1 last)"
+            title="Which part to keep; leave blank to join all parts"
+            className={`${inputClass} w-24`}
+          />
+          {step.part === undefined && (
+            <Input
+              value={step.join ?? ' '}
+              onChange={(e) => onChange({ ...step, join: e.target.value })}
+              placeholder="join with"
+              className={`${inputClass} w-16 font-mono`}
+            />
+          )}
+        </>
+      );
+    case 'pad':
+      return (
+        <>
+          <Select value={step.side} onValueChange={(side) => onChange({ ...step, side: side as typeof step.side })}>
+            <SelectTrigger className="h-6 w-20 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="start" className="text-xs">left</SelectItem>
+              <SelectItem value="end" className="text-xs">right</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            value={step.length}
+            onChange={(e) => onChange({ ...step, length: Number(e.target.value) })}
+            title="Length"
+            className={`${inputClass} w-16`}
+          />
+          <Input
+            value={step.fill}
+            onChange={(e) => onChange({ ...step, fill: e.target.value })}
+            title="Fill character"
+            className={`${inputClass} w-10 font-mono`}
+          />
+        </>
+      );
+    case 'default':
+    case 'nullIf':
+      return (
+        <Input
+          value={step.value}
+          onChange={(e) => onChange({ ...step, value: e.target.value })}
+          placeholder="value"
+          className={`${inputClass} w-32`}
+        />
+      );
+    case 'substring':
+      return (
+        <>
+          <Input
+            type="number"
+            value={step.start}
+            onChange={(e) => onChange({ ...step, start: Number(e.target.value) })}
+            title="Start (negative counts from the end)"
+            className={`${inputClass} w-16`}
+          />
+          <Input
+            type="number"
+            value={step.length ?? ''}
+            onChange={(e) => onChange({ ...step, length: optionalNumber(e.target.value) })}
+            placeholder="length"
+            className={`${inputClass} w-20`}
+          />
+        </>
+      );
+    case 'concat':
+      return (
+        <>
+          <Input
+            value={step.separator}
+            onChange={(e) => onChange({ ...step, separator: e.target.value })}
+            title="Separator"
+            className={`${inputClass} w-12 font-mono`}
+          />
+          {step.sources.map(index => (
+            <Button
+              key={index}
+              size="sm"
+              variant="secondary"
+              className="h-6 px-1.5 text-xs"
+              onClick={() => onChange({ ...step, sources: step.sources.filter(s => s !== index) })}
+            >
+              {headers[index] || `#${index + 1}`}
+              <X className="w-3 h-3 ml-1" />
+            </Button>
+          ))}
+          <Select value="" onValueChange={(value) => onChange({ ...step, sources: [...step.sources, Number(value)] })}>
+            <SelectTrigger className="h-6 w-32 text-xs">
+              <SelectValue placeholder="Add column…" />
+            </SelectTrigger>
+            <SelectContent>
+              {headers.map((header, index) => (index === source || step.sources.includes(index) ? null : (
+                <SelectItem key={index} value={String(index)} className="text-xs">{header || `#${index + 1}`}</SelectItem>
+              )))}
+            </SelectContent>
+          </Select>
+        </>
+      );
+    case 'lookup':
+      return <LookupSettings step={step} onChange={onChange} />;
+    case 'unit': {
+      const dimension = findUnit(step.to)?.dimension;
+      return (
+        <>
+          <span className="text-muted-foreground">to</span>
+          <Select value={step.to} onValueChange={(to) => onChange({ ...step, to, assume: undefined })}>
+            <SelectTrigger className="h-6 w-20 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {UNITS.map(unit => (
+                <SelectItem key={unit.symbol} value={unit.symbol} className="text-xs">{unit.symbol}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-muted-foreground">numbers without unit</span>
+          <Select
+            value={step.assume ?? NO_UNIT}
+            onValueChange={(assume) => onChange({ ...step, assume: assume === NO_UNIT ? undefined : assume })}
+          >
+            <SelectTrigger className="h-6 w-28 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_UNIT} className="text-xs">are flagged</SelectItem>
+              {UNITS.filter(unit => unit.dimension === dimension).map(unit => (
+                <SelectItem key={unit.symbol} value={unit.symbol} className="text-xs">are {unit.symbol}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </>
+      );
+    }
+    default:
+      return null;
+  }
+};
+
+type LookupStep = Extract<TransformStep, { op: 'lookup' }>;
+
+const LookupSettings: React.FC<{ step: LookupStep; onChange: (step: LookupStep) => void }> = ({ step, onChange }) => {
+  // Kept as typed so half-written lines aren't lost while editing
+  const [text, setText] = useState(() => Object.entries(step.values).map(([from, to]) => `${from} = ${to}`).join('\n'));
+
+  const edit = (value: string) => {
+    setText(value);
+    const values: Record<string, string> = {};
+    for (const line of value.split('\n')) {
+      const separator = line.indexOf('=');
+      if (separator > 0) values[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+    onChange({ ...step, values });
+  };
+
+  return (
+    <>
+      <Textarea
+        value={text}
+        onChange={(e) => edit(e.target.value)}
+        placeholder={'one per line:\nStk = piece\nKarton = box'}
+        className="min-h-[3rem] w-48 text-xs font-mono py-1"
+      />
+      <Select value={step.otherwise} onValueChange={(otherwise) => onChange({ ...step, otherwise: otherwise as LookupStep['otherwise'] })}>
+        <SelectTrigger className="h-6 w-32 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="keep" className="text-xs">others unchanged</SelectItem>
+          <SelectItem value="null" className="text-xs">others blank</SelectItem>
+        </SelectContent>
+      </Select>
+    </>
+  );
+};
+
+export default TransformPipelineEditor;
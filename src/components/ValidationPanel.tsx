@@ -0,0 +1,82 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, Info } from 'lucide-react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Severity, ValidationReport } from '@/services/validation';
+
+interface ValidationPanelProps {
+  report: ValidationReport;
+}
+
+const severityStyles: Record<Severity, { icon: React.ElementType; className: string }> = {
+  error: { icon: AlertCircle, className: 'text-destructive' },
+  warning: { icon: AlertTriangle, className: 'text-yellow-400' },
+  info: { icon: Info, className: 'text-muted-foreground' }
+};
+
+const actionLabels = { block: 'blocks import', skip: 'row skipped', fix: 'fixed' };
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ report }) => {
+  const { counts, issues } = report;
+  if (issues.length === 0) {
+    return <span className="text-xs text-green-400">No problems found</span>;
+  }
+
+  const fixCount = [...report.fixes.values()].reduce((total, fixes) => total + fixes.size, 0);
+
+  return (
+    <div className="space-y-1 text-xs">
+      <div className="flex flex-wrap items-center gap-3">
+        {(Object.keys(severityStyles) as Severity[]).filter(severity => counts[severity] > 0).map(severity => {
+          const { icon: Icon, className } = severityStyles[severity];
+          return (
+            <span key={severity} className={`inline-flex items-center gap-1 ${className}`}>
+              <Icon className="w-3 h-3" />
+              {counts[severity]} {severity}{counts[severity] === 1 ? '' : 's'}
+            </span>
+          );
+        })}
+        <span className="text-muted-foreground">
+          {report.blocked
+            ? 'Import blocked'
+            : [
+                report.skipRows.size > 0 && `${report.skipRows.size} rows will be skipped`,
+                fixCount > 0 && `${fixCount} values will be fixed`
+              ].filter(Boolean).join(', ')}
+        </span>
+      </div>
+
+      <ScrollArea className="max-h-40 rounded border border-border/50 bg-background/50">
+        <ul className="py-1">
+          {issues.map((issue, i) => {
+            const { icon: Icon, className } = severityStyles[issue.severity];
+            return (
+              <li key={i} className="flex items-start gap-1.5 px-2 py-0.5">
+                <Icon className={`w-3 h-3 mt-0.5 shrink-0 ${className}`} />
+                <span>
+                  {issue.row !== null && <span className="text-muted-foreground">Row {issue.row + 1} </span>}
+                  {issue.columnName && <span className="font-medium">{issue.columnName}: </span>}
+                  {issue.value !== undefined && issue.value !== '' && (
+                    <span className={`font-mono px-1 rounded bg-muted/50 ${className}`}>{String(issue.value)}</span>
+                  )}{' '}
+                  {issue.message}
+                  {issue.action && (
+                    <span className="text-muted-foreground">
+                      {' '}({actionLabels[issue.action]}{issue.action === 'fix' && ` → ${String(issue.fix)}`})
+                    </span>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </ScrollArea>
+      {issues.length < counts.error + counts.warning + counts.info && (
+        <p className="text-muted-foreground">
+          Showing {issues.length} of {counts.error + counts.warning + counts.info} issues
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ValidationPanel;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ProcessedData } from '@/services/fileService';
+import { XmlFieldSelector, XmlMappingOptions, XmlMode } from '@/services/xmlCatalog';
+
+interface XmlMappingPanelProps {
+  xml: NonNullable<ProcessedData['xml']>;
+  onApply: (options: XmlMappingOptions) => void;
+  disabled?: boolean;
+}
+
+const XmlMappingPanel: React.FC<XmlMappingPanelProps> = ({ xml, onApply, disabled }) => {
+  const [mode, setMode] = useState<XmlMode>(xml.mode);
+  const [recordPath, setRecordPath] = useState(xml.recordPath);
+  const [fields, setFields] = useState<XmlFieldSelector[]>(xml.fields);
+
+  const updateField = (index: number, changes: Partial<XmlFieldSelector>) => {
+    setFields(prev => prev.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const changeMode = (value: XmlMode) => {
+    // Switching modes starts over with that mode's own defaults
+    setMode(value);
+    onApply({ mode: value });
+  };
+
+  const apply = () => {
+    onApply({
+      mode,
+      recordPath,
+      fields: fields.filter(field => field.name.trim() && field.path.trim())
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground">XML mode</span>
+        <Select value={mode} onValueChange={(value) => changeMode(value as XmlMode)} disabled={disabled}>
+          <SelectTrigger className="h-7 w-32 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="bmecat" className="text-xs">BMEcat</SelectItem>
+            <SelectItem value="generic" className="text-xs">Generic</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {mode === 'generic' && (
+        <>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">Record element</span>
+            <Select
+              value={recordPath}
+              onValueChange={(value) => {
+                // Fields of another element won't fit, let them be suggested again
+                setRecordPath(value);
+                setFields([]);
+              }}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-7 w-64 text-xs">
+                <SelectValue placeholder="Choose repeating element" />
+              </SelectTrigger>
+              <SelectContent>
+                {!xml.candidates.some(candidate => candidate.path === recordPath) && (
+                  <SelectItem value={recordPath} className="text-xs">{recordPath}</SelectItem>
+                )}
+                {xml.candidates.map(candidate => (
+                  <SelectItem key={candidate.path} value={candidate.path} className="text-xs">
+                    {candidate.path} ({candidate.count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Fields (column name → selector)</p>
+            {fields.map((field, index) => (
+              <div key={index} className="flex items-center gap-1">
+                <Input
+                  value={field.name}
+                  onChange={(e) => updateField(index, { name: e.target.value })}
+                  className="h-7 w-32 text-xs"
+                  disabled={disabled}
+                />
+                <Input
+                  value={field.path}
+                  onChange={(e) => updateField(index, { path: e.target.value })}
+                  className="h-7 w-64 text-xs font-mono"
+                  disabled={disabled}
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setFields(prev => prev.filter((_, i) => i !== index))}
+                  className="h-6 w-6 p-0 text-muted-foreground hover:text-foreground"
+                  disabled={disabled}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setFields(prev => [...prev, { name: '', path: '' }])}
+              className="h-6 text-xs"
+              disabled={disabled}
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add field
+            </Button>
+          </div>
+
+          <Button size="sm" variant="outline" onClick={apply} className="h-7 text-xs" disabled={disabled}>
+            Apply mapping
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default XmlMappingPanel;
@@ -1,3 +1,12 @@
+import { DataProfile, describeProfile } from './dataProfiler';
+import { Category, categoryLabel, parseCategorySuggestion } from './categoryResolution';
+import {
+  ColumnMapping,
+  MAPPING_TRANSFORMS,
+  TargetColumn,
+  isMappable,
+  parseMappingSuggestion,
+} from './columnMapping';
 
 interface OllamaConfig {
   host: string;
@@ -10,6 +19,14 @@ interface ChatMessage {
   content: string;
 }
 
+interface GenerateOptions {
+  /** Constrains the reply to valid JSON. */
+  format?: 'json';
+  temperature?: number;
+}
+
+const JSON_ATTEMPTS = 3;
+
 interface OllamaResponse {
   message: {
     role: string;
@@ -30,7 +47,7 @@ export class AIService {
     };
   }
 
-  async generateResponse(messages: ChatMessage[]): Promise<string> {
+  async generateResponse(messages: ChatMessage[], options: GenerateOptions = {}): Promise<string> {
     try {
       const response = await fetch(`http://${this.config.host}:${this.config.port}/api/chat`, {
         method: 'POST',
@@ -41,8 +58,9 @@ export class AIService {
           model: this.config.model,
           messages: messages,
           stream: false,
+          format: options.format,
           options: {
-            temperature: 0.7,
+            temperature: options.temperature ?? 0.7,
             top_p: 0.9,
             max_tokens: 2000
           }
@@ -61,10 +79,10 @@ export class AIService {
     }
   }
 
-  async analyzeFileForDatabase(fileContent: string, fileName: string): Promise<string> {
+  async analyzeFileForDatabase(profile: DataProfile): Promise<string> {
     const systemMessage: ChatMessage = {
       role: 'system',
-      content: `You are a database expert assistant. Analyze the provided file content and suggest how to map it to a MySQL pim_product table. 
+      content: `You are a database expert assistant. Analyze the provided column profile of a file and suggest how to map it to a MySQL pim_product table. 
       
       Consider these aspects:
       1. Data structure and column mapping
@@ -78,12 +96,110 @@ export class AIService {
 
     const userMessage: ChatMessage = {
       role: 'user',
-      content: `Please analyze this ${fileName} file content and suggest database mapping:\n\n${fileContent.substring(0, 2000)}${fileContent.length > 2000 ? '...' : ''}`
+      content: `Please analyze this profile of ${profile.fileName} and suggest database mapping:\n\n${describeProfile(profile)}`
     };
 
     return this.generateResponse([systemMessage, userMessage]);
   }
 
+  /**
+   * Asks for a column mapping as JSON and checks it against the file and
+   * the table, sending invalid answers back for correction.
+   */
+  async suggestColumnMapping(profile: DataProfile, table: string, targets: TargetColumn[]): Promise<ColumnMapping> {
+    const headers = profile.columns.map(column => column.name);
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `You map columns of supplier files onto the MySQL table ${table}. Reply with JSON only, in this shape:
+{"mappings": [{"source": string, "target": string, "transform": string, "confidence": number, "rationale": string}]}
+
+- "source" is a file column name, copied exactly.
+- "target" is one of: ${targets.filter(isMappable).map(target => `${target.name} (${target.type})`).join(', ')}.
+- "transform" is one of: ${MAPPING_TRANSFORMS.join(', ')}.
+- "confidence" is from 0 to 1; use less than 0.7 when the match is a guess.
+- "rationale" is one short sentence.
+Map each source and each target at most once, and leave out columns that have no good match.`
+      },
+      {
+        role: 'user',
+        content: `Column profile of ${profile.fileName}:\n\n${describeProfile(profile)}`
+      }
+    ];
+
+    return this.generateValidatedJson(messages, reply => {
+      const { mapping, errors } = parseMappingSuggestion(reply, table, headers, targets);
+      return { value: mapping, errors };
+    }, 'mapping');
+  }
+
+  /**
+   * Asks which of `categories` each supplier category value belongs to.
+   * Values the AI can't place are left out of the result; answers are
+   * checked and sent back for correction like column mappings.
+   */
+  async suggestCategories(
+    values: string[],
+    categories: Category[]
+  ): Promise<{ value: string; category: Category; confidence: number }[]> {
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `You match product category names from supplier files to the categories of our catalog. Reply with JSON only, in this shape:
+{"matches": [{"value": string, "categoryId": number | string | null, "confidence": number}]}
+
+- "value" is one of the supplier values, copied exactly.
+- "categoryId" is the id of the best matching category below, or null if none fits.
+- "confidence" is from 0 to 1.
+
+Categories (id: path):
+${categories.map(category => `${category.id}: ${categoryLabel(category)}`).join('\n')}`
+      },
+      {
+        role: 'user',
+        content: `Supplier values:\n${values.map(value => `- ${value}`).join('\n')}`
+      }
+    ];
+
+    return this.generateValidatedJson(messages, reply => {
+      const { suggestions, errors } = parseCategorySuggestion(reply, values, categories);
+      return { value: errors.length === 0 ? suggestions : undefined, errors };
+    }, 'category matches');
+  }
+
+  /**
+   * Asks for JSON and checks the reply with `validate`. Invalid answers are
+   * sent back with the problems found, up to three attempts in all; the
+   * exchange is added to `messages`. `what` names the answer in the error.
+   */
+  private async generateValidatedJson<T>(
+    messages: ChatMessage[],
+    validate: (reply: unknown) => { value?: T; errors: string[] },
+    what: string
+  ): Promise<T> {
+    let errors: string[] = [];
+    for (let attempt = 1; attempt <= JSON_ATTEMPTS; attempt++) {
+      const reply = await this.generateResponse(messages, { format: 'json', temperature: 0 });
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(reply);
+      } catch {
+        parsed = undefined;
+      }
+
+      const result = parsed === undefined ? { errors: ['The reply was not valid JSON'] } : validate(parsed);
+      if (result.value !== undefined) return result.value;
+
+      errors = result.errors;
+      messages.push(
+        { role: 'assistant', content: reply },
+        { role: 'user', content: `That reply is invalid:\n${errors.join('\n')}\nReply with the corrected JSON only.` }
+      );
+    }
+
+    throw new Error(`No valid ${what} after ${JSON_ATTEMPTS} attempts: ${errors.join('; ')}`);
+  }
+
   async generateSQLQueries(dataDescription: string, tableName: string = 'pim_product'): Promise<string> {
     const systemMessage: ChatMessage = {
       role: 'system',
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { Category, resolveCategories } from './categoryResolution';
+
+const categories: Category[] = [
+  { id: 1, name: 'Phones', parentId: null, path: ['Phones'] },
+  { id: 2, name: 'Accessories', parentId: 1, path: ['Phones', 'Accessories'] },
+  { id: 3, name: 'Cameras', parentId: null, path: ['Cameras'] },
+  { id: 4, name: 'Accessories', parentId: 3, path: ['Cameras', 'Accessories'] }
+];
+
+function resolve(value: string, synonyms = [] as { value: string; categoryId: Category['id'] }[]) {
+  const [{ category, method, review }] = resolveCategories([{ value, count: 1 }], categories, synonyms);
+  return { id: category?.id, method, review };
+}
+
+describe('resolveCategories', () => {
+  it('matches names and full paths', () => {
+    expect(resolve('phones')).toEqual({ id: 1, method: 'exact', review: false });
+    expect(resolve('Cameras / Accessories')).toEqual({ id: 4, method: 'exact', review: false });
+  });
+
+  it('leaves names found at several places for review', () => {
+    expect(resolve('Accessories')).toEqual({ id: 2, method: 'exact', review: true });
+  });
+
+  it('prefers an approved synonym over a name match', () => {
+    expect(resolve('accessories', [{ value: 'Accessories', categoryId: 4 }])).toEqual({ id: 4, method: 'synonym', review: false });
+  });
+
+  it('takes close names and leaves the rest unresolved', () => {
+    expect(resolve('Camera')).toEqual({ id: 3, method: 'fuzzy', review: false });
+    expect(resolve('Garden furniture')).toEqual({ id: undefined, method: undefined, review: true });
+  });
+});
@@ -0,0 +1,228 @@
+import type { ColumnMapping, MappedColumn } from './columnMapping';
+import { nameSimilarity } from './duplicateDetection';
+import type { ProcessedData } from './fileService';
+import { TransformStep, runPipeline } from './transformPipeline';
+import { isBlank } from './typeInference';
+
+/** A record of our category tree. */
+export interface Category {
+  id: number | string;
+  name: string;
+  parentId: number | string | null;
+  /** Names from the root down to this category. */
+  path: string[];
+}
+
+/** A supplier spelling approved for one of our categories. */
+export interface CategorySynonym {
+  value: string;
+  categoryId: Category['id'];
+}
+
+export type CategoryMatchMethod = 'exact' | 'synonym' | 'fuzzy' | 'ai';
+
+export interface CategoryMatch {
+  /** The value as first seen in the file. */
+  value: string;
+  /** Rows with this value. */
+  count: number;
+  category?: Category;
+  method?: CategoryMatchMethod;
+  /** How sure the match is (0–1). */
+  confidence?: number;
+  /** True until the match is approved; unresolved values always need review. */
+  review: boolean;
+}
+
+export interface CategoryReport {
+  /** Source column the values come from. */
+  column: number;
+  matches: CategoryMatch[];
+}
+
+/** Target column holding the category. */
+export const CATEGORY_TARGET = 'category';
+
+// Fuzzy matches this close are taken as they are; weaker ones are offered for review
+const AUTO_MATCH = 0.9;
+const SUGGEST_MATCH = 0.6;
+
+/** The mapped column feeding the category, if any. */
+export function categoryColumn(mapping?: ColumnMapping): MappedColumn | undefined {
+  return mapping?.columns.find(column => column.target === CATEGORY_TARGET);
+}
+
+/** Lower case, single spaces, and ` > ` between path levels whichever separator was used. */
+export function normalizeCategory(value: string): string {
+  return value.toLowerCase().replace(/\s*[>/|›»]\s*/g, ' > ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The distinct values of a column, after its transform steps, with how
+ * many rows have each. Values differing only in case or spacing count as one.
+ */
+export async function collectCategoryValues(
+  data: ProcessedData,
+  column: number,
+  steps?: TransformStep[]
+): Promise<{ value: string; count: number }[]> {
+  const values = new Map<string, { value: string; count: number }>();
+  const separator = data.schema?.find(c => c.index === column)?.decimalSeparator;
+  for await (const page of data.rowSource.pages()) {
+    for (const row of page) {
+      const value = steps?.length ? runPipeline(row[column], steps, row, separator) : row[column];
+      if (isBlank(value)) continue;
+      const text = String(value).trim();
+      const key = normalizeCategory(text);
+      const entry = values.get(key);
+      if (entry) entry.count++;
+      else values.set(key, { value: text, count: 1 });
+    }
+  }
+  return [...values.values()];
+}
+
+/**
+ * Matches each value to a category: by an approved synonym, then by name
+ * or full path, then by similarity of names. Values with no close
+ * enough match, or with several equally good ones, are left for review.
+ */
+export function resolveCategories(
+  values: { value: string; count: number }[],
+  categories: Category[],
+  synonyms: CategorySynonym[]
+): CategoryMatch[] {
+  const byName = new Map<string, Category[]>();
+  for (const category of categories) {
+    for (const key of [normalizeCategory(category.name), normalizeCategory(category.path.join(' > '))]) {
+      const list = byName.get(key) ?? [];
+      if (!list.includes(category)) byName.set(key, [...list, category]);
+    }
+  }
+  const names = categories.map(category => ({
+    category,
+    name: normalizeCategory(category.name),
+    path: normalizeCategory(category.path.join(' > '))
+  }));
+  const bySynonym = new Map(synonyms.map(synonym => [
+    normalizeCategory(synonym.value),
+    categories.find(category => String(category.id) === String(synonym.categoryId))
+  ]));
+
+  return values.map(({ value, count }) => {
+    const key = normalizeCategory(value);
+    // First, so an approved choice sticks for names found at several places in the tree
+    const synonym = bySynonym.get(key);
+    if (synonym) return { value, count, category: synonym, method: 'synonym', confidence: 1, review: false };
+
+    const exact = byName.get(key) ?? byName.get(key.split(' > ').pop()!) ?? [];
+    // A name used at several places in the tree, like "Accessories", can't be decided here
+    if (exact.length > 0) {
+      return { value, count, category: exact[0], method: 'exact', confidence: 1 / exact.length, review: exact.length > 1 };
+    }
+
+    const fuzzy = rankCategories(key, names)[0];
+    if (fuzzy && fuzzy.similarity >= SUGGEST_MATCH) {
+      return { value, count, category: fuzzy.category, method: 'fuzzy', confidence: fuzzy.similarity, review: fuzzy.similarity < AUTO_MATCH };
+    }
+    return { value, count, review: true };
+  });
+}
+
+/**
+ * Checks category suggestions from the AI: each must name one of the
+ * values and one of the categories by id. Returns the valid ones, with
+ * the problems found in the rest.
+ */
+export function parseCategorySuggestion(
+  value: unknown,
+  values: string[],
+  categories: Category[]
+): { suggestions: { value: string; category: Category; confidence: number }[]; errors: string[] } {
+  const entries = (value as { matches?: unknown })?.matches;
+  if (!Array.isArray(entries)) return { suggestions: [], errors: ['Expected an object with a "matches" array'] };
+
+  const errors: string[] = [];
+  const suggestions: { value: string; category: Category; confidence: number }[] = [];
+  entries.forEach((entry, i) => {
+    const { value: text, categoryId, confidence } = entry ?? {};
+    const category = categories.find(c => String(c.id) === String(categoryId));
+    const problems = [
+      !values.includes(text) && `value "${text}" is not one of the values given`,
+      // The AI may decline a value by leaving its category out
+      categoryId !== null && categoryId !== undefined && !category && `categoryId ${categoryId} is not a category id`,
+      (typeof confidence !== 'number' || confidence < 0 || confidence > 1) && 'confidence must be a number from 0 to 1'
+    ].filter((problem): problem is string => typeof problem === 'string');
+
+    if (problems.length > 0) errors.push(`matches[${i}]: ${problems.join('; ')}`);
+    else if (category) suggestions.push({ value: text, category, confidence });
+  });
+  return { suggestions, errors };
+}
+
+/** The category for each value, by normalized value; only approved matches are included. */
+export function categoryLookup(report: CategoryReport): Map<string, Category> {
+  return new Map(report.matches
+    .filter(match => match.category && !match.review)
+    .map(match => [normalizeCategory(match.value), match.category!]));
+}
+
+/** How a category is shown: its full path. */
+export function categoryLabel(category: Category): string {
+  return category.path.join(' › ');
+}
+
+/**
+ * The categories most like each value, for the AI to choose from; sending
+ * the whole tree would not fit its context.
+ */
+export function categoryCandidates(values: string[], categories: Category[], perValue = 10): Category[] {
+  const names = categories.map(category => ({
+    category,
+    name: normalizeCategory(category.name),
+    path: normalizeCategory(category.path.join(' > '))
+  }));
+  const candidates = new Set<Category>();
+  for (const value of values) {
+    rankCategories(normalizeCategory(value), names).slice(0, perValue).forEach(({ category }) => candidates.add(category));
+  }
+  return [...candidates];
+}
+
+// Best first, comparing the value's last level with names and the whole value with paths
+function rankCategories(
+  key: string,
+  names: { category: Category; name: string; path: string }[]
+): { category: Category; similarity: number }[] {
+  const leaf = key.split(' > ').pop()!;
+  return names
+    .map(({ category, name, path }) => ({
+      category,
+      similarity: Math.max(nameSimilarity(leaf, name), nameSimilarity(key, path))
+    }))
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+/** The category tree and approved synonyms, kept on the server. */
+export class CategoryService {
+  async load(): Promise<{ categories: Category[]; synonyms: CategorySynonym[] }> {
+    const response = await fetch('/api/categories');
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.details || result.error || `Loading categories failed: ${response.status}`);
+    return { categories: result.categories, synonyms: result.synonyms };
+  }
+
+  /** Remembers matches so the same values resolve by synonym next time. */
+  async approve(matches: CategorySynonym[]): Promise<CategorySynonym[]> {
+    const response = await fetch('/api/categories/synonyms', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ matches })
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || `Saving category matches failed: ${response.status}`);
+    return result.synonyms;
+  }
+}
+
+export const categoryService = new CategoryService();
@@ -0,0 +1,206 @@
+export interface UploadSession {
+  id: string;
+  fileName: string;
+  size: number;
+  chunkSize: number;
+  chunkCount: number;
+  /** Indexes of the chunks the server has stored and verified. */
+  received: number[];
+}
+
+export interface UploadProgress {
+  bytesSent: number;
+  totalBytes: number;
+}
+
+/** Bytes produced while uploading, such as rows encoded page by page, instead of read from a File. */
+export interface UploadSource {
+  name: string;
+  size: number;
+  /** Stays the same for the same content, so an interrupted upload resumes. */
+  key: string;
+  /** The bytes in order, in pieces of any size; read again on every upload. */
+  read(): AsyncIterable<Uint8Array>;
+}
+
+export interface ChunkedUploadOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+const STORAGE_KEY = 'chunkedUploads';
+const CHUNK_SIZE = 5 * 1024 * 1024;
+const MAX_ATTEMPTS = 5;
+const RETRY_DELAY = 1000;
+
+class UploadHttpError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+/**
+ * CRC-32 of a chunk as 8 hex digits, checked by the server before storing
+ * it. Pass the CRC of the bytes before `data` to continue it.
+ */
+export function crc32(data: Uint8Array, previous = '00000000'): string {
+  let crc = (parseInt(previous, 16) ^ 0xffffffff) >>> 0;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Uploads large files in checksummed chunks. The session id is remembered
+ * per file, so an upload cut off by a dropped connection or a page reload
+ * resumes from the chunks the server already has.
+ */
+export class ChunkedUploadService {
+  async upload(file: File | UploadSource, options: ChunkedUploadOptions = {}): Promise<UploadSession> {
+    const session = await this.resumeOrCreate(file);
+    const received = new Set(session.received);
+    const chunkBytes = (index: number) => Math.min(session.chunkSize, file.size - index * session.chunkSize);
+
+    let bytesSent = [...received].reduce((total, index) => total + chunkBytes(index), 0);
+    options.onProgress?.({ bytesSent, totalBytes: file.size });
+
+    let index = 0;
+    for await (const chunk of this.chunks(file, session.chunkSize)) {
+      const current = index++;
+      if (received.has(current)) continue;
+      await this.withRetry(() => this.putChunk(session.id, current, chunk, options.signal), options.signal);
+      bytesSent += chunk.length;
+      options.onProgress?.({ bytesSent, totalBytes: file.size });
+    }
+
+    return { ...session, received: Array.from({ length: session.chunkCount }, (_, index) => index) };
+  }
+
+  /**
+   * Tells the server the upload is complete; it assembles the chunks and
+   * hands the file to the parser. Returns the parse result.
+   */
+  async complete<T>(file: File | UploadSource, session: UploadSession, body: object): Promise<T> {
+    const response = await fetch(`/api/uploads/${session.id}/complete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || `Upload failed: ${response.status}`);
+
+    this.forget(file);
+    return result;
+  }
+
+  private async resumeOrCreate(file: File | UploadSource): Promise<UploadSession> {
+    const savedId = this.sessions()[this.fileKey(file)];
+    if (savedId) {
+      const response = await fetch(`/api/uploads/${savedId}`);
+      if (response.ok) return (await response.json()).upload;
+      // Expired or already completed; start over
+      this.forget(file);
+    }
+
+    const response = await fetch('/api/uploads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fileName: file.name, size: file.size, chunkSize: CHUNK_SIZE })
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || `Upload failed: ${response.status}`);
+
+    this.remember(file, result.upload.id);
+    return result.upload;
+  }
+
+  /** The content cut into chunks of `size` bytes; at least one, even when empty. */
+  private async *chunks(file: File | UploadSource, size: number): AsyncGenerator<Uint8Array> {
+    if (file instanceof File) {
+      for (let start = 0; start === 0 || start < file.size; start += size) {
+        yield new Uint8Array(await file.slice(start, start + size).arrayBuffer());
+      }
+      return;
+    }
+
+    let chunk = new Uint8Array(size);
+    let filled = 0;
+    let yielded = false;
+    for await (const piece of file.read()) {
+      for (let offset = 0; offset < piece.length;) {
+        const taken = Math.min(size - filled, piece.length - offset);
+        chunk.set(piece.subarray(offset, offset + taken), filled);
+        filled += taken;
+        offset += taken;
+        if (filled === size) {
+          yield chunk;
+          yielded = true;
+          chunk = new Uint8Array(size);
+          filled = 0;
+        }
+      }
+    }
+    if (filled > 0 || !yielded) yield chunk.slice(0, filled);
+  }
+
+  private async putChunk(id: string, index: number, chunk: Uint8Array, signal?: AbortSignal) {
+    const response = await fetch(`/api/uploads/${id}/chunks/${index}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Chunk-Checksum': crc32(chunk)
+      },
+      body: chunk,
+      signal
+    });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new UploadHttpError(result.error || `Chunk ${index} failed: ${response.status}`, response.status);
+    }
+  }
+
+  /**
+   * Retries network failures, server errors and checksum mismatches with
+   * a growing delay. Other rejections won't succeed on a second try.
+   */
+  private async withRetry(send: () => Promise<void>, signal?: AbortSignal) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await send();
+      } catch (error) {
+        const retryable = !(error instanceof UploadHttpError) || error.status === 422 || error.status >= 500;
+        if (signal?.aborted || !retryable || attempt >= MAX_ATTEMPTS) throw error;
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  private fileKey(file: File | UploadSource): string {
+    return file instanceof File ? `${file.name}:${file.size}:${file.lastModified}` : file.key;
+  }
+
+  private sessions(): Record<string, string> {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch (error) {
+      console.error('Error loading upload sessions:', error);
+      return {};
+    }
+  }
+
+  private remember(file: File | UploadSource, id: string) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...this.sessions(), [this.fileKey(file)]: id }));
+  }
+
+  private forget(file: File | UploadSource) {
+    const { [this.fileKey(file)]: _removed, ...sessions } = this.sessions();
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  }
+}
+
+export const chunkedUpload = new ChunkedUploadService();
@@ -0,0 +1,55 @@
+const LINE_BREAK = '\u0001';
+
+/**
+ * Reads a block of cells copied from a spreadsheet or web page. Both put
+ * an HTML table on the clipboard, which keeps cells containing line
+ * breaks intact; plain tab-separated text is the fallback.
+ */
+export function readClipboardTable(html: string, text: string): string[][] | null {
+  return (html && tableFromHtml(html)) || tableFromText(text);
+}
+
+/**
+ * The largest table in an HTML fragment, with merged cells repeated
+ * blank so the columns stay aligned.
+ */
+export function tableFromHtml(html: string): string[][] | null {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const tables = Array.from(doc.querySelectorAll('table'));
+  if (tables.length === 0) return null;
+
+  const cellCount = (table: HTMLTableElement) => table.querySelectorAll('td, th').length;
+  const table = tables.reduce((largest, candidate) => (cellCount(candidate) > cellCount(largest) ? candidate : largest));
+
+  // Whitespace in HTML source is layout; only <br> is a line break in the cell
+  table.querySelectorAll('br').forEach(br => br.replaceWith(LINE_BREAK));
+  const grid = Array.from(table.rows).map(row => Array.from(row.cells).flatMap(cell => [
+    (cell.textContent ?? '').split(LINE_BREAK).map(line => line.replace(/\s+/g, ' ').trim()).join('\n').trim(),
+    ...Array<string>(Math.max(0, cell.colSpan - 1)).fill('')
+  ]));
+  return isTable(grid) ? grid : null;
+}
+
+/** Tab-separated lines, as spreadsheets copy them. */
+export function tableFromText(text: string): string[][] | null {
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n+$/, '').split('\n');
+  if (!lines.some(line => line.includes('\t'))) return null;
+
+  const grid = lines.map(line => line.split('\t'));
+  return isTable(grid) ? grid : null;
+}
+
+/**
+ * Writes a grid as tab-separated text, quoting cells that contain tabs,
+ * line breaks or quotes so it reads back the same.
+ */
+export function toTsv(grid: string[][]): string {
+  return grid
+    .map(row => row.map(cell => (/[\t\n"]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join('\t'))
+    .join('\n');
+}
+
+// A single cell or a single line of text is just text
+function isTable(grid: string[][]): boolean {
+  return grid.length >= 2 && Math.max(...grid.map(row => row.length)) >= 2;
+}
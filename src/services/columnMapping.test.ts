@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { TargetColumn, compatibilityWarnings, createRowMapper } from './columnMapping';
+import { ColumnSchema } from './typeInference';
+
+const targets: TargetColumn[] = [
+  { name: 'product_code', type: 'varchar(64)', nullable: false },
+  { name: 'price', type: 'decimal(10,2)', nullable: true }
+];
+
+const schema: ColumnSchema[] = [
+  { name: 'sku', index: 0, type: 'integer', confidence: 1, nullable: false, decimalSeparator: '.', sampleSize: 2 },
+  { name: 'price', index: 1, type: 'string', confidence: 1, nullable: false, decimalSeparator: ',', sampleSize: 2 }
+];
+
+describe('createRowMapper', () => {
+  const mapping = {
+    table: 'pim_product',
+    columns: [{ target: 'product_code', source: 0 }, { target: 'price', source: 1 }]
+  };
+
+  it('types values by the target column', () => {
+    const mapRow = createRowMapper(mapping, ['sku', 'price'], schema, targets);
+    expect(mapRow(['00123', '9,99'])).toEqual(['00123', 9.99]);
+  });
+
+  it('keeps the text a step produced for a text column', () => {
+    const padded = {
+      ...mapping,
+      columns: [{ target: 'product_code', source: 0, steps: [{ op: 'pad' as const, length: 6, fill: '0', side: 'start' as const }] }]
+    };
+    const mapRow = createRowMapper(padded, ['sku', 'price'], schema, targets);
+    expect(mapRow(['123', ''])).toEqual(['000123']);
+  });
+
+  it('falls back to the source schema without target columns', () => {
+    const mapRow = createRowMapper(mapping, ['sku', 'price'], schema);
+    expect(mapRow(['00123', '9,99'])).toEqual([123, '9,99']);
+  });
+});
+
+describe('compatibilityWarnings', () => {
+  it('warns when numbers go into a text column', () => {
+    expect(compatibilityWarnings(targets[0], schema[0], ['123'])).toEqual(['integer values stored as text in varchar(64)']);
+  });
+});
+
+describe('createRowMapper with unit steps', () => {
+  const weight: TargetColumn[] = [{ name: 'weight', type: 'decimal(10,3)', nullable: true }];
+  const german: ColumnSchema[] = [
+    { name: 'Gewicht', index: 0, type: 'decimal', confidence: 1, nullable: false, decimalSeparator: ',', sampleSize: 2 }
+  ];
+  const mapping = {
+    table: 'pim_product',
+    columns: [{ target: 'weight', source: 0, steps: [{ op: 'unit' as const, to: 'kg', assume: 'g' }] }]
+  };
+
+  it.each([
+    ['1234', 1.234],
+    ['2,5', 0.0025],
+    ['1.500 g', 1.5],
+    ['0,75 kg', 0.75]
+  ])('converts %j from a comma-decimal file', (value, amount) => {
+    const mapRow = createRowMapper(mapping, ['Gewicht'], german, weight);
+    expect(mapRow([value])).toEqual([amount]);
+  });
+});
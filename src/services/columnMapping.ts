@@ -0,0 +1,316 @@
+import { ExpressionError, compileExpression } from './expressions';
+import { TransformStep, runPipeline } from './transformPipeline';
+import { ColumnSchema, ColumnType, TypedValue, coerceValue, isBlank } from './typeInference';
+import type { ValidationRule } from './validation';
+
+/** A column of the target table, as described by `DESCRIBE`. */
+export interface TargetColumn {
+  name: string;
+  /** MySQL column type, e.g. `varchar(255)` or `decimal(10,2)`. */
+  type: string;
+  nullable: boolean;
+  key?: string;
+  default?: string | null;
+  /** `auto_increment` and similar. */
+  extra?: string;
+}
+
+/** Text clean-ups the AI can suggest; each becomes a pipeline step. */
+export type MappingTransform = 'none' | 'trim' | 'uppercase' | 'lowercase' | 'titlecase';
+
+export const MAPPING_TRANSFORMS: MappingTransform[] = ['none', 'trim', 'uppercase', 'lowercase', 'titlecase'];
+
+export interface MappedColumn {
+  target: string;
+  /** Index of the source column in `ProcessedData.headers`. */
+  source: number;
+  /** Clean-up applied to the value, in order, before it is typed. */
+  steps?: TransformStep[];
+  /** How sure the suggestion was (0–1); absent for mappings set by hand or by exact name. */
+  confidence?: number;
+  /** Why the AI suggested this mapping. */
+  rationale?: string;
+}
+
+/** A target filled by an expression over the row rather than from one source column. */
+export interface ComputedColumn {
+  target: string;
+  expression: string;
+}
+
+/** Which source column fills which target column; unmapped targets get their default. */
+export interface ColumnMapping {
+  table: string;
+  columns: MappedColumn[];
+  computed?: ComputedColumn[];
+}
+
+// Common source header spellings for pim_product columns
+const SYNONYMS: Record<string, string[]> = {
+  product_name: ['name', 'title', 'product', 'bezeichnung', 'item name', 'description short'],
+  product_code: ['sku', 'code', 'item no', 'item number', 'article number', 'artikelnummer', 'art nr', 'mpn'],
+  category: ['category', 'kategorie', 'group', 'product group', 'warengruppe'],
+  price: ['price', 'preis', 'unit price', 'net price', 'list price', 'cost'],
+  description: ['description', 'beschreibung', 'long description', 'details']
+};
+
+// Keys of the catalog even where the table doesn't declare them unique
+const UNIQUE_TARGETS = ['product_code'];
+
+// Suggestions below this confidence are flagged for review
+export const REVIEW_CONFIDENCE = 0.7;
+
+const MYSQL_TYPES: Record<string, ColumnType[]> = {
+  int: ['integer', 'boolean', 'empty'],
+  decimal: ['integer', 'decimal', 'money', 'empty'],
+  bool: ['boolean', 'integer', 'empty'],
+  date: ['date', 'empty'],
+  text: []
+};
+
+const NUMERIC_TYPES: ColumnType[] = ['integer', 'decimal', 'money'];
+
+/**
+ * Proposes a mapping by matching header names to target columns, either
+ * directly (ignoring case and separators) or through known synonyms.
+ * Generated columns such as ids and timestamps are left alone.
+ */
+export function suggestMapping(table: string, headers: string[], targets: TargetColumn[]): ColumnMapping {
+  const used = new Set<number>();
+  const columns: MappedColumn[] = [];
+
+  for (const target of targets.filter(isMappable)) {
+    const names = [target.name, ...(SYNONYMS[target.name] ?? [])].map(simplify);
+    const source = headers.findIndex((header, index) => !used.has(index) && names.includes(simplify(header)));
+    if (source < 0) continue;
+    used.add(source);
+    columns.push({ target: target.name, source });
+  }
+  return { table, columns };
+}
+
+/** Auto-increment keys and auto-set timestamps are filled in by the database. */
+export function isMappable(target: TargetColumn): boolean {
+  return !/auto_increment|DEFAULT_GENERATED|on update/i.test(target.extra ?? '');
+}
+
+/**
+ * Problems that would make the source column's values fail or lose data
+ * in the target column. `samples` are raw values of the source column.
+ */
+export function compatibilityWarnings(target: TargetColumn, source: ColumnSchema | undefined, samples: unknown[]): string[] {
+  const warnings: string[] = [];
+  const family = typeFamily(target.type);
+
+  if (source && family !== 'text' && family !== 'other' && !MYSQL_TYPES[family].includes(source.type)) {
+    warnings.push(`${source.type} values into ${target.type}`);
+  }
+  if (source && family === 'text' && NUMERIC_TYPES.includes(source.type)) {
+    warnings.push(`${source.type} values stored as text in ${target.type}`);
+  }
+
+  const length = maxLength(target.type);
+  if (length !== undefined) {
+    const longest = Math.max(0, ...samples.filter(value => !isBlank(value)).map(value => String(value).trim().length));
+    if (longest > length) warnings.push(`values up to ${longest} characters, column holds ${length}`);
+  }
+
+  if (!target.nullable && (target.default === null || target.default === undefined) && samples.some(isBlank)) {
+    warnings.push('blank values in a required column');
+  }
+  return warnings;
+}
+
+/** Targets that must be mapped: NOT NULL without a default. */
+export function isRequired(target: TargetColumn): boolean {
+  return isMappable(target) && !target.nullable && (target.default === null || target.default === undefined);
+}
+
+/**
+ * Validation rules the target table implies for the mapped columns: NOT
+ * NULL without a default, enum values and unique keys. Rules check the
+ * values as they are in the file, so columns with steps only get the
+ * uniqueness check.
+ */
+export function schemaRules(mapping: ColumnMapping, headers: string[], targets: TargetColumn[]): ValidationRule[] {
+  return mapping.columns.flatMap(({ target: name, source, steps }) => {
+    const target = targets.find(t => t.name === name);
+    const column = headers[source];
+    if (!target || !column) return [];
+
+    const rules: ValidationRule[] = [];
+    const values = enumValues(target.type);
+    if (!steps?.length && isRequired(target)) rules.push({ type: 'required', id: `required:${name}`, column });
+    if (!steps?.length && values) rules.push({ type: 'enum', id: `enum:${name}`, column, values });
+    // Duplicates are merged or kept as decided before the insert, so they only warn
+    if (target.key === 'PRI' || target.key === 'UNI' || UNIQUE_TARGETS.includes(name)) {
+      rules.push({ type: 'unique', id: `unique:${name}`, columns: [column], severity: 'warning' });
+    }
+    return rules;
+  });
+}
+
+export function needsReview(column: MappedColumn): boolean {
+  return column.confidence !== undefined && column.confidence < REVIEW_CONFIDENCE;
+}
+
+/**
+ * Checks a mapping suggested by the AI against the file's headers and the
+ * target table. Returns the mapping only when every entry is valid, with
+ * the problems otherwise so they can be sent back for a corrected answer.
+ */
+export function parseMappingSuggestion(
+  value: unknown,
+  table: string,
+  headers: string[],
+  targets: TargetColumn[]
+): { mapping?: ColumnMapping; errors: string[] } {
+  const entries = (value as { mappings?: unknown })?.mappings;
+  if (!Array.isArray(entries)) return { errors: ['Expected an object with a "mappings" array'] };
+
+  const errors: string[] = [];
+  const columns: MappedColumn[] = [];
+  const targetNames = targets.filter(isMappable).map(target => target.name);
+
+  entries.forEach((entry, i) => {
+    const { source, target, transform = 'none', confidence, rationale } = entry ?? {};
+    const index = headers.indexOf(source);
+    const problems = [
+      index < 0 && `source "${source}" is not one of the file's columns`,
+      !targetNames.includes(target) && `target "${target}" is not a column of ${table}`,
+      !MAPPING_TRANSFORMS.includes(transform) && `transform "${transform}" is not one of ${MAPPING_TRANSFORMS.join(', ')}`,
+      (typeof confidence !== 'number' || confidence < 0 || confidence > 1) && 'confidence must be a number from 0 to 1',
+      typeof rationale !== 'string' && 'rationale must be a string',
+      columns.some(column => column.target === target) && `target "${target}" is mapped twice`,
+      columns.some(column => column.source === index) && `source "${source}" is mapped twice`
+    ].filter((problem): problem is string => typeof problem === 'string');
+
+    if (problems.length > 0) {
+      errors.push(`mappings[${i}]: ${problems.join('; ')}`);
+    } else {
+      columns.push({ target, source: index, steps: transformSteps(transform), confidence, rationale });
+    }
+  });
+
+  return errors.length > 0 ? { errors } : { mapping: { table, columns }, errors };
+}
+
+/**
+ * Adds the name-based matches for targets and sources the suggestion left
+ * open; a header named like the column or a known synonym is safe enough.
+ */
+export function mergeMappings(suggested: ColumnMapping, byName: ColumnMapping): ColumnMapping {
+  const extra = byName.columns.filter(column => !suggested.columns.some(
+    existing => existing.target === column.target || existing.source === column.source
+  ));
+  return { ...suggested, columns: [...suggested.columns, ...extra] };
+}
+
+/** Targets the mapping fills, in the order the row mapper returns their values. */
+export function mappedTargets(mapping: ColumnMapping): string[] {
+  return [...mapping.columns, ...(mapping.computed ?? [])].map(column => column.target);
+}
+
+/**
+ * Compiles the mapping into a function giving the values of one source
+ * row: mapped columns run through their steps and typed for their target
+ * column, then computed columns. Throws if an expression doesn't compile;
+ * the function throws `ExpressionError` for rows an expression can't be
+ * evaluated on.
+ */
+export function createRowMapper(
+  mapping: ColumnMapping,
+  headers: string[],
+  schema?: ColumnSchema[],
+  targets?: TargetColumn[]
+): (row: unknown[]) => TypedValue[] {
+  const computed = (mapping.computed ?? []).map(({ target, expression }) => {
+    const compiled = compileExpression(expression, headers, schema);
+    if (!compiled.expression) throw new Error(`${target}: ${compiled.issues[0].message}`);
+    return { target, expression: compiled.expression };
+  });
+
+  const columns = mapping.columns.map(({ target, source, steps }) => ({
+    source,
+    steps,
+    column: targetSchema(targets?.find(t => t.name === target), schema?.find(c => c.index === source))
+  }));
+
+  return row => [
+    ...columns.map(({ source, steps, column }) => {
+      const value = steps?.length ? runPipeline(row[source], steps, row, column?.decimalSeparator) : row[source];
+      if (isBlank(value)) return null;
+      return column ? coerceValue(value, column) : String(value).trim();
+    }),
+    ...computed.map(({ target, expression }) => {
+      try {
+        return expression.evaluate(row);
+      } catch (error) {
+        throw error instanceof ExpressionError ? new ExpressionError(`${target}: ${error.message}`) : error;
+      }
+    })
+  ];
+}
+
+/**
+ * How values headed for `target` are typed: text columns keep them as
+ * text, so codes like `00123` survive; other columns parse them the way
+ * the source column's locale was read. Without a known target, the source
+ * schema decides.
+ */
+function targetSchema(target: TargetColumn | undefined, source: ColumnSchema | undefined): ColumnSchema | undefined {
+  if (!target || !source) return source;
+  switch (typeFamily(target.type)) {
+    case 'text':
+      return { ...source, type: 'string' };
+    case 'int':
+    case 'decimal':
+      return source.type === 'money' ? source : { ...source, type: 'decimal' };
+    case 'bool':
+      return { ...source, type: 'boolean' };
+    case 'date':
+      return { ...source, type: 'date' };
+    default:
+      return source;
+  }
+}
+
+function transformSteps(transform: MappingTransform): TransformStep[] | undefined {
+  switch (transform) {
+    case 'trim':
+      return [{ op: 'trim' }];
+    case 'uppercase':
+      return [{ op: 'case', to: 'upper' }];
+    case 'lowercase':
+      return [{ op: 'case', to: 'lower' }];
+    case 'titlecase':
+      return [{ op: 'case', to: 'title' }];
+    default:
+      return undefined;
+  }
+}
+
+// enum('a','b') with '' for a quote inside a value
+function enumValues(mysqlType: string): string[] | undefined {
+  if (!/^enum\(/i.test(mysqlType)) return undefined;
+  return [...mysqlType.matchAll(/'((?:[^']|'')*)'/g)].map(([, value]) => value.replace(/''/g, "'"));
+}
+
+function typeFamily(mysqlType: string): keyof typeof MYSQL_TYPES | 'other' {
+  const type = mysqlType.toLowerCase();
+  if (/^tinyint\(1\)/.test(type) || /^bool/.test(type)) return 'bool';
+  if (/^(tiny|small|medium|big)?int/.test(type)) return 'int';
+  if (/^(decimal|numeric|float|double|real)/.test(type)) return 'decimal';
+  if (/^(date|datetime|timestamp)/.test(type)) return 'date';
+  if (/^(var)?char|text|enum|set/.test(type)) return 'text';
+  return 'other';
+}
+
+function maxLength(mysqlType: string): number | undefined {
+  const match = mysqlType.toLowerCase().match(/^(?:var)?char\((\d+)\)/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function simplify(name: string): string {
+  return name.toLowerCase().replace(/[\s_\-.]+/g, ' ').trim();
+}
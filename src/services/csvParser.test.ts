@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { CsvParseOptions, CsvTokenizer, detectDelimiter, parseCsv } from './csvParser';
+
+interface CorpusFile {
+  name: string;
+  text: string;
+  options?: CsvParseOptions;
+  rows: string[][];
+}
+
+// Trimmed-down copies of files suppliers have sent us
+const corpus: CorpusFile[] = [
+  {
+    name: 'Windows export with line breaks inside quoted descriptions',
+    text: 'sku,description\r\nA-1,"Two lines\r\nof text"\r\nA-2,plain\r\n',
+    rows: [['sku', 'description'], ['A-1', 'Two lines\r\nof text'], ['A-2', 'plain']]
+  },
+  {
+    name: 'doubled quotes as escapes',
+    text: 'sku,name\nB-1,"17"" monitor"\nB-2,"say ""hi"""\n',
+    rows: [['sku', 'name'], ['B-1', '17" monitor'], ['B-2', 'say "hi"']]
+  },
+  {
+    name: 'UTF-8 byte order mark before the first header',
+    text: '\uFEFFsku;price\nC-1;9,99\n',
+    options: { delimiter: ';' },
+    rows: [['sku', 'price'], ['C-1', '9,99']]
+  },
+  {
+    name: 'line that is only an empty quoted field',
+    text: 'note\n""\nlast\n',
+    rows: [['note'], [''], ['last']]
+  },
+  {
+    name: 'blank lines between records',
+    text: 'sku\n\nD-1\n   \nD-2',
+    rows: [['sku'], ['D-1'], ['D-2']]
+  },
+  {
+    name: 'double pipe delimiter',
+    text: 'sku||name||size\nE-1||Pipe | fitting||"1||2"\n',
+    options: { delimiter: '||' },
+    rows: [['sku', 'name', 'size'], ['E-1', 'Pipe | fitting', '1||2']]
+  },
+  {
+    name: 'delimiter whose start repeats',
+    text: 'a::b:::c\n',
+    options: { delimiter: '::' },
+    rows: [['a', 'b', ':c']]
+  }
+];
+
+/** Feeds the text in chunks of `size` characters, as the worker does with file slices. */
+function parseInChunks(text: string, size: number, options?: CsvParseOptions): string[][] {
+  const tokenizer = new CsvTokenizer(options);
+  const rows: string[][] = [];
+  for (let i = 0; i < text.length; i += size) rows.push(...tokenizer.write(text.slice(i, i + size)));
+  return [...rows, ...tokenizer.end()];
+}
+
+describe('CsvTokenizer', () => {
+  describe.each(corpus)('$name', ({ text, options, rows }) => {
+    it('parses the whole file', () => {
+      expect(parseCsv(text, options)).toEqual({ rows, errors: [] });
+    });
+
+    it.each([1, 2, 3, 7])('parses the file in chunks of %i', size => {
+      expect(parseInChunks(text, size, options)).toEqual(rows);
+    });
+  });
+
+  it('joins a CRLF split across two chunks into one line break', () => {
+    const tokenizer = new CsvTokenizer();
+    const rows = [...tokenizer.write('a,b\r'), ...tokenizer.write('\nc,d\r'), ...tokenizer.write('\n'), ...tokenizer.end()];
+    expect(rows).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('reports an unterminated quote at the opening quote', () => {
+    const { rows, errors } = parseCsv('sku,name\nF-1,"open\n');
+    expect(rows).toEqual([['sku', 'name'], ['F-1', 'open\n']]);
+    expect(errors).toEqual([{ line: 2, column: 5, message: 'Unterminated quoted field' }]);
+  });
+
+  it('rejects delimiters it cannot split on', () => {
+    expect(() => new CsvTokenizer({ delimiter: '' })).toThrow();
+    expect(() => new CsvTokenizer({ delimiter: ';\n' })).toThrow();
+  });
+});
+
+describe('detectDelimiter', () => {
+  it.each([
+    ['sku;name;price', ';'],
+    ['sku\tname', '\t'],
+    ['sku|name|price', '|'],
+    ['sku||name||price', '||']
+  ])('detects the delimiter of %j', (line, delimiter) => {
+    expect(detectDelimiter(line)).toBe(delimiter);
+  });
+});
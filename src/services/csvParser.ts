@@ -0,0 +1,279 @@
+export interface CsvParseOptions {
+  /** One or more characters, e.g. `||`. */
+  delimiter?: string;
+  quote?: string;
+  /** Escape character inside quoted fields. Defaults to the quote character (RFC 4180 `""`). */
+  escape?: string;
+  /** Trim whitespace around unquoted fields. Quoted fields are always kept verbatim. */
+  trim?: boolean;
+  skipEmptyLines?: boolean;
+}
+
+export interface ParseIssue {
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  rows: string[][];
+  errors: ParseIssue[];
+}
+
+enum State {
+  FieldStart,
+  Unquoted,
+  Quoted,
+  QuoteInQuoted,
+  EscapeInQuoted
+}
+
+/**
+ * Incremental RFC 4180 tokenizer. Feed it text in arbitrary chunks with
+ * `write` and call `end` once the input is exhausted; both return the
+ * records completed so far. Malformed input is recovered from where
+ * possible and reported in `errors` with 1-based line/column positions.
+ */
+export class CsvTokenizer {
+  readonly errors: ParseIssue[] = [];
+
+  private delimiter: string;
+  private quote: string;
+  private escape: string;
+  private trim: boolean;
+  private skipEmptyLines: boolean;
+
+  private state = State.FieldStart;
+  private field = '';
+  private record: string[] = [];
+  private fieldQuoted = false;
+  private lastCR = false;
+  private recordClosedByCR = false;
+  private started = false;
+  private line = 1;
+  private column = 0;
+  private quoteLine = 0;
+  private quoteColumn = 0;
+  /** Start of a multi-character delimiter, held until it is complete or turns out not to be one. */
+  private pendingDelimiter = '';
+
+  constructor(options: CsvParseOptions = {}) {
+    this.delimiter = options.delimiter ?? ',';
+    this.quote = options.quote ?? '"';
+    this.escape = options.escape ?? this.quote;
+    this.trim = options.trim ?? true;
+    this.skipEmptyLines = options.skipEmptyLines ?? true;
+
+    if (!this.delimiter || /[\r\n]/.test(this.delimiter)) {
+      throw new Error('The delimiter must not be empty or contain line breaks');
+    }
+    if (this.quote.length !== 1 || this.escape.length !== 1) {
+      throw new Error('The quote and escape must be single characters');
+    }
+  }
+
+  write(chunk: string): string[][] {
+    const records: string[][] = [];
+    let start = 0;
+
+    if (!this.started && chunk.length > 0) {
+      this.started = true;
+      if (chunk.charCodeAt(0) === 0xfeff) start = 1;
+    }
+
+    for (let i = start; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      // The LF of a CRLF pair: the CR already counted the line, and may
+      // already have closed the record (possibly in a previous chunk)
+      const crlf = char === '\n' && this.lastCR;
+      this.lastCR = char === '\r';
+      if (crlf && this.recordClosedByCR) {
+        this.recordClosedByCR = false;
+        continue;
+      }
+      this.recordClosedByCR = false;
+
+      if (char === '\n' || char === '\r') {
+        if (!crlf) {
+          this.line++;
+          this.column = 0;
+        }
+      } else {
+        this.column++;
+      }
+
+      this.consume(char, records);
+    }
+
+    return records;
+  }
+
+  end(): string[][] {
+    const records: string[][] = [];
+    this.flushDelimiter(records);
+
+    if (this.state === State.Quoted || this.state === State.EscapeInQuoted) {
+      this.error('Unterminated quoted field', this.quoteLine, this.quoteColumn);
+    }
+    if (this.state !== State.FieldStart || this.record.length > 0) {
+      this.endRecord(records);
+    }
+
+    return records;
+  }
+
+  private consume(char: string, records: string[][]) {
+    const inQuotes = this.state === State.Quoted || this.state === State.EscapeInQuoted;
+    if (this.delimiter.length === 1 || inQuotes) {
+      this.step(char, char === this.delimiter, records);
+      return;
+    }
+
+    const candidate = this.pendingDelimiter + char;
+    if (candidate === this.delimiter) {
+      this.pendingDelimiter = '';
+      this.step(char, true, records);
+    } else if (this.delimiter.startsWith(candidate)) {
+      this.pendingDelimiter = candidate;
+    } else if (this.pendingDelimiter) {
+      // Not a delimiter after all: the first held character is data, and
+      // the rest may still start one
+      this.pendingDelimiter = '';
+      this.step(candidate[0], false, records);
+      for (const next of candidate.slice(1)) this.consume(next, records);
+    } else {
+      this.step(char, false, records);
+    }
+  }
+
+  private flushDelimiter(records: string[][]) {
+    const pending = this.pendingDelimiter;
+    this.pendingDelimiter = '';
+    for (const char of pending) this.step(char, false, records);
+  }
+
+  private step(char: string, isDelimiter: boolean, records: string[][]) {
+    const isNewline = char === '\n' || char === '\r';
+
+    switch (this.state) {
+      case State.FieldStart:
+        if (char === this.quote) {
+          this.state = State.Quoted;
+          this.fieldQuoted = true;
+          this.quoteLine = this.line;
+          this.quoteColumn = this.column;
+        } else if (isDelimiter) {
+          this.endField();
+        } else if (isNewline) {
+          this.newline(char, records);
+        } else if (this.trim && (char === ' ' || char === '\t')) {
+          // Leading padding, possibly before an opening quote
+        } else {
+          this.field += char;
+          this.state = State.Unquoted;
+        }
+        break;
+
+      case State.Unquoted:
+        if (isDelimiter) {
+          this.endField();
+        } else if (isNewline) {
+          this.newline(char, records);
+        } else {
+          if (char === this.quote) {
+            this.error('Unexpected quote in unquoted field');
+          }
+          this.field += char;
+        }
+        break;
+
+      case State.Quoted:
+        if (char === this.escape && this.escape !== this.quote) {
+          this.state = State.EscapeInQuoted;
+        } else if (char === this.quote) {
+          this.state = State.QuoteInQuoted;
+        } else {
+          this.field += char;
+        }
+        break;
+
+      case State.EscapeInQuoted:
+        this.field += char;
+        this.state = State.Quoted;
+        break;
+
+      case State.QuoteInQuoted:
+        if (char === this.quote && this.escape === this.quote) {
+          this.field += char;
+          this.state = State.Quoted;
+        } else if (isDelimiter) {
+          this.endField();
+        } else if (isNewline) {
+          this.newline(char, records);
+        } else if (this.trim && (char === ' ' || char === '\t')) {
+          // Padding between the closing quote and the delimiter
+        } else {
+          this.error('Unexpected character after closing quote');
+          this.field += char;
+          this.state = State.Unquoted;
+        }
+        break;
+    }
+  }
+
+  private newline(char: string, records: string[][]) {
+    this.recordClosedByCR = char === '\r';
+    this.endRecord(records);
+  }
+
+  private endField() {
+    this.record.push(this.fieldQuoted || !this.trim ? this.field : this.field.trim());
+    this.field = '';
+    this.fieldQuoted = false;
+    this.state = State.FieldStart;
+  }
+
+  private endRecord(records: string[][]) {
+    // A line holding only `""` is a record with one empty field, not an empty line
+    const empty = this.record.length === 0 && !this.fieldQuoted && (this.trim ? this.field.trim() : this.field) === '';
+    this.endField();
+    const record = this.record;
+    this.record = [];
+
+    if (this.skipEmptyLines && empty) return;
+    records.push(record);
+  }
+
+  private error(message: string, line = this.line, column = this.column) {
+    this.errors.push({ line, column, message });
+  }
+}
+
+export function parseCsv(text: string, options: CsvParseOptions = {}): CsvParseResult {
+  const tokenizer = new CsvTokenizer(options);
+  const rows = [...tokenizer.write(text), ...tokenizer.end()];
+  return { rows, errors: tokenizer.errors };
+}
+
+/**
+ * Guesses the delimiter of a delimited text file from its first line.
+ * Other multi-character delimiters have to be given explicitly.
+ */
+export function detectDelimiter(line: string): string {
+  const delimiters = ['\t', ',', '|', ';', ':'];
+  let maxCount = 0;
+  let bestDelimiter = ',';
+  
+  for (const delimiter of delimiters) {
+    const count = line.split(delimiter).length;
+    if (count > maxCount) {
+      maxCount = count;
+      bestDelimiter = delimiter;
+    }
+  }
+
+  // Pipes that only ever come in pairs separate fields as `||`
+  if (bestDelimiter === '|' && !line.replace(/\|\|/g, '').includes('|')) return '||';
+  return bestDelimiter;
+}
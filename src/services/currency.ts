@@ -0,0 +1,74 @@
+/**
+ * Currency markers seen in supplier price lists, mapped to ISO 4217
+ * codes. `$` and `kr` are ambiguous; they map to the most common reading
+ * and can be corrected per column.
+ */
+export const CURRENCY_SYMBOLS: Record<string, string> = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  '₽': 'RUB',
+  '₺': 'TRY',
+  '₩': 'KRW',
+  '$': 'USD',
+  'US$': 'USD',
+  'A$': 'AUD',
+  'C$': 'CAD',
+  'NZ$': 'NZD',
+  'R$': 'BRL',
+  'HK$': 'HKD',
+  'S$': 'SGD',
+  'R': 'ZAR',
+  'Fr.': 'CHF',
+  'zł': 'PLN',
+  'Kč': 'CZK',
+  'Ft': 'HUF',
+  'kr': 'SEK',
+  'Lei': 'RON'
+};
+
+export const CURRENCY_CODES = [
+  'EUR', 'USD', 'GBP', 'CHF', 'JPY', 'CNY', 'ZAR', 'AUD', 'CAD', 'NZD', 'SEK', 'NOK', 'DKK', 'PLN',
+  'CZK', 'HUF', 'RON', 'BGN', 'BRL', 'INR', 'RUB', 'TRY', 'KRW', 'MXN', 'SGD', 'HKD', 'AED', 'ILS'
+];
+
+// Longest first, so "R$" is not read as "R"
+const MARKERS = [...Object.keys(CURRENCY_SYMBOLS), ...CURRENCY_CODES].sort((a, b) => b.length - a.length);
+const MARKER = MARKERS.map(marker => marker.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+const AMOUNT = `[-+]?\\d[\\d\\s.,'’]*`;
+const PREFIXED = new RegExp(`^([-+]?)\\s*(${MARKER})\\s*(${AMOUNT})$`, 'i');
+const SUFFIXED = new RegExp(`^(${AMOUNT})\\s*(${MARKER})$`, 'i');
+
+/**
+ * ISO code for a currency symbol or code, e.g. `€` -> `EUR`, `chf` -> `CHF`.
+ */
+export function currencyCode(marker: string): string | null {
+  const text = marker.trim();
+  if (CURRENCY_SYMBOLS[text]) return CURRENCY_SYMBOLS[text];
+  const upper = text.toUpperCase();
+  return CURRENCY_CODES.includes(upper) ? upper : null;
+}
+
+/**
+ * Splits a price like `1.234,56 €` or `R 1 299.00` into the amount text
+ * and the ISO currency code. The amount is left unparsed because its
+ * decimal separator depends on the column.
+ */
+export function splitCurrency(value: string): { amount: string; currency: string } | null {
+  const text = value.trim().replace(/\u00a0/g, ' ');
+
+  const prefixed = text.match(PREFIXED);
+  if (prefixed) {
+    const currency = currencyCode(prefixed[2]);
+    return currency ? { amount: `${prefixed[1]}${prefixed[3].trim()}`, currency } : null;
+  }
+
+  const suffixed = text.match(SUFFIXED);
+  if (suffixed) {
+    const currency = currencyCode(suffixed[2]);
+    return currency ? { amount: suffixed[1].trim(), currency } : null;
+  }
+
+  return null;
+}
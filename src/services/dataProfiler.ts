@@ -0,0 +1,239 @@
+import type { ProcessedData } from './fileService';
+import { ColumnType, DateFormat, isBlank, parseDate, parseMoney, parseNumber } from './typeInference';
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface Outlier {
+  /** 1-based data row number. */
+  row: number;
+  value: string;
+}
+
+export interface ColumnProfile {
+  name: string;
+  index: number;
+  type: ColumnType;
+  blankCount: number;
+  blankPercent: number;
+  distinctCount: number;
+  /** True when there were more distinct values than were tracked. */
+  distinctCapped: boolean;
+  topValues: ValueCount[];
+  min?: string;
+  max?: string;
+  minLength: number;
+  maxLength: number;
+  patterns: ValueCount[];
+  outlierCount: number;
+  outliers: Outlier[];
+}
+
+export interface DataProfile {
+  fileName: string;
+  sheetName?: string;
+  totalRows: number;
+  columns: ColumnProfile[];
+}
+
+const TOP_VALUES = 5;
+const TOP_PATTERNS = 3;
+const MAX_TRACKED_VALUES = 50000;
+const MAX_PATTERN_LENGTH = 24;
+const MAX_REPORTED_OUTLIERS = 5;
+// Tukey's "far out" fence, so ordinary skew in prices isn't flagged
+const IQR_FENCE = 3;
+
+class ColumnAccumulator {
+  blankCount = 0;
+  minLength = Infinity;
+  maxLength = 0;
+  values = new Map<string, number>();
+  distinctCapped = false;
+  patterns = new Map<string, number>();
+  numbers: { row: number; value: number; text: string }[] = [];
+  min?: { sort: number | string; text: string };
+  max?: { sort: number | string; text: string };
+
+  constructor(
+    readonly name: string,
+    readonly index: number,
+    readonly type: ColumnType,
+    private decimalSeparator: '.' | ',',
+    private dateFormat?: DateFormat
+  ) {}
+
+  add(raw: unknown, row: number) {
+    if (isBlank(raw)) {
+      this.blankCount++;
+      return;
+    }
+
+    const text = String(raw).trim();
+    this.minLength = Math.min(this.minLength, text.length);
+    this.maxLength = Math.max(this.maxLength, text.length);
+
+    if (this.values.has(text) || this.values.size < MAX_TRACKED_VALUES) {
+      this.values.set(text, (this.values.get(text) || 0) + 1);
+    } else {
+      this.distinctCapped = true;
+    }
+
+    const pattern = signature(text);
+    this.patterns.set(pattern, (this.patterns.get(pattern) || 0) + 1);
+
+    // Values that don't fit the column type are left out of the range
+    const sort = this.sortKey(raw, text);
+    if (sort === null) return;
+
+    if (typeof sort === 'number') {
+      this.numbers.push({ row, value: sort, text });
+    }
+    if (!this.min || sort < this.min.sort) this.min = { sort, text };
+    if (!this.max || sort > this.max.sort) this.max = { sort, text };
+  }
+
+  profile(totalRows: number): ColumnProfile {
+    const outliers = this.findOutliers();
+
+    return {
+      name: this.name,
+      index: this.index,
+      type: this.type,
+      blankCount: this.blankCount,
+      blankPercent: totalRows ? (this.blankCount / totalRows) * 100 : 0,
+      distinctCount: this.values.size,
+      distinctCapped: this.distinctCapped,
+      topValues: topEntries(this.values, TOP_VALUES),
+      min: this.min?.text,
+      max: this.max?.text,
+      minLength: Number.isFinite(this.minLength) ? this.minLength : 0,
+      maxLength: this.maxLength,
+      patterns: topEntries(this.patterns, TOP_PATTERNS),
+      outlierCount: outliers.length,
+      outliers: outliers.slice(0, MAX_REPORTED_OUTLIERS)
+    };
+  }
+
+  private sortKey(raw: unknown, text: string): number | string | null {
+    switch (this.type) {
+      case 'integer':
+      case 'decimal':
+        return parseNumber(raw, this.decimalSeparator);
+      case 'money':
+        return parseMoney(raw, this.decimalSeparator)?.amount ?? null;
+      case 'date':
+        return parseDate(raw, this.dateFormat ?? 'iso');
+      default:
+        return text;
+    }
+  }
+
+  private findOutliers(): Outlier[] {
+    if (this.numbers.length < 4) return [];
+
+    const sorted = this.numbers.map(n => n.value).sort((a, b) => a - b);
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const spread = (q3 - q1) * IQR_FENCE;
+    if (spread === 0) return [];
+
+    return this.numbers
+      .filter(n => n.value < q1 - spread || n.value > q3 + spread)
+      .map(n => ({ row: n.row, value: n.text }));
+  }
+}
+
+/**
+ * Profiles every column of a dataset in one pass over all of its rows,
+ * reading them page by page so large files stay in the worker.
+ */
+export async function profileData(data: ProcessedData): Promise<DataProfile> {
+  const columns = data.headers.map((name, index) => {
+    const schema = data.schema?.[index];
+    return new ColumnAccumulator(
+      name,
+      index,
+      schema?.type ?? 'string',
+      schema?.decimalSeparator ?? '.',
+      schema?.dateFormat
+    );
+  });
+
+  let rowNumber = 0;
+  for await (const page of data.rowSource.pages()) {
+    for (const row of page) {
+      rowNumber++;
+      columns.forEach(column => column.add(row[column.index], rowNumber));
+    }
+  }
+
+  return {
+    fileName: data.fileName,
+    sheetName: data.sheetName,
+    totalRows: rowNumber,
+    columns: columns.map(column => column.profile(rowNumber))
+  };
+}
+
+/**
+ * Compact plain-text rendering of a profile for use in AI prompts.
+ */
+export function describeProfile(profile: DataProfile): string {
+  const lines = [
+    `File: ${profile.fileName}${profile.sheetName ? ` (sheet ${profile.sheetName})` : ''}`,
+    `Rows: ${profile.totalRows}, columns: ${profile.columns.length}`
+  ];
+
+  for (const column of profile.columns) {
+    const parts = [
+      `type ${column.type}`,
+      `${column.blankPercent.toFixed(1)}% blank`,
+      `${column.distinctCount}${column.distinctCapped ? '+' : ''} distinct`
+    ];
+    if (column.min !== undefined) parts.push(`range ${column.min} .. ${column.max}`);
+    parts.push(`length ${column.minLength}-${column.maxLength}`);
+    if (column.patterns.length) parts.push(`patterns ${column.patterns.map(p => p.value).join(' / ')}`);
+    if (column.topValues.length) {
+      parts.push(`top ${column.topValues.map(v => `"${truncate(v.value, 30)}" x${v.count}`).join(', ')}`);
+    }
+    if (column.outlierCount) parts.push(`${column.outlierCount} suspected outliers`);
+
+    lines.push(`- ${column.name}: ${parts.join('; ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Shape signature of a value: letters become A/a, digits 9, everything
+ * else is kept, e.g. "AB-1234x" -> "AA-9999a".
+ */
+function signature(text: string): string {
+  const shape = text
+    .slice(0, MAX_PATTERN_LENGTH)
+    .replace(/[A-Z]/g, 'A')
+    .replace(/[a-z]/g, 'a')
+    .replace(/\d/g, '9');
+  return text.length > MAX_PATTERN_LENGTH ? `${shape}…` : shape;
+}
+
+function topEntries(counts: Map<string, number>, limit: number): ValueCount[] {
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value, count]) => ({ value, count }));
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
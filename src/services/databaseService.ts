@@ -1,3 +1,7 @@
+import { Category, CATEGORY_TARGET, normalizeCategory } from './categoryResolution';
+import { ColumnMapping, TargetColumn, createRowMapper, mappedTargets } from './columnMapping';
+import { ExpressionError } from './expressions';
+import { ColumnSchema } from './typeInference';
 
 interface DatabaseConfig {
   server: string;
@@ -51,27 +55,56 @@ export class DatabaseService {
     }
   }
 
-  async insertProducts(products: any[]): Promise<QueryResult> {
+  /**
+   * Inserts rows into the mapped table, typed for its `targets` columns.
+   */
+  async insertProducts(
+    rows: unknown[][],
+    mapping: ColumnMapping,
+    headers: string[],
+    schema?: ColumnSchema[],
+    categories?: Map<string, Category>,
+    targets?: TargetColumn[]
+  ): Promise<QueryResult> {
     try {
+      const columns = mappedTargets(mapping);
+      if (columns.length === 0) {
+        throw new Error('No columns are mapped');
+      }
+      if ([mapping.table, ...columns].some(name => !/^\w+$/.test(name))) {
+        throw new Error('Invalid table or column name in mapping');
+      }
+
+      const stamped = !columns.includes('created_at');
       const insertQuery = `
-        INSERT INTO pim_product (
-          product_name, 
-          product_code, 
-          category, 
-          price, 
-          description,
-          created_at
-        ) VALUES ?
+        INSERT INTO ${mapping.table} (${[...columns, ...(stamped ? ['created_at'] : [])].join(', ')}) VALUES ?
       `;
-
-      const values = products.map(product => [
-        product.name || product.product_name,
-        product.code || product.product_code || product.sku,
-        product.category,
-        product.price,
-        product.description,
-        new Date()
-      ]);
+      const mapRow = createRowMapper(mapping, headers, schema, targets);
+      const categoryIndex = categories ? columns.indexOf(CATEGORY_TARGET) : -1;
+      const unresolved = new Set<string>();
+      const failed: string[] = [];
+      const values = rows.flatMap((row, index) => {
+        try {
+          const mapped = mapRow(row);
+          const value = mapped[categoryIndex];
+          if (categoryIndex >= 0 && value !== null && value !== undefined && String(value).trim() !== '') {
+            const category = categories!.get(normalizeCategory(String(value)));
+            if (category) mapped[categoryIndex] = category.id;
+            else unresolved.add(String(value).trim());
+          }
+          return [[...mapped, ...(stamped ? [new Date()] : [])]];
+        } catch (error) {
+          if (!(error instanceof ExpressionError)) throw error;
+          failed.push(`row ${index + 1}: ${error.message}`);
+          return [];
+        }
+      });
+      if (failed.length > 0) {
+        throw new Error(`Computed columns failed on ${failed.length} rows (${failed.slice(0, 5).join('; ')}${failed.length > 5 ? '; …' : ''})`);
+      }
+      if (unresolved.size > 0) {
+        throw new Error(`${unresolved.size} category values need review (${[...unresolved].slice(0, 5).join(', ')}${unresolved.size > 5 ? ', …' : ''})`);
+      }
 
       return this.executeQuery(insertQuery, [values]);
     } catch (error) {
@@ -97,11 +130,35 @@ export class DatabaseService {
     }
   }
 
-  async getTableSchema(tableName: string = 'pim_product'): Promise<any[]> {
+  /**
+   * Which of `values` exist in `table.field`. Returns null when the lookup
+   * could not be made, so callers can tell "none exist" from "unknown".
+   */
+  async findExistingValues(table: string, field: string, values: string[]): Promise<string[] | null> {
+    if (!/^\w+$/.test(table) || !/^\w+$/.test(field)) {
+      throw new Error(`Invalid reference ${table}.${field}`);
+    }
+    if (values.length === 0) return [];
+
+    try {
+      const query = `SELECT DISTINCT ${field} AS value FROM ${table} WHERE ${field} IN (?)`;
+      const result = await this.executeQuery(query, [values]);
+      if (!result.success || !result.data) return null;
+      return result.data.map((row: { value: unknown }) => String(row.value));
+    } catch (error) {
+      console.error('Error looking up reference values:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Columns of a table in the live database, read through the server.
+   */
+  async getTableSchema(tableName: string = 'pim_product'): Promise<TargetColumn[]> {
     try {
-      const query = `DESCRIBE ${tableName}`;
-      const result = await this.executeQuery(query);
-      return result.data || [];
+      const response = await fetch(`/api/database/schema/${encodeURIComponent(tableName)}`);
+      if (!response.ok) throw new Error(`Schema request failed: ${response.status}`);
+      return (await response.json()).columns;
     } catch (error) {
       console.error('Error getting table schema:', error);
       return [];
@@ -0,0 +1,128 @@
+import { ChunkedUploadOptions, UploadSource, chunkedUpload, crc32 } from './chunkedUpload';
+import { ProcessedData, fileService } from './fileService';
+import { ColumnSchema } from './typeInference';
+
+/** Per-column summary computed by the server when a dataset is stored. */
+export interface DatasetColumnProfile {
+  name: string;
+  type: string;
+  blankPercent: number;
+  distinctCount: number;
+  /** True when there were too many values to count exactly. */
+  distinctEstimated?: boolean;
+  topValues: { value: string; count: number }[];
+  min?: number;
+  max?: number;
+}
+
+export interface Dataset {
+  id: string;
+  fileName: string;
+  sheetName?: string;
+  headers: string[];
+  schema: ColumnSchema[];
+  totalRows: number;
+  profile: DatasetColumnProfile[];
+  createdAt: string;
+}
+
+/** What the browser worked out, so the server parses the file the same way. */
+interface ParseHints {
+  encoding?: string;
+  delimiter?: string;
+  quote?: string;
+  escape?: string;
+  header?: { rowIndex: number; rowCount: number };
+  schema?: ColumnSchema[];
+  sheets?: { name: string; header?: { rowIndex: number; rowCount: number }; schema?: ColumnSchema[] }[];
+  /** Set when the upload holds rows parsed in the browser, one JSON array per line. */
+  rows?: { fileName: string; sheetName?: string; headers: string[]; schema?: ColumnSchema[] };
+}
+
+/**
+ * Turns uploaded files into datasets stored on the server. Spreadsheets
+ * and delimited text are uploaded in resumable chunks and parsed there; formats only the
+ * browser reads (XML, JSON, fixed-width text) are uploaded the same way as parsed rows.
+ */
+export class DatasetService {
+  async createDatasets(
+    file: File,
+    data: ProcessedData,
+    selectedSheets?: string[],
+    options: ChunkedUploadOptions = {}
+  ): Promise<Dataset[]> {
+    const serverParsed = ['excel', 'csv', 'text'].includes(data.fileType) && !data.fixedWidth;
+    return serverParsed
+      ? this.uploadFile(file, this.parseHints(data, selectedSheets), options)
+      : this.uploadRows(data, options);
+  }
+
+  async getDataset(id: string): Promise<Dataset> {
+    const response = await fetch(`/api/datasets/${encodeURIComponent(id)}`);
+    if (!response.ok) throw new Error(`Dataset ${id} not found`);
+    return (await response.json()).dataset;
+  }
+
+  async getRows(id: string, offset = 0, limit = 100): Promise<unknown[][]> {
+    const response = await fetch(`/api/datasets/${encodeURIComponent(id)}/rows?offset=${offset}&limit=${limit}`);
+    if (!response.ok) throw new Error(`Dataset ${id} not found`);
+    return (await response.json()).rows;
+  }
+
+  private async uploadFile(file: File | UploadSource, hints: ParseHints, options: ChunkedUploadOptions): Promise<Dataset[]> {
+    const session = await chunkedUpload.upload(file, options);
+    const { datasets } = await chunkedUpload.complete<{ datasets: Dataset[] }>(file, session, { hints });
+    return datasets;
+  }
+
+  /**
+   * Sends the parsed rows as JSON lines, encoded page by page while they
+   * upload. A first pass sizes them and checksums them, so an upload of the
+   * same rows resumes after a reload.
+   */
+  private async uploadRows(data: ProcessedData, options: ChunkedUploadOptions): Promise<Dataset[]> {
+    const encoder = new TextEncoder();
+    const read = async function* () {
+      for await (const page of data.rowSource.pages()) {
+        yield encoder.encode(page.map(row => `${JSON.stringify(row)}\n`).join(''));
+      }
+    };
+
+    let size = 0;
+    let checksum: string | undefined;
+    for await (const bytes of read()) {
+      size += bytes.length;
+      checksum = crc32(bytes, checksum);
+    }
+    const name = `${data.fileName}.ndjson`;
+    const rows: UploadSource = { name, size, key: `${name}:${size}:${checksum}`, read };
+
+    const { fileName, sheetName, headers, schema } = data;
+    return this.uploadFile(rows, { rows: { fileName, sheetName, headers, schema } }, options);
+  }
+
+  private parseHints(data: ProcessedData, selectedSheets?: string[]): ParseHints {
+    const headerRows = (header?: ProcessedData['header']) =>
+      header && { rowIndex: header.rowIndex, rowCount: header.rowCount };
+
+    if (data.sheets) {
+      return {
+        sheets: (selectedSheets ?? [data.sheetName || '']).map(name => {
+          const sheet = fileService.selectSheet(data, name);
+          return { name, header: headerRows(sheet.header), schema: sheet.schema };
+        })
+      };
+    }
+
+    return {
+      encoding: data.encoding?.name,
+      delimiter: data.delimiter,
+      quote: data.quote,
+      escape: data.escape,
+      header: headerRows(data.header),
+      schema: data.schema
+    };
+  }
+}
+
+export const datasetService = new DatasetService();
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { DuplicateGroup, applyDuplicateDecisions, planDuplicateDecisions } from './duplicateDetection';
+
+const rows = [
+  ['A-1', 'Widget', ''],
+  ['B-1', 'Gadget', '5'],
+  ['a1', '', '9.99'],
+  ['A-1', 'Widget XL', '12']
+];
+
+const group: DuplicateGroup = { id: 'a1', match: 'normalized', rows: [0, 2, 3], values: [rows[0], rows[2], rows[3]] };
+
+describe('planDuplicateDecisions', () => {
+  it('merges a group into its first row', () => {
+    const plan = planDuplicateDecisions([group], {});
+    expect(applyDuplicateDecisions(rows, plan)).toEqual({ rows: [['A-1', 'Widget', '9.99'], rows[1]], indexes: [0, 1] });
+  });
+
+  it('keeps every row when asked', () => {
+    const plan = planDuplicateDecisions([group], { a1: 'keep' });
+    expect(applyDuplicateDecisions(rows, plan).indexes).toEqual([0, 1, 2, 3]);
+  });
+
+  it('merges into the next row when validation skips the first', () => {
+    const plan = planDuplicateDecisions([group], {}, new Set([0]));
+    expect(applyDuplicateDecisions(rows, plan)).toEqual({ rows: [rows[0], rows[1], ['a1', 'Widget XL', '9.99']], indexes: [0, 1, 2] });
+  });
+
+  it('leaves a group alone once at most one row is kept', () => {
+    const plan = planDuplicateDecisions([group], {}, new Set([0, 3]));
+    expect(plan).toEqual({ replaced: new Map(), dropped: new Set() });
+  });
+
+  it('counts rows from the page offset', () => {
+    const plan = planDuplicateDecisions([{ ...group, rows: [10, 12, 13] }], {});
+    expect(applyDuplicateDecisions(rows, plan, 10).indexes).toEqual([10, 11]);
+  });
+});
@@ -0,0 +1,280 @@
+import type { ProcessedData } from './fileService';
+import { isBlank } from './typeInference';
+
+/**
+ * How the rows of a group matched: the same key, the same key once case,
+ * whitespace, separators and leading zeros are ignored, or different keys
+ * with near-identical names.
+ */
+export type DuplicateMatch = 'exact' | 'normalized' | 'fuzzy';
+
+/** `merge` folds the group into one row on import; `keep` imports every row. */
+export type DuplicateDecision = 'merge' | 'keep';
+
+export interface DuplicateGroup {
+  id: string;
+  match: DuplicateMatch;
+  /** Data row indexes (0-based), in file order. */
+  rows: number[];
+  values: unknown[][];
+  /** Name similarity (0–1) for fuzzy groups. */
+  similarity?: number;
+}
+
+export interface DuplicateOptions {
+  keyColumn?: number;
+  nameColumn?: number;
+  /** Minimum name similarity for a fuzzy match. */
+  threshold?: number;
+}
+
+export interface DuplicateReport {
+  keyColumn: number;
+  nameColumn?: number;
+  groups: DuplicateGroup[];
+}
+
+const KEY_HEADER = /^(sku|product[\s_-]?code|code|item[\s_-]?(no|number|code)|art(ikel)?[\s_-]?(nr|no|nummer)|mpn|ean|gtin|upc|id)$/i;
+const NAME_HEADER = /^(name|product[\s_-]?name|title|bezeichnung|description|item[\s_-]?name)$/i;
+const FUZZY_THRESHOLD = 0.85;
+// Names sharing only very common words ("black", "pack") aren't compared
+const MAX_BUCKET_SIZE = 50;
+
+/**
+ * Finds duplicate rows inside one file, by key column and by name. Keys
+ * and names are read a page at a time; only the rows that end up in a
+ * group are kept in full.
+ */
+export async function findDuplicates(data: ProcessedData, options: DuplicateOptions = {}): Promise<DuplicateReport | null> {
+  const keyColumn = options.keyColumn ?? guessColumn(data, KEY_HEADER);
+  if (keyColumn === undefined) return null;
+  const nameColumn = options.nameColumn ?? guessColumn(data, NAME_HEADER);
+  const threshold = options.threshold ?? FUZZY_THRESHOLD;
+
+  const keys: string[] = [];
+  const names: string[] = [];
+  for await (const page of data.rowSource.pages()) {
+    for (const row of page) {
+      keys.push(isBlank(row[keyColumn]) ? '' : String(row[keyColumn]).trim());
+      names.push(nameColumn === undefined || isBlank(row[nameColumn]) ? '' : normalizeName(String(row[nameColumn])));
+    }
+  }
+
+  const keyGroups = groupBy(keys, key => (key ? normalizeKey(key) : ''));
+  const groups: Omit<DuplicateGroup, 'values'>[] = keyGroups.map(rows => ({
+    id: `key-${rows[0]}`,
+    match: rows.every(row => keys[row] === keys[rows[0]]) ? 'exact' : 'normalized',
+    rows
+  }));
+
+  if (nameColumn !== undefined) {
+    // A row belongs to one group at most, so merges never overlap
+    const grouped = new Set(keyGroups.flat());
+    groups.push(...fuzzyNameGroups(names, grouped, threshold));
+  }
+
+  const wanted = new Set(groups.flatMap(group => group.rows));
+  const values = new Map<number, unknown[]>();
+  let offset = 0;
+  for await (const page of data.rowSource.pages()) {
+    page.forEach((row, i) => {
+      if (wanted.has(offset + i)) values.set(offset + i, row);
+    });
+    offset += page.length;
+  }
+
+  return {
+    keyColumn,
+    nameColumn,
+    groups: groups
+      .map(group => ({ ...group, values: group.rows.map(row => values.get(row) ?? []) }))
+      .sort((a, b) => a.rows[0] - b.rows[0])
+  };
+}
+
+/**
+ * Key as compared for normalized matches: case, whitespace, dashes, dots
+ * and underscores are ignored, as are leading zeros (`00123` = `123`).
+ */
+export function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[\s\-_.]/g, '').replace(/^0+(?=.)/, '');
+}
+
+/**
+ * Similarity of two names as the Dice coefficient of their letter pairs,
+ * which tolerates typos and reordered words.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const pairsA = bigrams(a);
+  const pairsB = bigrams(b);
+  if (pairsA.size === 0 || pairsB.size === 0) return 0;
+
+  let shared = 0;
+  pairsA.forEach((count, pair) => { shared += Math.min(count, pairsB.get(pair) ?? 0); });
+  const total = [...pairsA.values(), ...pairsB.values()].reduce((sum, count) => sum + count, 0);
+  return (2 * shared) / total;
+}
+
+/**
+ * One row per group: the first row's values, with blanks filled in from
+ * the later rows. `conflicts` lists the columns where non-blank values
+ * disagree, so the merge can be reviewed.
+ */
+export function mergeGroup(group: DuplicateGroup): { row: unknown[]; conflicts: number[] } {
+  const width = Math.max(...group.values.map(row => row.length));
+  const row: unknown[] = [];
+  const conflicts: number[] = [];
+
+  for (let column = 0; column < width; column++) {
+    const filled = group.values.map(values => values[column]).filter(value => !isBlank(value));
+    row.push(filled[0] ?? '');
+    if (new Set(filled.map(value => String(value).trim())).size > 1) conflicts.push(column);
+  }
+  return { row, conflicts };
+}
+
+/** Exact and normalized key matches are merged by default; fuzzy ones need a look. */
+export function defaultDecision(group: DuplicateGroup): DuplicateDecision {
+  return group.match === 'fuzzy' ? 'keep' : 'merge';
+}
+
+/** The merged row for the first kept row of each group to merge, and the rows merged into it. */
+export interface DuplicatePlan {
+  replaced: Map<number, unknown[]>;
+  dropped: Set<number>;
+}
+
+/**
+ * Rows in `skipRows`, which validation leaves out, take no part in a merge,
+ * so the next row of their group takes the merged values instead.
+ */
+export function planDuplicateDecisions(
+  groups: DuplicateGroup[],
+  decisions: Record<string, DuplicateDecision>,
+  skipRows?: Set<number>
+): DuplicatePlan {
+  const replaced = new Map<number, unknown[]>();
+  const dropped = new Set<number>();
+  for (const group of groups) {
+    if ((decisions[group.id] ?? defaultDecision(group)) !== 'merge') continue;
+    const kept = group.rows.flatMap((row, i) => (skipRows?.has(row) ? [] : [{ row, values: group.values[i] }]));
+    if (kept.length < 2) continue;
+    replaced.set(kept[0].row, mergeGroup({ ...group, rows: kept.map(({ row }) => row), values: kept.map(({ values }) => values) }).row);
+    kept.slice(1).forEach(({ row }) => dropped.add(row));
+  }
+  return { replaced, dropped };
+}
+
+/**
+ * Applies a plan to a page of rows starting at `offset`: the first row of
+ * a merged group becomes the merged row, the others are dropped. Returns
+ * the data row index of each row kept.
+ */
+export function applyDuplicateDecisions(
+  rows: unknown[][],
+  plan: DuplicatePlan,
+  offset = 0
+): { rows: unknown[][]; indexes: number[] } {
+  const kept: { rows: unknown[][]; indexes: number[] } = { rows: [], indexes: [] };
+  rows.forEach((row, i) => {
+    if (plan.dropped.has(offset + i)) return;
+    kept.rows.push(plan.replaced.get(offset + i) ?? row);
+    kept.indexes.push(offset + i);
+  });
+  return kept;
+}
+
+function guessColumn(data: ProcessedData, pattern: RegExp): number | undefined {
+  const index = data.headers.findIndex(header => pattern.test(header.trim()));
+  if (index >= 0) return index;
+  // GTINs identify products even without a recognisable header
+  if (pattern === KEY_HEADER) return data.schema?.find(column => column.type === 'gtin')?.index;
+  return undefined;
+}
+
+function groupBy(keys: string[], normalize: (key: string) => string): number[][] {
+  const byKey = new Map<string, number[]>();
+  keys.forEach((key, row) => {
+    const normalized = normalize(key);
+    if (!normalized) return;
+    const rows = byKey.get(normalized);
+    if (rows) rows.push(row);
+    else byKey.set(normalized, [row]);
+  });
+  return [...byKey.values()].filter(rows => rows.length > 1);
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const pairs = new Map<string, number>();
+  const compact = text.replace(/\s+/g, ' ');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+  }
+  return pairs;
+}
+
+/**
+ * Groups rows with similar names. Only rows sharing a word are compared,
+ * which keeps this far from comparing every pair in large files.
+ */
+function fuzzyNameGroups(names: string[], excluded: Set<number>, threshold: number): Omit<DuplicateGroup, 'values'>[] {
+  const buckets = new Map<string, number[]>();
+  names.forEach((name, row) => {
+    if (!name || excluded.has(row)) return;
+    for (const word of new Set(name.split(' '))) {
+      if (word.length < 3) continue;
+      const bucket = buckets.get(word) ?? [];
+      if (bucket.length <= MAX_BUCKET_SIZE) bucket.push(row);
+      buckets.set(word, bucket);
+    }
+  });
+
+  const parent = new Map<number, number>();
+  const find = (row: number): number => {
+    const up = parent.get(row) ?? row;
+    if (up === row) return row;
+    const root = find(up);
+    parent.set(row, root);
+    return root;
+  };
+  const similarity = new Map<number, number>();
+  const compared = new Set<string>();
+
+  for (const bucket of buckets.values()) {
+    if (bucket.length > MAX_BUCKET_SIZE) continue;
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [a, b] = [bucket[i], bucket[j]];
+        const pair = `${a}:${b}`;
+        if (compared.has(pair)) continue;
+        compared.add(pair);
+
+        const score = nameSimilarity(names[a], names[b]);
+        if (score < threshold) continue;
+        const [rootA, rootB] = [find(a), find(b)];
+        if (rootA === rootB) continue;
+        const root = Math.min(rootA, rootB);
+        parent.set(Math.max(rootA, rootB), root);
+        similarity.set(root, Math.min(similarity.get(rootA) ?? 1, similarity.get(rootB) ?? 1, score));
+      }
+    }
+  }
+
+  const byRoot = new Map<number, number[]>();
+  for (const row of parent.keys()) {
+    const root = find(row);
+    byRoot.set(root, [...(byRoot.get(root) ?? [root]), row]);
+  }
+  return [...byRoot.entries()].map(([root, rows]) => ({
+    id: `name-${root}`,
+    match: 'fuzzy' as const,
+    rows: [...new Set(rows)].sort((a, b) => a - b),
+    similarity: similarity.get(root)
+  }));
+}
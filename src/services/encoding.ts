@@ -0,0 +1,105 @@
+export interface DetectedEncoding {
+  /** WHATWG encoding label, usable with `TextDecoder`. */
+  name: string;
+  source: 'bom' | 'declaration' | 'heuristic' | 'user';
+  confidence: number;
+}
+
+export const SUPPORTED_ENCODINGS = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western)' },
+  { value: 'windows-1250', label: 'Windows-1250 (Central European)' },
+  { value: 'iso-8859-15', label: 'ISO-8859-15 (Latin-9)' }
+];
+
+const SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * Detects the text encoding of a file from its leading bytes: a byte order
+ * mark wins outright, otherwise NUL-byte patterns point at BOM-less UTF-16,
+ * valid multi-byte sequences at UTF-8, and anything else falls back to
+ * Windows-1252, which is what ERP exports on Western Windows machines use.
+ */
+export function detectEncoding(bytes: Uint8Array): DetectedEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { name: 'utf-8', source: 'bom', confidence: 1 };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { name: 'utf-16le', source: 'bom', confidence: 1 };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { name: 'utf-16be', source: 'bom', confidence: 1 };
+  }
+
+  const sample = bytes.subarray(0, SAMPLE_SIZE);
+  const utf16 = detectUtf16(sample);
+  if (utf16) return utf16;
+
+  const { valid, multiByte } = scanUtf8(sample);
+  if (valid) {
+    // Pure ASCII decodes the same either way, so it is only a weak signal
+    return { name: 'utf-8', source: 'heuristic', confidence: multiByte > 0 ? 0.95 : 0.6 };
+  }
+
+  return { name: 'windows-1252', source: 'heuristic', confidence: 0.7 };
+}
+
+function detectUtf16(sample: Uint8Array): DetectedEncoding | null {
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs === 0) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+
+  // Latin text in UTF-16 has a NUL in every other byte
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) {
+    return { name: 'utf-16le', source: 'heuristic', confidence: oddZeros / pairs };
+  }
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) {
+    return { name: 'utf-16be', source: 'heuristic', confidence: evenZeros / pairs };
+  }
+  return null;
+}
+
+function scanUtf8(sample: Uint8Array): { valid: boolean; multiByte: number } {
+  let multiByte = 0;
+  let i = 0;
+
+  while (i < sample.length) {
+    const byte = sample[i];
+    let length = 0;
+
+    if (byte < 0x80) {
+      i++;
+      continue;
+    } else if (byte >= 0xc2 && byte <= 0xdf) {
+      length = 2;
+    } else if (byte >= 0xe0 && byte <= 0xef) {
+      length = 3;
+    } else if (byte >= 0xf0 && byte <= 0xf4) {
+      length = 4;
+    } else {
+      return { valid: false, multiByte };
+    }
+
+    const end = Math.min(i + length, sample.length);
+    for (let j = i + 1; j < end; j++) {
+      if ((sample[j] & 0xc0) !== 0x80) {
+        return { valid: false, multiByte };
+      }
+    }
+    // A sequence cut off by the end of the sample is not evidence either way
+    if (i + length > sample.length) break;
+
+    multiByte++;
+    i += length;
+  }
+
+  return { valid: true, multiByte };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { columnReference, compileExpression } from './expressions';
+
+describe('compileExpression', () => {
+  it.each([
+    ['brackets', '('.repeat(20000) + '1' + ')'.repeat(20000)],
+    ['minus signs', '-'.repeat(20000) + '1'],
+    ['not', 'not '.repeat(20000) + 'true'],
+    ['a long sum', Array(20000).fill('1').join(' + ')]
+  ])('reports deeply nested %s as an issue', (_, source) => {
+    const { expression, issues } = compileExpression(source, []);
+    expect(expression).toBeUndefined();
+    expect(issues).toEqual([expect.objectContaining({ message: 'Expression is nested more than 200 levels deep' })]);
+  });
+
+  it('evaluates expressions nested within the limit', () => {
+    const { expression } = compileExpression('('.repeat(150) + '21 * 2' + ')'.repeat(150), []);
+    expect(expression?.evaluate([])).toBe(42);
+  });
+
+  it.each(['constructor', '__proto__', 'toString', 'hasOwnProperty', 'valueOf'])('reports %s() as an unknown function', name => {
+    expect(compileExpression(`${name}(1)`, ['a'])).toEqual({
+      issues: [{ message: `Unknown function ${name}()`, start: 0, end: name.length }]
+    });
+  });
+
+  it('reads a column named like an Object.prototype member', () => {
+    const { expression, issues } = compileExpression('constructor & "!"', ['constructor']);
+    expect(issues).toEqual([]);
+    expect(expression?.evaluate(['x'])).toBe('x!');
+    expect(columnReference('constructor')).toBe('constructor');
+  });
+});
@@ -0,0 +1,842 @@
+import {
+  ColumnSchema,
+  ColumnType,
+  DateFormat,
+  TypedValue,
+  coerceValue,
+  isBlank,
+  parseBoolean,
+  parseDate,
+  parseNumber
+} from './typeInference';
+
+/**
+ * A small expression language for computed columns, e.g.
+ * `price * 1.15 if currency == 'USD' else price` or
+ * `join(' ', brand, model, [Size (cm)])`. Expressions are parsed and type
+ * checked against the file's columns, then interpreted row by row; nothing
+ * is ever handed to `eval`.
+ */
+
+export type ValueType = 'number' | 'string' | 'boolean' | 'date' | 'any';
+
+/** A problem with the expression text, at characters `start`–`end`. */
+export interface ExpressionIssue {
+  message: string;
+  start: number;
+  end: number;
+}
+
+/** A row whose values the expression could not be evaluated on. */
+export interface ExpressionRowError {
+  /** Index of the row in the rows evaluated. */
+  row: number;
+  message: string;
+}
+
+export interface CompiledExpression {
+  source: string;
+  type: ValueType;
+  /** Throws `ExpressionError` when the row's values don't fit, e.g. text in a number column. */
+  evaluate: (row: unknown[]) => TypedValue;
+}
+
+export interface Completion {
+  label: string;
+  /** Text replacing the word being typed. */
+  insert: string;
+  kind: 'column' | 'function';
+  detail: string;
+}
+
+export class ExpressionError extends Error {}
+
+interface FunctionDef {
+  params: ValueType[];
+  /** Parameters from this index on may be left out. */
+  required?: number;
+  /** Type of any further arguments. */
+  rest?: ValueType;
+  returns: ValueType | ((args: ValueType[]) => ValueType);
+  description: string;
+  run: (args: TypedValue[]) => TypedValue;
+}
+
+const DAY = 86400000;
+const DATE_FORMATS: DateFormat[] = ['iso', 'dmy', 'mdy', 'ymd', 'excel-serial'];
+
+// Text functions pass blanks through as blank
+const text = (fn: (value: string, ...args: TypedValue[]) => TypedValue) =>
+  (args: TypedValue[]) => (args[0] === null ? null : fn(String(args[0]), ...args.slice(1)));
+const math = (fn: (...values: number[]) => number) =>
+  (args: TypedValue[]) => (args.some(arg => arg === null) ? null : fn(...(args as number[])));
+const dateParts = (value: string) => value.slice(0, 10).split('-').map(Number);
+const dayNumber = (value: string) => {
+  const [year, month, day] = dateParts(value);
+  return Date.UTC(year, month - 1, day) / DAY;
+};
+
+const FUNCTIONS: Record<string, FunctionDef> = {
+  upper: { params: ['string'], returns: 'string', description: 'Upper case', run: text(value => value.toUpperCase()) },
+  lower: { params: ['string'], returns: 'string', description: 'Lower case', run: text(value => value.toLowerCase()) },
+  title: {
+    params: ['string'],
+    returns: 'string',
+    description: 'Capitalizes each word',
+    run: text(value => value.toLowerCase().replace(/(^|\s)\p{L}/gu, letter => letter.toUpperCase()))
+  },
+  trim: {
+    params: ['string'],
+    returns: 'string',
+    description: 'Removes outer spaces and collapses inner ones',
+    run: text(value => value.trim().replace(/\s+/g, ' '))
+  },
+  len: { params: ['string'], returns: 'number', description: 'Number of characters', run: text(value => value.length) },
+  left: {
+    params: ['string', 'number'],
+    returns: 'string',
+    description: 'First n characters',
+    run: text((value, n) => value.slice(0, Math.max(0, Number(n))))
+  },
+  right: {
+    params: ['string', 'number'],
+    returns: 'string',
+    description: 'Last n characters',
+    run: text((value, n) => (Number(n) > 0 ? value.slice(-Number(n)) : ''))
+  },
+  substr: {
+    params: ['string', 'number', 'number'],
+    required: 2,
+    returns: 'string',
+    description: 'Characters from a position (1 is the first), optionally only so many',
+    run: text((value, start, length) => {
+      const from = Math.max(0, Number(start) - 1);
+      return length === undefined || length === null ? value.slice(from) : value.slice(from, from + Number(length));
+    })
+  },
+  replace: {
+    params: ['string', 'string', 'string'],
+    returns: 'string',
+    description: 'Replaces every occurrence of a text',
+    run: text((value, find, replacement) => (find ? value.split(String(find)).join(String(replacement ?? '')) : value))
+  },
+  contains: {
+    params: ['string', 'string'],
+    returns: 'boolean',
+    description: 'Whether the text contains another',
+    run: text((value, part) => value.includes(String(part ?? '')))
+  },
+  startswith: {
+    params: ['string', 'string'],
+    returns: 'boolean',
+    description: 'Whether the text starts with another',
+    run: text((value, part) => value.startsWith(String(part ?? '')))
+  },
+  endswith: {
+    params: ['string', 'string'],
+    returns: 'boolean',
+    description: 'Whether the text ends with another',
+    run: text((value, part) => value.endsWith(String(part ?? '')))
+  },
+  pad: {
+    params: ['string', 'number', 'string'],
+    required: 2,
+    returns: 'string',
+    description: 'Pads on the left to a length, with zeros unless another fill is given',
+    run: text((value, length, fill) => value.padStart(Number(length), fill ? String(fill) : '0'))
+  },
+  concat: {
+    params: [],
+    rest: 'any',
+    returns: 'string',
+    description: 'Joins values as text, skipping blanks',
+    run: args => args.filter(arg => arg !== null).map(String).join('')
+  },
+  join: {
+    params: ['string'],
+    rest: 'any',
+    returns: 'string',
+    description: 'Joins values with a separator, skipping blanks',
+    run: ([separator, ...values]) => values.filter(value => !isBlank(value)).map(String).join(String(separator ?? ''))
+  },
+  text: {
+    params: ['any', 'number'],
+    required: 1,
+    returns: 'string',
+    description: 'A value as text; numbers with a fixed number of decimals if given',
+    run: ([value, digits]) => {
+      if (value === null) return null;
+      return typeof value === 'number' && digits !== undefined && digits !== null ? value.toFixed(Number(digits)) : String(value);
+    }
+  },
+
+  number: {
+    params: ['any'],
+    returns: 'number',
+    description: 'Reads a number from text',
+    run: ([value]) => convert(value, 'number', 'number() argument 1')
+  },
+  round: {
+    params: ['number', 'number'],
+    required: 1,
+    returns: 'number',
+    description: 'Rounds to a number of decimals (0 if left out)',
+    run: ([value, digits]) => {
+      if (value === null) return null;
+      const factor = 10 ** Number(digits ?? 0);
+      return Math.round((Number(value) + Number.EPSILON) * factor) / factor;
+    }
+  },
+  floor: { params: ['number'], returns: 'number', description: 'Rounds down', run: math(Math.floor) },
+  ceil: { params: ['number'], returns: 'number', description: 'Rounds up', run: math(Math.ceil) },
+  abs: { params: ['number'], returns: 'number', description: 'Absolute value', run: math(Math.abs) },
+  min: { params: ['number'], rest: 'number', returns: 'number', description: 'Smallest value', run: math(Math.min) },
+  max: { params: ['number'], rest: 'number', returns: 'number', description: 'Largest value', run: math(Math.max) },
+
+  today: {
+    params: [],
+    returns: 'date',
+    description: "Today's date",
+    run: () => {
+      const now = new Date();
+      return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())).toISOString().slice(0, 10);
+    }
+  },
+  date: {
+    params: ['any', 'string'],
+    required: 1,
+    returns: 'date',
+    description: `Reads a date, by default as YYYY-MM-DD; formats: ${DATE_FORMATS.join(', ')}`,
+    run: ([value, format]) => {
+      if (value === null) return null;
+      const dateFormat = (format ?? 'iso') as DateFormat;
+      if (!DATE_FORMATS.includes(dateFormat)) {
+        throw new ExpressionError(`Unknown date format "${format}"; use one of ${DATE_FORMATS.join(', ')}`);
+      }
+      const date = parseDate(value, dateFormat);
+      if (date === null) throw new ExpressionError(`"${value}" is not a ${dateFormat} date`);
+      return date;
+    }
+  },
+  year: { params: ['date'], returns: 'number', description: 'Year of a date', run: text(value => dateParts(value)[0]) },
+  month: { params: ['date'], returns: 'number', description: 'Month of a date (1–12)', run: text(value => dateParts(value)[1]) },
+  day: { params: ['date'], returns: 'number', description: 'Day of the month', run: text(value => dateParts(value)[2]) },
+  adddays: {
+    params: ['date', 'number'],
+    returns: 'date',
+    description: 'A date so many days later (or earlier, if negative)',
+    run: ([value, days]) => (value === null || days === null
+      ? null
+      : new Date((dayNumber(String(value)) + Number(days)) * DAY).toISOString().slice(0, 10))
+  },
+  datediff: {
+    params: ['date', 'date'],
+    returns: 'number',
+    description: 'Days from the second date to the first',
+    run: ([a, b]) => (a === null || b === null ? null : dayNumber(String(a)) - dayNumber(String(b)))
+  },
+
+  coalesce: {
+    params: ['any'],
+    rest: 'any',
+    returns: args => sameType(args),
+    description: 'The first value that is not blank',
+    run: args => args.find(arg => !isBlank(arg)) ?? null
+  },
+  isblank: {
+    params: ['any'],
+    returns: 'boolean',
+    description: 'Whether the value is blank',
+    run: ([value]) => isBlank(value)
+  },
+  in: {
+    params: ['any', 'any'],
+    rest: 'any',
+    returns: 'boolean',
+    description: 'Whether the value equals any of the others',
+    run: ([value, ...options]) => options.some(option => equals(value, option))
+  },
+  lookup: {
+    params: ['any', 'any', 'any'],
+    rest: 'any',
+    returns: args => sameType(args.filter((_, i) => i > 0 && (i % 2 === 0 || i === args.length - 1))),
+    description: 'lookup(value, key1, result1, key2, result2, …, default): the result for the matching key',
+    run: ([value, ...pairs]) => {
+      for (let i = 0; i + 1 < pairs.length; i += 2) {
+        if (equals(value, pairs[i])) return pairs[i + 1];
+      }
+      return pairs.length % 2 === 1 ? pairs[pairs.length - 1] : null;
+    }
+  }
+};
+
+// Own entries only, so names like "constructor" aren't taken from Object.prototype
+function findFunction(name: string): FunctionDef | undefined {
+  return Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+}
+
+const KEYWORDS = ['and', 'or', 'not', 'if', 'else', 'true', 'false', 'null'];
+
+/**
+ * Parses and type checks an expression over the file's columns. Columns
+ * are referenced by header, as a plain name or in brackets (`[Unit price]`);
+ * their types come from the inferred schema.
+ */
+export function compileExpression(
+  source: string,
+  headers: string[],
+  schema?: ColumnSchema[]
+): { expression?: CompiledExpression; issues: ExpressionIssue[] } {
+  let root: Node;
+  let parser: Parser;
+  try {
+    parser = new Parser(source, headers, schema);
+    root = parser.parse();
+  } catch (error) {
+    if (error instanceof ParseFailure) return { issues: [error.issue] };
+    throw error;
+  }
+  if (parser.issues.length > 0) return { issues: parser.issues };
+
+  const columns = headers.map((_, index) => schema?.find(column => column.index === index));
+  return {
+    issues: [],
+    expression: {
+      source,
+      type: root.type,
+      evaluate: row => evaluate(root, row, columns)
+    }
+  };
+}
+
+/** Evaluates the expression on each row, collecting failures instead of stopping at the first. */
+export function evaluateRows(expression: CompiledExpression, rows: unknown[][]): { values: TypedValue[]; errors: ExpressionRowError[] } {
+  const errors: ExpressionRowError[] = [];
+  const values = rows.map((row, index) => {
+    try {
+      return expression.evaluate(row);
+    } catch (error) {
+      if (!(error instanceof ExpressionError)) throw error;
+      errors.push({ row: index, message: error.message });
+      return null;
+    }
+  });
+  return { values, errors };
+}
+
+/**
+ * Columns and functions that could complete the name being typed at
+ * `cursor`, and where that name starts.
+ */
+export function completeExpression(source: string, cursor: number, headers: string[], limit = 8): { from: number; items: Completion[] } {
+  const before = source.slice(0, cursor);
+  const bracket = before.match(/\[([^\]]*)$/);
+  const word = bracket ? bracket[1] : before.match(/[\p{L}_][\p{L}\p{N}_]*$/u)?.[0];
+  if (word === undefined || (!bracket && word === '')) return { from: cursor, items: [] };
+
+  const prefix = word.toLowerCase();
+  const columns: Completion[] = headers
+    .filter(header => header && header.toLowerCase().includes(prefix))
+    .map(header => ({ label: header, insert: columnReference(header), kind: 'column', detail: 'column' }));
+  const functions: Completion[] = bracket ? [] : Object.entries(FUNCTIONS)
+    .filter(([name]) => name.startsWith(prefix))
+    .map(([name, def]) => ({ label: name, insert: `${name}(`, kind: 'function', detail: `${signature(name, def)} • ${def.description}` }));
+
+  // Prefix matches first
+  const rank = (item: Completion) => (item.label.toLowerCase().startsWith(prefix) ? 0 : 1);
+  return {
+    from: cursor - word.length - (bracket ? 1 : 0),
+    items: [...columns, ...functions].sort((a, b) => rank(a) - rank(b)).slice(0, limit)
+  };
+}
+
+/** How a header is written in an expression. */
+export function columnReference(header: string): string {
+  return /^[\p{L}_][\p{L}\p{N}_]*$/u.test(header) && !KEYWORDS.includes(header.toLowerCase()) && !findFunction(header.toLowerCase())
+    ? header
+    : `[${header}]`;
+}
+
+function signature(name: string, def: FunctionDef): string {
+  const required = def.required ?? def.params.length;
+  const params = def.params.map((type, i) => (i < required ? type : `${type}?`));
+  if (def.rest) params.push(`…${def.rest}`);
+  return `${name}(${params.join(', ')}) → ${typeof def.returns === 'string' ? def.returns : 'any'}`;
+}
+
+// --- Parsing --------------------------------------------------------------
+
+interface Token {
+  kind: 'number' | 'string' | 'name' | 'column' | 'keyword' | 'op' | 'end';
+  text: string;
+  value?: string | number;
+  start: number;
+  end: number;
+}
+
+interface Span {
+  type: ValueType;
+  start: number;
+  end: number;
+}
+
+type Node = Span & (
+  | { kind: 'literal'; value: TypedValue }
+  | { kind: 'column'; index: number; name: string }
+  | { kind: 'unary'; op: '-' | 'not'; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'conditional'; test: Node; then: Node; otherwise?: Node }
+  | { kind: 'call'; name: string; args: Node[] }
+);
+
+class ParseFailure extends Error {
+  constructor(readonly issue: ExpressionIssue) {
+    super(issue.message);
+  }
+}
+
+const OPERATORS = ['==', '!=', '<>', '<=', '>=', '&&', '||', '<', '>', '=', '+', '-', '*', '/', '%', '&', '!', '(', ')', ','];
+const COMPARISONS = ['==', '!=', '<', '<=', '>', '>='];
+// Spellings borrowed from spreadsheets and C
+const ALIASES: Record<string, string> = { '=': '==', '<>': '!=', '&&': 'and', '||': 'or', '!': 'not' };
+// Parsing and evaluating recurse, so deeper expressions would overflow the stack
+const MAX_DEPTH = 200;
+const TOO_DEEP = `Expression is nested more than ${MAX_DEPTH} levels deep`;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const start = i;
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = source.slice(i).match(/^\d+(\.\d+)?/);
+    const name = source.slice(i).match(/^[\p{L}_][\p{L}\p{N}_]*/u);
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+
+    if (number) {
+      i += number[0].length;
+      tokens.push({ kind: 'number', text: number[0], value: Number(number[0]), start, end: i });
+    } else if (name) {
+      i += name[0].length;
+      const lower = name[0].toLowerCase();
+      tokens.push({ kind: KEYWORDS.includes(lower) ? 'keyword' : 'name', text: KEYWORDS.includes(lower) ? lower : name[0], start, end: i });
+    } else if (char === "'" || char === '"') {
+      let value = '';
+      for (i++; i < source.length && source[i] !== char; i++) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i];
+      }
+      if (i >= source.length) throw new ParseFailure({ message: 'Text is missing its closing quote', start, end: i });
+      i++;
+      tokens.push({ kind: 'string', text: source.slice(start, i), value, start, end: i });
+    } else if (char === '[') {
+      const close = source.indexOf(']', i);
+      if (close < 0) throw new ParseFailure({ message: 'Column name is missing its closing ]', start, end: source.length });
+      i = close + 1;
+      tokens.push({ kind: 'column', text: source.slice(start, i), value: source.slice(start + 1, close), start, end: i });
+    } else if (operator) {
+      i += operator.length;
+      const normalized = ALIASES[operator] ?? operator;
+      tokens.push({ kind: ['and', 'or', 'not'].includes(normalized) ? 'keyword' : 'op', text: normalized, start, end: i });
+    } else {
+      throw new ParseFailure({ message: `Unexpected character "${char}"`, start, end: start + 1 });
+    }
+  }
+
+  tokens.push({ kind: 'end', text: 'end of expression', start: source.length, end: source.length });
+  return tokens;
+}
+
+/** Recursive descent, lowest precedence first; types are worked out on the way. */
+class Parser {
+  readonly issues: ExpressionIssue[] = [];
+  private tokens: Token[];
+  private position = 0;
+  private depth = 0;
+
+  constructor(source: string, private headers: string[], private schema?: ColumnSchema[]) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): Node {
+    if (this.peek().kind === 'end') this.fail('Expression is empty', this.peek());
+    const node = this.conditional();
+    if (this.peek().kind !== 'end') this.fail(`Unexpected "${this.peek().text}"`, this.peek());
+    // Chains like a + b + c are parsed in a loop but still make a deep tree
+    if (treeDepth(node) > MAX_DEPTH) throw new ParseFailure({ message: TOO_DEEP, start: node.start, end: node.end });
+    return node;
+  }
+
+  // value if test else other
+  private conditional(): Node {
+    return this.nested(this.peek(), () => {
+      const then = this.or();
+      if (!this.accept('if')) return then;
+      const test = this.or();
+      const otherwise = this.accept('else') ? this.conditional() : undefined;
+      return this.makeConditional(test, then, otherwise, then.start, (otherwise ?? test).end);
+    });
+  }
+
+  private or(): Node {
+    let left = this.and();
+    while (this.accept('or')) left = this.logical('or', left, this.and());
+    return left;
+  }
+
+  private and(): Node {
+    let left = this.not();
+    while (this.accept('and')) left = this.logical('and', left, this.not());
+    return left;
+  }
+
+  private not(): Node {
+    const token = this.peek();
+    if (!this.accept('not')) return this.comparison();
+    const operand = this.nested(token, () => this.not());
+    this.expect(operand, 'boolean', '"not"');
+    return { kind: 'unary', op: 'not', operand, type: 'boolean', start: token.start, end: operand.end };
+  }
+
+  private comparison(): Node {
+    const left = this.concat();
+    const token = this.peek();
+    if (token.kind !== 'op' || !COMPARISONS.includes(token.text)) return left;
+    this.position++;
+    const right = this.concat();
+
+    if (left.type !== 'any' && right.type !== 'any' && left.type !== right.type) {
+      this.issue(`Comparing ${left.type} with ${right.type}`, left.start, right.end);
+    } else if (token.text !== '==' && token.text !== '!=' && left.type === 'boolean') {
+      this.issue(`"${token.text}" cannot order true/false values`, token.start, token.end);
+    }
+    return { kind: 'binary', op: token.text, left, right, type: 'boolean', start: left.start, end: right.end };
+  }
+
+  private concat(): Node {
+    let left = this.additive();
+    while (this.accept('&')) {
+      const right = this.additive();
+      left = { kind: 'binary', op: '&', left, right, type: 'string', start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private additive(): Node {
+    let left = this.multiplicative();
+    for (let op = this.acceptOne(['+', '-']); op; op = this.acceptOne(['+', '-'])) {
+      left = this.arithmetic(op, left, this.multiplicative());
+    }
+    return left;
+  }
+
+  private multiplicative(): Node {
+    let left = this.unary();
+    for (let op = this.acceptOne(['*', '/', '%']); op; op = this.acceptOne(['*', '/', '%'])) {
+      left = this.arithmetic(op, left, this.unary());
+    }
+    return left;
+  }
+
+  private unary(): Node {
+    const token = this.peek();
+    if (!this.accept('-')) return this.primary();
+    const operand = this.nested(token, () => this.unary());
+    this.expect(operand, 'number', '"-"');
+    return { kind: 'unary', op: '-', operand, type: 'number', start: token.start, end: operand.end };
+  }
+
+  private primary(): Node {
+    const token = this.next();
+    switch (token.kind) {
+      case 'number':
+        return { kind: 'literal', value: token.value as number, type: 'number', start: token.start, end: token.end };
+      case 'string':
+        return { kind: 'literal', value: token.value as string, type: 'string', start: token.start, end: token.end };
+      case 'column':
+        return this.column(String(token.value), token);
+      case 'name':
+        return this.peek().text === '(' ? this.call(token) : this.column(token.text, token);
+      case 'keyword':
+        if (token.text === 'true' || token.text === 'false') {
+          return { kind: 'literal', value: token.text === 'true', type: 'boolean', start: token.start, end: token.end };
+        }
+        if (token.text === 'null') return { kind: 'literal', value: null, type: 'any', start: token.start, end: token.end };
+        if (token.text === 'if' && this.peek().text === '(') return this.ifCall(token);
+        break;
+      case 'op':
+        if (token.text === '(') {
+          const node = this.conditional();
+          this.require(')');
+          return node;
+        }
+        break;
+    }
+    return this.fail(token.kind === 'end' ? 'Expression ends too early' : `Unexpected "${token.text}"`, token);
+  }
+
+  private column(name: string, token: Token): Node {
+    const index = findColumn(name, this.headers);
+    if (index < 0) {
+      this.issue(`Unknown column "${name}"`, token.start, token.end);
+      return { kind: 'literal', value: null, type: 'any', start: token.start, end: token.end };
+    }
+    const column = this.schema?.find(c => c.index === index);
+    return { kind: 'column', index, name: this.headers[index], type: columnType(column?.type), start: token.start, end: token.end };
+  }
+
+  private call(token: Token): Node {
+    const args = this.arguments();
+    const end = this.tokens[this.position - 1].end;
+    const def = findFunction(token.text.toLowerCase());
+    if (!def) {
+      this.issue(`Unknown function ${token.text}()`, token.start, token.end);
+      return { kind: 'call', name: token.text, args, type: 'any', start: token.start, end };
+    }
+
+    const name = token.text.toLowerCase();
+    const required = def.required ?? def.params.length;
+    if (args.length < required || (!def.rest && args.length > def.params.length)) {
+      const count = def.rest
+        ? `at least ${required}`
+        : required === def.params.length ? String(required) : `${required} to ${def.params.length}`;
+      this.issue(`${name}() takes ${count} arguments, not ${args.length}`, token.start, end);
+    }
+    args.forEach((arg, i) => this.expect(arg, def.params[i] ?? def.rest ?? 'any', `${name}() argument ${i + 1}`));
+
+    const type = typeof def.returns === 'function' ? def.returns(args.map(arg => arg.type)) : def.returns;
+    return { kind: 'call', name, args, type, start: token.start, end };
+  }
+
+  // if(test, then, else) is the same as "then if test else else"
+  private ifCall(token: Token): Node {
+    const args = this.arguments();
+    const end = this.tokens[this.position - 1].end;
+    if (args.length < 2 || args.length > 3) this.fail(`if() takes 2 to 3 arguments, not ${args.length}`, token);
+    return this.makeConditional(args[0], args[1], args[2], token.start, end);
+  }
+
+  private arguments(): Node[] {
+    this.require('(');
+    const args: Node[] = [];
+    if (this.accept(')')) return args;
+    do {
+      args.push(this.conditional());
+    } while (this.accept(','));
+    this.require(')');
+    return args;
+  }
+
+  private makeConditional(test: Node, then: Node, otherwise: Node | undefined, start: number, end: number): Node {
+    this.expect(test, 'boolean', 'The condition');
+    if (otherwise && then.type !== 'any' && otherwise.type !== 'any' && then.type !== otherwise.type) {
+      this.issue(`Both outcomes must have the same type, not ${then.type} and ${otherwise.type}`, start, end);
+    }
+    return { kind: 'conditional', test, then, otherwise, type: sameType([then.type, otherwise?.type ?? then.type]), start, end };
+  }
+
+  private logical(op: 'and' | 'or', left: Node, right: Node): Node {
+    this.expect(left, 'boolean', `"${op}"`);
+    this.expect(right, 'boolean', `"${op}"`);
+    return { kind: 'binary', op, left, right, type: 'boolean', start: left.start, end: right.end };
+  }
+
+  private arithmetic(op: string, left: Node, right: Node): Node {
+    this.expect(left, 'number', `"${op}"`);
+    this.expect(right, 'number', `"${op}"`);
+    return { kind: 'binary', op, left, right, type: 'number', start: left.start, end: right.end };
+  }
+
+  private nested(token: Token, parse: () => Node): Node {
+    if (++this.depth > MAX_DEPTH) this.fail(TOO_DEEP, token);
+    const node = parse();
+    this.depth--;
+    return node;
+  }
+
+  private expect(node: Node, type: ValueType, what: string) {
+    if (type !== 'any' && node.type !== 'any' && node.type !== type) {
+      const hint = type === 'string' && node.type === 'number'
+        ? '; use text() to convert'
+        : type === 'number' && node.type === 'string' ? '; use number() to convert' : '';
+      this.issue(`${what} needs ${type}, not ${node.type}${hint}`, node.start, node.end);
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    if (token.kind !== 'end') this.position++;
+    return token;
+  }
+
+  private accept(text: string): boolean {
+    const token = this.peek();
+    if ((token.kind === 'op' || token.kind === 'keyword') && token.text === text) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptOne(texts: string[]): string | undefined {
+    return texts.find(text => this.accept(text));
+  }
+
+  private require(text: string) {
+    if (!this.accept(text)) this.fail(`Expected "${text}" but found ${this.peek().kind === 'end' ? 'the end' : `"${this.peek().text}"`}`, this.peek());
+  }
+
+  private issue(message: string, start: number, end: number) {
+    this.issues.push({ message, start, end });
+  }
+
+  private fail(message: string, token: Token): never {
+    throw new ParseFailure({ message, start: token.start, end: token.end });
+  }
+}
+
+function treeDepth(root: Node): number {
+  let deepest = 0;
+  const stack: [Node, number][] = [[root, 1]];
+  while (stack.length > 0) {
+    const [node, depth] = stack.pop()!;
+    deepest = Math.max(deepest, depth);
+    const children = node.kind === 'unary' ? [node.operand]
+      : node.kind === 'binary' ? [node.left, node.right]
+        : node.kind === 'conditional' ? [node.test, node.then, ...(node.otherwise ? [node.otherwise] : [])]
+          : node.kind === 'call' ? node.args : [];
+    for (const child of children) stack.push([child, depth + 1]);
+  }
+  return deepest;
+}
+
+// Exact header first, then ignoring case, spaces and underscores
+function findColumn(name: string, headers: string[]): number {
+  const exact = headers.indexOf(name);
+  if (exact >= 0) return exact;
+  const simple = (header: string) => header.toLowerCase().replace(/[\s_\-.]+/g, '');
+  return headers.findIndex(header => simple(header) === simple(name));
+}
+
+function columnType(type: ColumnType | undefined): ValueType {
+  switch (type) {
+    case 'integer':
+    case 'decimal':
+    case 'money':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'date':
+      return 'date';
+    default:
+      return 'string';
+  }
+}
+
+function sameType(types: ValueType[]): ValueType {
+  const known = types.filter(type => type !== 'any');
+  return known.length > 0 && known.every(type => type === known[0]) ? known[0] : 'any';
+}
+
+// --- Evaluation -----------------------------------------------------------
+
+function evaluate(node: Node, row: unknown[], columns: (ColumnSchema | undefined)[]): TypedValue {
+  const run = (child: Node) => evaluate(child, row, columns);
+
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'column': {
+      const raw = row[node.index];
+      if (isBlank(raw)) return null;
+      const column = columns[node.index];
+      return convert(column ? coerceValue(raw, column) : String(raw).trim(), node.type, node.name);
+    }
+    case 'unary': {
+      const value = run(node.operand);
+      if (node.op === 'not') return value !== true;
+      return value === null ? null : -(convert(value, 'number', '"-"') as number);
+    }
+    case 'conditional':
+      if (run(node.test) === true) return run(node.then);
+      return node.otherwise ? run(node.otherwise) : null;
+    case 'call': {
+      const def = findFunction(node.name)!;
+      const args = node.args.map((arg, i) => convert(run(arg), def.params[i] ?? def.rest ?? 'any', `${node.name}() argument ${i + 1}`));
+      return def.run(args);
+    }
+    case 'binary':
+      return binary(node.op, node.left, node.right, run);
+  }
+}
+
+function binary(op: string, leftNode: Node, rightNode: Node, run: (node: Node) => TypedValue): TypedValue {
+  // Both sides are only needed when the left doesn't decide
+  if (op === 'and') return run(leftNode) === true && run(rightNode) === true;
+  if (op === 'or') return run(leftNode) === true || run(rightNode) === true;
+
+  const left = run(leftNode);
+  const right = run(rightNode);
+  if (op === '&') return `${left ?? ''}${right ?? ''}`;
+  if (op === '==') return equals(left, right);
+  if (op === '!=') return !equals(left, right);
+  if (left === null || right === null) return COMPARISONS.includes(op) ? false : null;
+
+  if (COMPARISONS.includes(op)) {
+    const [a, b] = typeof left === 'number' || typeof right === 'number'
+      ? [convert(left, 'number', `"${op}"`)!, convert(right, 'number', `"${op}"`)!]
+      : [String(left), String(right)];
+    return op === '<' ? a < b : op === '<=' ? a <= b : op === '>' ? a > b : a >= b;
+  }
+
+  const a = convert(left, 'number', `"${op}"`) as number;
+  const b = convert(right, 'number', `"${op}"`) as number;
+  if ((op === '/' || op === '%') && b === 0) throw new ExpressionError('Division by zero');
+  const result = op === '+' ? a + b : op === '-' ? a - b : op === '*' ? a * b : op === '/' ? a / b : a % b;
+  if (!Number.isFinite(result)) throw new ExpressionError(`"${op}" gave a result too large to store`);
+  return result;
+}
+
+function equals(a: TypedValue, b: TypedValue): boolean {
+  if (a === null || b === null) return a === b;
+  if (typeof a === 'number' || typeof b === 'number') {
+    return parseNumber(a) !== null && parseNumber(a) === parseNumber(b);
+  }
+  return String(a) === String(b);
+}
+
+/** Reads a value as the type the expression expects, or fails the row. */
+function convert(value: TypedValue, type: ValueType, what: string): TypedValue {
+  if (value === null) return null;
+  switch (type) {
+    case 'number': {
+      const number = parseNumber(value) ?? parseNumber(value, ',');
+      if (number === null) throw new ExpressionError(`${what} is "${value}", not a number`);
+      return number;
+    }
+    case 'boolean': {
+      const boolean = parseBoolean(value);
+      if (boolean === null) throw new ExpressionError(`${what} is "${value}", not true or false`);
+      return boolean;
+    }
+    case 'date': {
+      const date = parseDate(value, 'iso');
+      if (date === null) throw new ExpressionError(`${what} is "${value}", not a date`);
+      return date;
+    }
+    case 'string':
+      return String(value);
+    default:
+      return value;
+  }
+}
@@ -1,228 +1,433 @@
+import { ParseIssue, CsvParseOptions } from './csvParser';
+import { readClipboardTable, toTsv } from './clipboardTable';
+import { DetectedEncoding, detectEncoding } from './encoding';
+import { ChildRecordSet } from './jsonFlattener';
+import { FixedWidthColumn, FixedWidthLayout } from './fixedWidth';
+import { layoutStore } from './layoutStore';
+import { ImageAsset, imageKey, isImageFile } from './imageCatalog';
+import { extractZipEntry, readZipEntries } from './zipArchive';
+import { formatRegistry } from './formatRegistry';
+import { HeaderDetection, HeaderOverride } from './headerDetection';
+import { ColumnSchema, FileLocale, LocaleOverrides, detectLocale, inferSchema } from './typeInference';
+import { XmlExtraction, XmlMappingOptions, extractXmlRecords, parseXml } from './xmlCatalog';
+import { ArrayRowSource, DEFAULT_PAGE_SIZE, RowSource, WorkerRowSource } from './rowSource';
+import type { ParseKind, ParseProgress, ParseWorkerResponse } from '@/workers/parseProtocol';
 
-import * as XLSX from 'xlsx';
+export type { ParseProgress } from '@/workers/parseProtocol';
+
+export interface SheetData {
+  name: string;
+  headers: string[];
+  header?: HeaderDetection;
+  rows: unknown[][];
+  totalRows: number;
+  hidden: boolean;
+  empty: boolean;
+}
 
 export interface ProcessedData {
   headers: string[];
+  /**
+   * Rows held in memory. For large delimited files this is only the first
+   * page; read the complete set through `rowSource`.
+   */
   rows: any[][];
+  rowSource: RowSource;
   preview: any[];
   totalRows: number;
   fileName: string;
   fileType: string;
+  sheetName?: string;
+  sheets?: SheetData[];
+  /** Inferred column types, from up to the first 1000 rows. */
+  schema?: ColumnSchema[];
+  /** Number, date and currency conventions detected for the whole file. */
+  locale?: FileLocale;
+  /** Which rows the headers were taken from, for review in the preview. */
+  header?: HeaderDetection;
+  parseErrors?: ParseIssue[];
+  /** Text encoding the file was decoded with (delimited files only). */
+  encoding?: DetectedEncoding;
+  /** Field delimiter the file was split on (delimited files only). */
+  delimiter?: string;
+  /** Quote and escape characters given for reading a delimited file. */
+  quote?: string;
+  escape?: string;
+  /** Column layout, when a text file was read as fixed-width. */
+  fixedWidth?: FixedWidthLayout;
+  /** First raw lines of a text file, for laying out fixed-width columns. */
+  sampleLines?: string[];
+  /** Records built from arrays inside JSON records (images, variants, ...). */
+  childRecords?: ChildRecordSet[];
+  /** How records and fields were picked out of an XML catalog. */
+  xml?: Omit<XmlExtraction, 'headers' | 'rows'>;
+}
+
+export interface ExtractedArchive {
+  /** Data files with their path inside the archive. */
+  dataFiles: { path: string; file: File }[];
+  images: ImageAsset[];
+  /** Entries that were neither, or could not be extracted, with the reason. */
+  skipped: { path: string; reason: string }[];
+}
+
+export interface ProcessOptions {
+  csv?: CsvParseOptions;
+  /** Forces a text encoding instead of detecting it, e.g. 'windows-1252'. */
+  encoding?: string;
+  xml?: XmlMappingOptions;
+  /** Forces the header row instead of detecting it. */
+  header?: HeaderOverride;
+  /** Per-column decimal separator, date format or currency. */
+  locale?: LocaleOverrides;
+  /**
+   * Reads a text file as fixed-width columns. Defaults to the saved layout
+   * matching the file name; `false` parses it as delimited.
+   */
+  fixedWidth?: FixedWidthColumn[] | false;
+  /** Number of rows kept in `ProcessedData.rows` for worker-parsed files. */
+  pageSize?: number;
+  onProgress?: (progress: ParseProgress) => void;
+  /** Called with the first rows as soon as they are parsed. */
+  onPreview?: (preview: Pick<ProcessedData, 'headers' | 'preview'>) => void;
 }
 
 export class FileService {
-  async processFile(file: File): Promise<ProcessedData> {
-    const fileType = this.getFileType(file.name);
+  async processFile(file: File, options: ProcessOptions = {}): Promise<ProcessedData> {
+    const format = await formatRegistry.detect(file);
+    let data: ProcessedData;
     
-    switch (fileType) {
+    switch (format?.kind) {
       case 'excel':
-        return this.processExcelFile(file);
+        data = await this.processExcelFile(file, options);
+        break;
       case 'csv':
-        return this.processCSVFile(file);
+        data = await this.processCSVFile(file, options);
+        break;
       case 'text':
-        return this.processTextFile(file);
+        data = await this.processTextFile(file, options);
+        break;
+      case 'json':
+      case 'ndjson':
+        data = await this.processJsonFile(file, format.kind, options);
+        break;
+      case 'xml':
+        data = await this.processXmlFile(file, options);
+        break;
+      case 'archive':
+        throw new Error(`${file.name} is an archive, unpack it with extractArchive first`);
       default:
-        throw new Error(`Unsupported file type: ${fileType}`);
+        throw new Error(`Unsupported file type: ${file.name}`);
     }
+
+    return this.withSchema(data, options.locale);
   }
 
-  private getFileType(fileName: string): string {
-    const extension = fileName.split('.').pop()?.toLowerCase();
-    
-    switch (extension) {
-      case 'xlsx':
-      case 'xls':
-        return 'excel';
-      case 'csv':
-        return 'csv';
-      case 'txt':
-      case 'tsv':
-        return 'text';
-      default:
-        return 'unknown';
-    }
+  /**
+   * Attaches the file locale and inferred column types. Large files are
+   * typed from the rows already in memory, which is the first page.
+   */
+  withSchema(data: ProcessedData, overrides?: LocaleOverrides): ProcessedData {
+    const locale = detectLocale(data.rows);
+    return { ...data, locale, schema: inferSchema(data.headers, data.rows, locale, overrides) };
   }
 
-  private async processExcelFile(file: File): Promise<ProcessedData> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        try {
-          const data = new Uint8Array(e.target?.result as ArrayBuffer);
-          const workbook = XLSX.read(data, { type: 'array' });
-          const sheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-          
-          const headers = jsonData[0] as string[] || [];
-          const rows = jsonData.slice(1) as any[][];
-          const preview = rows.slice(0, 10).map(row => {
-            const obj: any = {};
-            headers.forEach((header, index) => {
-              obj[header] = row[index];
-            });
-            return obj;
-          });
+  /**
+   * Turns a block of cells pasted from a spreadsheet or web page into a
+   * tab-separated file, so it goes through the same parsing, preview and
+   * validation as an upload. Returns null when the clipboard holds no table.
+   */
+  fileFromClipboard(clipboard: DataTransfer): File | null {
+    const grid = readClipboardTable(clipboard.getData('text/html'), clipboard.getData('text/plain'));
+    if (!grid) return null;
 
-          resolve({
-            headers,
-            rows,
-            preview,
-            totalRows: rows.length,
-            fileName: file.name,
-            fileType: 'excel'
-          });
-        } catch (error) {
-          reject(new Error(`Failed to process Excel file: ${error}`));
-        }
-      };
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    return new File([toTsv(grid)], `pasted-${stamp}.tsv`, { type: 'text/tab-separated-values' });
+  }
 
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsArrayBuffer(file);
-    });
+  canProcess(fileName: string): boolean {
+    const format = formatRegistry.fromName(fileName);
+    return !!format && format.kind !== 'archive';
   }
 
-  private async processCSVFile(file: File): Promise<ProcessedData> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        try {
-          const text = e.target?.result as string;
-          const lines = text.split('\n').filter(line => line.trim());
-          const headers = this.parseCSVLine(lines[0]);
-          const rows = lines.slice(1).map(line => this.parseCSVLine(line));
-          
-          const preview = rows.slice(0, 10).map(row => {
-            const obj: any = {};
-            headers.forEach((header, index) => {
-              obj[header] = row[index];
-            });
-            return obj;
-          });
+  /**
+   * Unpacks a ZIP upload in the browser. Data files come back as plain
+   * `File`s to be processed like any other upload; images are catalogued
+   * for matching to SKUs by file name.
+   */
+  async extractArchive(archive: File): Promise<ExtractedArchive> {
+    const result: ExtractedArchive = { dataFiles: [], images: [], skipped: [] };
+    let entries;
+    try {
+      entries = await readZipEntries(archive);
+    } catch (error) {
+      throw new Error(`Failed to read ZIP archive: ${error}`);
+    }
 
-          resolve({
-            headers,
-            rows,
-            preview,
-            totalRows: rows.length,
-            fileName: file.name,
-            fileType: 'csv'
+    for (const entry of entries) {
+      const fileName = entry.path.split('/').pop() || '';
+      // Skip folders and the metadata macOS and Windows leave behind
+      if (entry.directory || entry.path.startsWith('__MACOSX/') || fileName.startsWith('.') || fileName === 'Thumbs.db') {
+        continue;
+      }
+
+      const isData = this.canProcess(fileName);
+      if (!isData && !isImageFile(fileName)) {
+        result.skipped.push({ path: entry.path, reason: 'unsupported file type' });
+        continue;
+      }
+
+      try {
+        const file = new File([await extractZipEntry(archive, entry)], fileName);
+        if (isData) {
+          result.dataFiles.push({ path: entry.path, file });
+        } else {
+          result.images.push({
+            path: entry.path,
+            fileName,
+            key: imageKey(fileName),
+            size: file.size,
+            archive: archive.name,
+            file
           });
-        } catch (error) {
-          reject(new Error(`Failed to process CSV file: ${error}`));
         }
-      };
+      } catch (error) {
+        result.skipped.push({ path: entry.path, reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
 
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
-    });
+    return result;
   }
 
-  private async processTextFile(file: File): Promise<ProcessedData> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        try {
-          const text = e.target?.result as string;
-          const lines = text.split('\n').filter(line => line.trim());
-          
-          // Try to detect delimiter (tab, comma, pipe, etc.)
-          const delimiter = this.detectDelimiter(lines[0]);
-          const headers = lines[0].split(delimiter);
-          const rows = lines.slice(1).map(line => line.split(delimiter));
-          
-          const preview = rows.slice(0, 10).map(row => {
-            const obj: any = {};
-            headers.forEach((header, index) => {
-              obj[header.trim()] = row[index]?.trim();
-            });
-            return obj;
-          });
+  private async processExcelFile(file: File, options: ProcessOptions): Promise<ProcessedData> {
+    try {
+      const { sheets } = await this.parseInWorker(file, 'excel', options);
 
-          resolve({
-            headers: headers.map(h => h.trim()),
-            rows,
-            preview,
-            totalRows: rows.length,
-            fileName: file.name,
-            fileType: 'text'
-          });
-        } catch (error) {
-          reject(new Error(`Failed to process text file: ${error}`));
-        }
-      };
+      // The sheet whose header was just set by hand, else the first one a user would see in Excel
+      const active = sheets.find(sheet => sheet.name === options.header?.sheet)
+        || sheets.find(sheet => !sheet.hidden && !sheet.empty)
+        || sheets[0];
+      return this.fromSheet({ fileName: file.name, fileType: 'excel', sheets }, active);
+    } catch (error) {
+      throw new Error(`Failed to process Excel file: ${error}`);
+    }
+  }
 
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
+  /**
+   * Returns a copy of the workbook data with the given sheet as the active one.
+   */
+  selectSheet(data: ProcessedData, sheetName: string): ProcessedData {
+    const sheet = data.sheets?.find(s => s.name === sheetName);
+    if (!sheet) {
+      throw new Error(`Sheet "${sheetName}" not found in ${data.fileName}`);
+    }
+    return this.withSchema(this.fromSheet(data, sheet));
+  }
+
+  private fromSheet(
+    data: Pick<ProcessedData, 'fileName' | 'fileType' | 'sheets'>,
+    sheet?: SheetData
+  ): ProcessedData {
+    const headers = sheet?.headers || [];
+    const rows = sheet?.rows || [];
+
+    return {
+      headers,
+      rows,
+      rowSource: new ArrayRowSource(rows),
+      preview: this.buildPreview(headers, rows),
+      totalRows: rows.length,
+      fileName: data.fileName,
+      fileType: data.fileType,
+      sheetName: sheet?.name,
+      sheets: data.sheets,
+      header: sheet?.header
+    };
+  }
+
+  private buildPreview(headers: string[], rows: unknown[][]): Record<string, unknown>[] {
+    return rows.slice(0, 10).map(row => {
+      const obj: Record<string, unknown> = {};
+      headers.forEach((header, index) => {
+        obj[header] = row[index];
+      });
+      return obj;
     });
   }
 
-  private parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
+  private async processCSVFile(file: File, options: ProcessOptions): Promise<ProcessedData> {
+    try {
+      return await this.processDelimitedFile(file, 'csv', options);
+    } catch (error) {
+      throw new Error(`Failed to process CSV file: ${error}`);
     }
-    
-    result.push(current.trim());
-    return result;
   }
 
-  private detectDelimiter(line: string): string {
-    const delimiters = ['\t', ',', '|', ';', ':'];
-    let maxCount = 0;
-    let bestDelimiter = ',';
-    
-    for (const delimiter of delimiters) {
-      const count = line.split(delimiter).length;
-      if (count > maxCount) {
-        maxCount = count;
-        bestDelimiter = delimiter;
+  private async processTextFile(file: File, options: ProcessOptions): Promise<ProcessedData> {
+    try {
+      const saved = options.fixedWidth === undefined ? layoutStore.find(file.name) : undefined;
+      if (!saved) {
+        return await this.processDelimitedFile(file, 'text', options);
       }
+
+      const data = await this.processDelimitedFile(file, 'text', { ...options, fixedWidth: saved.columns });
+      return { ...data, fixedWidth: { columns: saved.columns, source: 'saved', pattern: saved.pattern } };
+    } catch (error) {
+      throw new Error(`Failed to process text file: ${error}`);
     }
-    
-    return bestDelimiter;
   }
 
-  validateData(data: ProcessedData): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    
-    // Check for empty headers
-    if (data.headers.some(header => !header.trim())) {
-      errors.push('Some column headers are empty');
+  private async processJsonFile(
+    file: File,
+    kind: 'json' | 'ndjson',
+    options: ProcessOptions
+  ): Promise<ProcessedData> {
+    try {
+      const result = await this.parseInWorker(file, kind, options);
+
+      return {
+        headers: result.headers,
+        rows: result.firstPage,
+        rowSource: result.rowSource,
+        preview: this.buildPreview(result.headers, result.firstPage),
+        totalRows: result.totalRows,
+        fileName: file.name,
+        fileType: kind,
+        parseErrors: result.parseErrors,
+        encoding: result.encoding,
+        childRecords: result.childRecords
+      };
+    } catch (error) {
+      throw new Error(`Failed to process JSON file: ${error}`);
     }
-    
-    // Check for consistent row lengths
-    const expectedLength = data.headers.length;
-    const inconsistentRows = data.rows.filter(row => row.length !== expectedLength);
-    if (inconsistentRows.length > 0) {
-      errors.push(`${inconsistentRows.length} rows have inconsistent column counts`);
+  }
+
+  /**
+   * XML is parsed on the main thread because DOMParser is not available
+   * inside workers.
+   */
+  private async processXmlFile(file: File, options: ProcessOptions): Promise<ProcessedData> {
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const encoding: DetectedEncoding = options.encoding
+        ? { name: options.encoding, source: 'user', confidence: 1 }
+        : this.detectXmlEncoding(bytes);
+      const doc = parseXml(new TextDecoder(encoding.name).decode(bytes));
+      const { headers, rows, ...xml } = extractXmlRecords(doc, options.xml);
+
+      return {
+        headers,
+        rows,
+        rowSource: new ArrayRowSource(rows),
+        preview: this.buildPreview(headers, rows),
+        totalRows: rows.length,
+        fileName: file.name,
+        fileType: 'xml',
+        encoding,
+        xml
+      };
+    } catch (error) {
+      throw new Error(`Failed to process XML file: ${error}`);
     }
-    
-    // Check for minimum data requirements
-    if (data.totalRows === 0) {
-      errors.push('No data rows found');
+  }
+
+  private detectXmlEncoding(bytes: Uint8Array): DetectedEncoding {
+    const detected = detectEncoding(bytes);
+    if (detected.source === 'bom') return detected;
+
+    // The prolog is ASCII-compatible, so it can be read before decoding
+    const prolog = new TextDecoder('ascii').decode(bytes.subarray(0, 200));
+    const declared = prolog.match(/^<\?xml[^>]*encoding=["']([\w.:-]+)["']/);
+    if (!declared) return detected;
+
+    try {
+      new TextDecoder(declared[1]);
+      return { name: declared[1].toLowerCase(), source: 'declaration', confidence: 1 };
+    } catch {
+      return detected;
     }
-    
+  }
+
+  private async processDelimitedFile(
+    file: File,
+    kind: 'csv' | 'text',
+    options: ProcessOptions
+  ): Promise<ProcessedData> {
+    const result = await this.parseInWorker(file, kind, options);
+
     return {
-      isValid: errors.length === 0,
-      errors
+      headers: result.headers,
+      rows: result.firstPage,
+      rowSource: result.rowSource,
+      preview: this.buildPreview(result.headers, result.firstPage),
+      totalRows: result.totalRows,
+      fileName: file.name,
+      fileType: kind,
+      parseErrors: result.parseErrors,
+      encoding: result.encoding,
+      delimiter: result.delimiter,
+      quote: options.csv?.quote,
+      escape: options.csv?.escape,
+      header: result.header,
+      fixedWidth: result.fixedWidth,
+      sampleLines: result.sampleLines
     };
   }
+
+  /**
+   * Parses a file in a dedicated worker. The worker stays alive afterwards
+   * to serve pages of rows through the returned `rowSource`.
+   */
+  private parseInWorker(
+    file: File,
+    kind: ParseKind,
+    options: ProcessOptions
+  ): Promise<Extract<ParseWorkerResponse, { type: 'done' }> & { rowSource: RowSource }> {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const worker = new Worker(new URL('../workers/parseWorker.ts', import.meta.url), { type: 'module' });
+
+    return new Promise((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+        const message = event.data;
+
+        switch (message.type) {
+          case 'progress':
+            options.onProgress?.(message);
+            break;
+          case 'preview':
+            options.onPreview?.({
+              headers: message.headers,
+              preview: this.buildPreview(message.headers, message.rows)
+            });
+            break;
+          case 'done':
+            // Workbooks come back whole, so the worker is not needed for paging
+            if (message.sheets) worker.terminate();
+            resolve({ ...message, rowSource: new WorkerRowSource(worker, message.totalRows) });
+            break;
+          case 'error':
+            worker.terminate();
+            reject(new Error(message.message));
+            break;
+        }
+      };
+      worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(event.message || 'Parse worker failed'));
+      };
+
+      worker.postMessage({
+        type: 'parse',
+        file,
+        kind,
+        csv: options.csv,
+        encoding: options.encoding,
+        header: options.header,
+        fixedWidth: options.fixedWidth,
+        pageSize
+      });
+    });
+  }
 }
 
 export const fileService = new FileService();
@@ -0,0 +1,120 @@
+import type { ParseIssue } from './csvParser';
+
+export interface FixedWidthColumn {
+  /** 0-based character offset of the column within a line. */
+  start: number;
+  length: number;
+}
+
+export interface FixedWidthLayout {
+  columns: FixedWidthColumn[];
+  source: 'saved' | 'suggested' | 'user';
+  /** File name pattern of the saved layout that was applied. */
+  pattern?: string;
+}
+
+/**
+ * Splits fixed-width text into records. Like `CsvTokenizer` it accepts
+ * text in arbitrary chunks and returns the records completed so far.
+ * Text past the last column is ignored and reported in `errors`.
+ */
+export class FixedWidthSplitter {
+  readonly errors: ParseIssue[] = [];
+
+  private columns: FixedWidthColumn[];
+  private lineLength: number;
+  private pending = '';
+  private started = false;
+  private line = 0;
+
+  constructor(columns: FixedWidthColumn[]) {
+    this.columns = [...columns].sort((a, b) => a.start - b.start);
+    this.lineLength = Math.max(0, ...this.columns.map(column => column.start + column.length));
+  }
+
+  write(chunk: string): string[][] {
+    if (!this.started && chunk.length > 0) {
+      this.started = true;
+      if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.slice(1);
+    }
+
+    const lines = (this.pending + chunk).split('\n');
+    this.pending = lines.pop() ?? '';
+    return this.split(lines);
+  }
+
+  end(): string[][] {
+    const lines = this.pending ? [this.pending] : [];
+    this.pending = '';
+    return this.split(lines);
+  }
+
+  private split(lines: string[]): string[][] {
+    const records: string[][] = [];
+
+    for (const raw of lines) {
+      this.line++;
+      const line = raw.endsWith('\r') ? raw.slice(0, -1) : raw;
+      if (!line.trim()) continue;
+
+      if (line.slice(this.lineLength).trim()) {
+        this.errors.push({
+          line: this.line,
+          column: this.lineLength + 1,
+          message: 'Text past the last column was ignored'
+        });
+      }
+      records.push(this.columns.map(column => line.slice(column.start, column.start + column.length).trim()));
+    }
+
+    return records;
+  }
+}
+
+/**
+ * Suggests column boundaries from whitespace alignment: a column starts
+ * wherever every sample line has a space in one position and text in the
+ * next. Values containing aligned spaces will be split too, so the result
+ * is meant to be reviewed.
+ */
+export function suggestFixedWidthColumns(lines: string[]): FixedWidthColumn[] {
+  const sample = lines.map(line => line.replace(/\r$/, '')).filter(line => line.trim());
+  const width = Math.max(0, ...sample.map(line => line.length));
+  if (width === 0) return [];
+
+  const blank = Array.from({ length: width }, (_, position) =>
+    sample.every(line => position >= line.length || line[position] === ' ')
+  );
+
+  const starts = [0];
+  for (let position = 1; position < width; position++) {
+    if (blank[position - 1] && !blank[position]) starts.push(position);
+  }
+
+  return starts.map((start, index) => ({
+    start,
+    length: (starts[index + 1] ?? width) - start
+  }));
+}
+
+/**
+ * True when the sample lines don't split consistently on `delimiter` but
+ * do line up in columns, as in a fixed-width mainframe export.
+ */
+export function looksFixedWidth(lines: string[], delimiter: string): boolean {
+  const sample = lines.filter(line => line.trim());
+  if (sample.length < 2) return false;
+
+  const counts = new Set(sample.map(line => line.split(delimiter).length - 1));
+  const consistent = counts.size === 1 && !counts.has(0);
+  return !consistent && suggestFixedWidthColumns(sample).length > 1;
+}
+
+/**
+ * Turns the column start positions picked on a ruler into columns, the
+ * last one running to `width`.
+ */
+export function columnsFromBoundaries(boundaries: number[], width: number): FixedWidthColumn[] {
+  const starts = [...new Set([0, ...boundaries])].filter(start => start < width).sort((a, b) => a - b);
+  return starts.map((start, index) => ({ start, length: (starts[index + 1] ?? width) - start }));
+}
@@ -0,0 +1,250 @@
+import { readZipEntries } from './zipArchive';
+
+/** How `FileService` reads a format; several formats share one route. */
+export type FormatKind = 'excel' | 'csv' | 'text' | 'json' | 'ndjson' | 'xml' | 'archive';
+
+export interface SniffContext {
+  /** The first bytes of the file. */
+  bytes: Uint8Array;
+  /** The same bytes as Latin-1 text, with any BOM and leading whitespace removed. */
+  text: string;
+  /** Entry paths, when the file is a ZIP container. */
+  zipEntries: string[];
+}
+
+export interface FileFormat {
+  id: string;
+  label: string;
+  kind: FormatKind;
+  extensions: string[];
+  mimeTypes: string[];
+  /** True when the file's leading bytes belong to this format. */
+  sniff?: (context: SniffContext) => boolean;
+  /**
+   * The sniff only recognises a family (any XML, any ZIP), so a matching
+   * extension or a more specific format takes precedence.
+   */
+  generic?: boolean;
+  /** Binary formats; a text file with one of these extensions is read as text. */
+  binary?: boolean;
+}
+
+const SNIFF_BYTES = 4096;
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04];
+const CFB_MAGIC = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+const startsWith = (bytes: Uint8Array, magic: number[]) => magic.every((byte, i) => bytes[i] === byte);
+
+const builtInFormats: FileFormat[] = [
+  {
+    id: 'xlsx',
+    label: 'Excel workbook',
+    kind: 'excel',
+    extensions: ['xlsx', 'xlsm'],
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-excel.sheet.macroEnabled.12'
+    ],
+    sniff: ({ zipEntries }) => zipEntries.includes('xl/workbook.xml'),
+    binary: true
+  },
+  {
+    id: 'xlsb',
+    label: 'Excel binary workbook',
+    kind: 'excel',
+    extensions: ['xlsb'],
+    mimeTypes: ['application/vnd.ms-excel.sheet.binary.macroEnabled.12'],
+    sniff: ({ zipEntries }) => zipEntries.includes('xl/workbook.bin'),
+    binary: true
+  },
+  {
+    id: 'ods',
+    label: 'OpenDocument spreadsheet',
+    kind: 'excel',
+    extensions: ['ods'],
+    mimeTypes: ['application/vnd.oasis.opendocument.spreadsheet'],
+    // The media type is normally stored uncompressed near the start, either
+    // as the `mimetype` entry or in the manifest
+    sniff: ({ bytes, text, zipEntries }) => startsWith(bytes, ZIP_MAGIC) && (
+      text.includes('application/vnd.oasis.opendocument.spreadsheet')
+      || (zipEntries.includes('content.xml') && zipEntries.includes('META-INF/manifest.xml'))
+    ),
+    binary: true
+  },
+  {
+    id: 'xls',
+    label: 'Excel 97-2003 workbook',
+    kind: 'excel',
+    extensions: ['xls'],
+    mimeTypes: ['application/vnd.ms-excel'],
+    sniff: ({ bytes }) => startsWith(bytes, CFB_MAGIC),
+    binary: true
+  },
+  {
+    id: 'spreadsheetml',
+    label: 'Excel 2003 XML',
+    kind: 'excel',
+    extensions: [],
+    mimeTypes: [],
+    sniff: ({ text }) => text.startsWith('<') && text.includes('urn:schemas-microsoft-com:office:spreadsheet')
+  },
+  {
+    id: 'fods',
+    label: 'Flat OpenDocument spreadsheet',
+    kind: 'excel',
+    extensions: ['fods'],
+    mimeTypes: ['application/vnd.oasis.opendocument.spreadsheet-flat-xml'],
+    sniff: ({ text }) => text.startsWith('<') && text.includes('application/vnd.oasis.opendocument.spreadsheet')
+  },
+  {
+    // Many "xls" exports from web apps are really HTML tables
+    id: 'html-table',
+    label: 'HTML table',
+    kind: 'excel',
+    extensions: ['htm', 'html'],
+    mimeTypes: ['text/html'],
+    sniff: ({ text }) => /^(?:<!doctype html|<html|<table)/i.test(text)
+  },
+  {
+    id: 'csv',
+    label: 'CSV',
+    kind: 'csv',
+    extensions: ['csv'],
+    mimeTypes: ['text/csv', 'application/csv']
+  },
+  {
+    id: 'text',
+    label: 'Text',
+    kind: 'text',
+    extensions: ['txt', 'tsv', 'tab', 'dat', 'prn'],
+    mimeTypes: ['text/plain', 'text/tab-separated-values']
+  },
+  {
+    id: 'json',
+    label: 'JSON',
+    kind: 'json',
+    extensions: ['json'],
+    mimeTypes: ['application/json'],
+    sniff: ({ text }) => /^[{[]/.test(text),
+    generic: true
+  },
+  {
+    id: 'ndjson',
+    label: 'Newline-delimited JSON',
+    kind: 'ndjson',
+    extensions: ['ndjson', 'jsonl'],
+    mimeTypes: ['application/x-ndjson', 'application/jsonl'],
+    sniff: ({ text }) => text.startsWith('{'),
+    generic: true
+  },
+  {
+    id: 'xml',
+    label: 'XML',
+    kind: 'xml',
+    extensions: ['xml'],
+    mimeTypes: ['application/xml', 'text/xml'],
+    sniff: ({ text }) => text.startsWith('<'),
+    generic: true
+  },
+  {
+    id: 'zip',
+    label: 'ZIP archive',
+    kind: 'archive',
+    extensions: ['zip'],
+    mimeTypes: ['application/zip', 'application/x-zip-compressed'],
+    sniff: ({ bytes }) => startsWith(bytes, ZIP_MAGIC),
+    generic: true,
+    binary: true
+  }
+];
+
+/**
+ * The file formats the importer understands. Upload validation and
+ * `FileService.processFile` both ask the registry, so a format registered
+ * here is accepted and routed in one place.
+ */
+export class FormatRegistry {
+  private formats: FileFormat[] = [...builtInFormats];
+
+  /** Adds a format. It is sniffed before the built-in ones. */
+  register(format: FileFormat) {
+    this.formats = [format, ...this.formats.filter(existing => existing.id !== format.id)];
+  }
+
+  list(): FileFormat[] {
+    return [...this.formats];
+  }
+
+  get(id: string): FileFormat | undefined {
+    return this.formats.find(format => format.id === id);
+  }
+
+  fromName(fileName: string): FileFormat | undefined {
+    const extension = fileName.split('.').pop()?.toLowerCase() || '';
+    return this.formats.find(format => format.extensions.includes(extension));
+  }
+
+  fromMimeType(mimeType: string): FileFormat | undefined {
+    return mimeType ? this.formats.find(format => format.mimeTypes.includes(mimeType)) : undefined;
+  }
+
+  /** Quick check by name and MIME type, before any content is read. */
+  isSupported(file: Pick<File, 'name' | 'type'>): boolean {
+    return !!(this.fromName(file.name) || this.fromMimeType(file.type));
+  }
+
+  /** Value for a file input's `accept` attribute. */
+  accept(): string {
+    return this.formats.flatMap(format => format.extensions.map(extension => `.${extension}`)).join(',');
+  }
+
+  /**
+   * Identifies a file by its content, falling back to the extension and
+   * then the MIME type. Specific signatures (an ODS `mimetype` entry, the
+   * OLE2 header of an .xls) win over the extension, so renamed or
+   * mislabelled exports are still read correctly.
+   */
+  async detect(file: File): Promise<FileFormat | undefined> {
+    const context = await this.sniffContext(file);
+    const byName = this.fromName(file.name);
+
+    const specific = this.formats.find(format => !format.generic && format.sniff?.(context));
+    if (specific) return specific;
+
+    if (byName?.sniff?.(context)) return byName;
+
+    const generic = this.formats.find(format => format.generic && format.sniff?.(context));
+    if (generic) return generic;
+
+    if (byName) {
+      // A ".xls" that holds no known binary signature is a delimited text export
+      return byName.binary && !looksBinary(context.bytes) ? this.get('text') : byName;
+    }
+    return this.fromMimeType(file.type);
+  }
+
+  private async sniffContext(file: File): Promise<SniffContext> {
+    const bytes = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+    const text = new TextDecoder('latin1')
+      .decode(bytes)
+      .replace(/^(?:ï»¿|þÿ|ÿþ)/, '')
+      .trimStart();
+
+    let zipEntries: string[] = [];
+    if (startsWith(bytes, ZIP_MAGIC)) {
+      try {
+        zipEntries = (await readZipEntries(file)).map(entry => entry.path);
+      } catch {
+        // Truncated or damaged archives are left to the extension
+      }
+    }
+
+    return { bytes, text, zipEntries };
+  }
+}
+
+function looksBinary(bytes: Uint8Array): boolean {
+  return bytes.includes(0);
+}
+
+export const formatRegistry = new FormatRegistry();
@@ -0,0 +1,164 @@
+export interface HeaderDetection {
+  /** Index of the first header row within `leadingRows`. */
+  rowIndex: number;
+  /** Number of stacked header rows that were combined (1 or 2). */
+  rowCount: number;
+  confidence: number;
+  source: 'detected' | 'user';
+  /** The raw top rows of the file, so the choice can be reviewed. */
+  leadingRows: string[][];
+}
+
+export interface HeaderOverride {
+  row: number;
+  count?: number;
+  /** Workbook sheet the override applies to; omitted for single-table files. */
+  sheet?: string;
+}
+
+export const HEADER_SCAN_ROWS = 20;
+const DATA_LOOKAHEAD = 5;
+
+/**
+ * Picks the header row of a grid whose first rows may hold logos, titles,
+ * blank lines or a two-row header. Every candidate row is scored on how
+ * much it looks like column names (filled, textual, unique, short) and
+ * how much the rows below it look like data. A sparse group row directly
+ * above, or a label row directly below, is folded into a two-row header.
+ */
+export function detectHeader(grid: unknown[][], override?: HeaderOverride): HeaderDetection {
+  const leadingRows = grid.slice(0, HEADER_SCAN_ROWS).map(row => row.map(cellText));
+
+  if (override) {
+    return {
+      rowIndex: override.row,
+      rowCount: override.count ?? 1,
+      confidence: 1,
+      source: 'user',
+      leadingRows
+    };
+  }
+
+  const width = Math.max(1, ...leadingRows.map(filledWidth));
+  let best = { rowIndex: 0, score: 0 };
+  leadingRows.forEach((_, index) => {
+    const score = scoreRow(leadingRows, index, width);
+    if (score > best.score) best = { rowIndex: index, score };
+  });
+
+  let { rowIndex } = best;
+  let rowCount = 1;
+  if (isGroupRow(leadingRows[rowIndex - 1], leadingRows[rowIndex], width)) {
+    rowIndex--;
+    rowCount = 2;
+  } else if (isGroupRow(leadingRows[rowIndex], leadingRows[rowIndex + 1], width)
+    && looksLikeLabels(leadingRows[rowIndex + 1])) {
+    rowCount = 2;
+  }
+
+  return { rowIndex, rowCount, confidence: Math.min(1, best.score), source: 'detected', leadingRows };
+}
+
+/**
+ * Builds column names from the chosen header rows. For two-row headers a
+ * group label is carried right across the blank cells of a merged range,
+ * then combined with the label below it ("Price Net", "Price Gross").
+ */
+export function combineHeaderRows(grid: unknown[][], detection: Pick<HeaderDetection, 'rowIndex' | 'rowCount'>): string[] {
+  const headerRows = grid.slice(detection.rowIndex, detection.rowIndex + detection.rowCount).map(row => row.map(cellText));
+  const width = Math.max(0, ...headerRows.map(row => row.length));
+
+  const filled = headerRows.map((row, rowIndex) => {
+    if (rowIndex === headerRows.length - 1) return row;
+
+    let carried = '';
+    return Array.from({ length: width }, (_, column) => {
+      if (row[column]) carried = row[column];
+      return row[column] || carried;
+    });
+  });
+
+  return Array.from({ length: width }, (_, column) => {
+    const parts: string[] = [];
+    for (const row of filled) {
+      const part = row[column] || '';
+      if (part && !parts.includes(part)) parts.push(part);
+    }
+    return parts.join(' ');
+  });
+}
+
+function scoreRow(rows: string[][], index: number, width: number): number {
+  const cells = rows[index].filter(Boolean);
+  // Title lines and logos tend to be a single cell
+  if (cells.length === 0 || (cells.length < 2 && width > 1)) return 0;
+
+  const fill = cells.length / width;
+  const textual = cells.filter(cell => !isNumberLike(cell)).length / cells.length;
+  const unique = new Set(cells.map(cell => cell.toLowerCase())).size / cells.length;
+  const short = cells.filter(cell => cell.length <= 40).length / cells.length;
+
+  const below = rows.slice(index + 1, index + 1 + DATA_LOOKAHEAD).filter(row => row.some(Boolean));
+  const belowFill = below.length
+    ? below.reduce((sum, row) => sum + row.filter(Boolean).length, 0) / (below.length * width)
+    : 0;
+  const belowNumeric = below.length
+    ? below.flat().filter(cell => cell && isNumberLike(cell)).length / Math.max(1, below.flat().filter(Boolean).length)
+    : 0;
+
+  return fill * 0.3
+    + textual * 0.25
+    + unique * 0.15
+    + short * 0.1
+    + Math.min(1, belowFill) * 0.1
+    // Headers are text over columns that hold numbers
+    + Math.max(0, belowNumeric - (1 - textual)) * 0.1;
+}
+
+/**
+ * A group row only holds text and has fewer distinct labels than the row
+ * below it, either because cells are repeated (unmerged Excel ranges) or
+ * because the row below only labels the columns under each group.
+ */
+function isGroupRow(upper: string[] | undefined, lower: string[] | undefined, width: number): boolean {
+  if (!upper || !lower) return false;
+
+  const upperCells = upper.filter(Boolean);
+  const lowerCells = lower.filter(Boolean);
+  if (upperCells.length < 2 && width > 2) return false;
+  if (upperCells.length === 0 || upperCells.some(isNumberLike)) return false;
+
+  const upperDistinct = new Set(upperCells).size;
+  const lowerDistinct = new Set(lowerCells).size;
+  if (upperDistinct < lowerDistinct && lowerCells.length >= upperCells.length) return true;
+
+  // Sub-labels only under the groups, e.g. "Price" over "Net" | "Gross"
+  const columns = Math.max(upper.length, lower.length);
+  let fillsGap = false;
+  let leavesGap = false;
+  for (let column = 0; column < columns; column++) {
+    if (!upper[column] && lower[column]) fillsGap = true;
+    if (upper[column] && !lower[column]) leavesGap = true;
+  }
+  return fillsGap && leavesGap && looksLikeLabels(lower);
+}
+
+function looksLikeLabels(row: string[] | undefined): boolean {
+  const cells = row?.filter(Boolean) || [];
+  return cells.length > 0 && cells.every(cell => !isNumberLike(cell) && cell.length <= 40);
+}
+
+function filledWidth(row: string[]): number {
+  for (let i = row.length - 1; i >= 0; i--) {
+    if (row[i]) return i + 1;
+  }
+  return 0;
+}
+
+function isNumberLike(value: string): boolean {
+  return /\d/.test(value) && /^[-+(]?[\d\s.,'/:%€$£R-]+\)?$/.test(value);
+}
+
+function cellText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
@@ -0,0 +1,39 @@
+export interface ImageAsset {
+  /** Path inside the archive it came from. */
+  path: string;
+  fileName: string;
+  /** Lower-cased file name without extension, the part matched against SKUs. */
+  key: string;
+  size: number;
+  archive: string;
+  file: File;
+}
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'tif', 'tiff', 'bmp', 'svg'];
+
+export function isImageFile(fileName: string): boolean {
+  return IMAGE_EXTENSIONS.includes(fileName.split('.').pop()?.toLowerCase() || '');
+}
+
+export function imageKey(fileName: string): string {
+  const name = fileName.split('/').pop() || fileName;
+  return name.replace(/\.[^.]+$/, '').trim().toLowerCase();
+}
+
+/**
+ * Images that belong to a SKU: the file is named after it exactly, or the
+ * SKU is followed by a separator and a suffix, as in `A-1001_2.jpg` or
+ * `A-1001-front.png`. Exact matches come first, the rest by name.
+ */
+export function findImagesForSku(images: ImageAsset[], sku: string): ImageAsset[] {
+  const target = sku.trim().toLowerCase();
+  if (!target) return [];
+
+  return images
+    .filter(image => image.key === target || new RegExp(`^${escapeRegExp(target)}[ _.-]`).test(image.key))
+    .sort((a, b) => Number(b.key === target) - Number(a.key === target) || a.key.localeCompare(b.key));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,64 @@
+import { CategoryReport, categoryLookup } from './categoryResolution';
+import { ColumnMapping } from './columnMapping';
+import { databaseService } from './databaseService';
+import { DuplicateDecision, DuplicateReport, applyDuplicateDecisions, planDuplicateDecisions } from './duplicateDetection';
+import type { ProcessedData } from './fileService';
+import { ValidationReport, applyValidation } from './validation';
+
+export interface ImportOptions {
+  /** Rows it skips are left out and its fixes written in; a blocking report stops the import. */
+  validation?: ValidationReport;
+  /** Groups are merged or kept as decided; undecided groups get their default. */
+  duplicates?: DuplicateReport;
+  duplicateDecisions?: Record<string, DuplicateDecision>;
+  /** Category values resolved for the file; all of them must be approved. */
+  categories?: CategoryReport;
+}
+
+export interface ImportResult {
+  inserted: number;
+  skipped: number;
+  /** Rows folded into another row of their duplicate group. */
+  merged: number;
+}
+
+/**
+ * Imports a parsed file into the mapped table, a page at a time, after
+ * merging duplicates and applying what validation decided for each row.
+ * Validation looked at the rows as they are in the file, so rows it skips
+ * are left out of merges and a merged row gets the fixes of the group's
+ * first kept row.
+ */
+export class ImportService {
+  async importFile(data: ProcessedData, mapping: ColumnMapping, options: ImportOptions = {}): Promise<ImportResult> {
+    const { validation } = options;
+    if (validation?.blocked) throw new Error('Import blocked by validation errors');
+    const review = options.categories?.matches.filter(match => match.review).length ?? 0;
+    if (review > 0) throw new Error(`${review} category values need review`);
+    const categories = options.categories && categoryLookup(options.categories);
+
+    // Without the target columns values would be typed by the source schema alone
+    const targets = await databaseService.getTableSchema(mapping.table);
+    if (targets.length === 0) throw new Error(`Could not load the columns of ${mapping.table}`);
+    const plan = planDuplicateDecisions(options.duplicates?.groups ?? [], options.duplicateDecisions ?? {}, validation?.skipRows);
+    let inserted = 0;
+    let skipped = 0;
+    let offset = 0;
+    for await (const page of data.rowSource.pages()) {
+      const deduplicated = applyDuplicateDecisions(page, plan, offset);
+      const rows = validation ? applyValidation(deduplicated.rows, validation, deduplicated.indexes) : deduplicated.rows;
+      skipped += deduplicated.rows.length - rows.length;
+      offset += page.length;
+      if (rows.length === 0) continue;
+
+      const result = await databaseService.insertProducts(rows, mapping, data.headers, data.schema, categories, targets);
+      if (!result.success) {
+        throw new Error(inserted > 0 ? `${result.error} (${inserted} rows were already imported)` : result.error);
+      }
+      inserted += rows.length;
+    }
+    return { inserted, skipped, merged: plan.dropped.size };
+  }
+}
+
+export const importService = new ImportService();
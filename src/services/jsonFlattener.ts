@@ -0,0 +1,152 @@
+/**
+ * Child records produced from arrays inside JSON records, e.g. `images`
+ * or `variants`. `_parent` holds the index of the owning row in the
+ * parent table (the main rows, or another child set for nested arrays).
+ */
+export interface ChildRecordSet {
+  name: string;
+  parent: string | null;
+  headers: string[];
+  rows: unknown[][];
+  totalRows: number;
+}
+
+export const PARENT_COLUMN = '_parent';
+const VALUE_COLUMN = 'value';
+
+class Table {
+  private columns = new Map<string, number>();
+  private records: Record<string, unknown>[] = [];
+
+  constructor(readonly name: string | null, readonly parent: string | null) {}
+
+  get size(): number {
+    return this.records.length;
+  }
+
+  add(record: Record<string, unknown>): number {
+    for (const key of Object.keys(record)) {
+      if (!this.columns.has(key)) this.columns.set(key, this.columns.size);
+    }
+    this.records.push(record);
+    return this.records.length - 1;
+  }
+
+  headers(): string[] {
+    return [...this.columns.keys()];
+  }
+
+  rows(): unknown[][] {
+    const headers = this.headers();
+    return this.records.map(record => headers.map(header => record[header] ?? null));
+  }
+}
+
+/**
+ * Flattens JSON records into a table. Nested objects become dotted column
+ * paths (`dimensions.width`); arrays become child record sets that point
+ * back at their parent row. Records can be added one at a time, so NDJSON
+ * feeds are flattened while they stream in.
+ */
+export class JsonRecordFlattener {
+  private root = new Table(null, null);
+  private children = new Map<string, Table>();
+
+  get totalRows(): number {
+    return this.root.size;
+  }
+
+  add(value: unknown) {
+    const record: Record<string, unknown> = {};
+    if (isPlainObject(value)) {
+      this.flattenInto(value, '', record, this.root);
+    } else {
+      record[VALUE_COLUMN] = value;
+    }
+    this.root.add(record);
+  }
+
+  headers(): string[] {
+    return this.root.headers();
+  }
+
+  rows(): unknown[][] {
+    return this.root.rows();
+  }
+
+  childRecords(): ChildRecordSet[] {
+    return [...this.children.values()].map(table => {
+      const rows = table.rows();
+      return {
+        name: table.name as string,
+        parent: table.parent,
+        headers: table.headers(),
+        rows,
+        totalRows: rows.length
+      };
+    });
+  }
+
+  private flattenInto(
+    value: Record<string, unknown>,
+    prefix: string,
+    record: Record<string, unknown>,
+    table: Table
+  ) {
+    for (const [key, child] of Object.entries(value)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+
+      if (isPlainObject(child)) {
+        this.flattenInto(child, path, record, table);
+      } else if (Array.isArray(child)) {
+        // The parent row is added after its fields are flattened, so its
+        // index is the table's current size
+        this.addChildren(child, table.name ? `${table.name}.${path}` : path, table);
+      } else {
+        record[path] = child;
+      }
+    }
+  }
+
+  private addChildren(items: unknown[], name: string, parent: Table) {
+    let table = this.children.get(name);
+    if (!table) {
+      table = new Table(name, parent.name);
+      this.children.set(name, table);
+    }
+
+    const parentIndex = parent.size;
+    for (const item of items) {
+      const record: Record<string, unknown> = { [PARENT_COLUMN]: parentIndex };
+      if (isPlainObject(item)) {
+        this.flattenInto(item, '', record, table);
+      } else {
+        // Arrays of arrays have no sensible column layout, keep them as JSON
+        record[VALUE_COLUMN] = Array.isArray(item) ? JSON.stringify(item) : item;
+      }
+      table.add(record);
+    }
+  }
+}
+
+/**
+ * Finds the records in a parsed JSON document: a top-level array, the
+ * first array-of-objects property of a wrapper object such as
+ * `{ "products": [...] }`, or a single object as one record.
+ */
+export function extractJsonRecords(document: unknown): unknown[] {
+  if (Array.isArray(document)) return document;
+
+  if (isPlainObject(document)) {
+    const wrapped = Object.values(document).find(
+      value => Array.isArray(value) && value.length > 0 && value.every(isPlainObject)
+    );
+    return wrapped ? (wrapped as unknown[]) : [document];
+  }
+
+  return [document];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,65 @@
+import { FixedWidthColumn } from './fixedWidth';
+
+export interface SavedLayout {
+  /** File name glob, `*` matching any run of characters, e.g. `EXPORT_*.txt`. */
+  pattern: string;
+  columns: FixedWidthColumn[];
+  savedAt: string;
+}
+
+const STORAGE_KEY = 'fixedWidthLayouts';
+
+/**
+ * Fixed-width layouts saved in the browser, keyed by file name pattern so
+ * that the next export of the same kind is parsed without setup.
+ */
+export class LayoutStore {
+  list(): SavedLayout[] {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    } catch (error) {
+      console.error('Error loading fixed-width layouts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Finds the layout for a file. The most specific pattern wins, so a
+   * layout for `EXPORT_2024*.txt` beats one for `*.txt`.
+   */
+  find(fileName: string): SavedLayout | undefined {
+    return this.list()
+      .filter(layout => matchesPattern(fileName, layout.pattern))
+      .sort((a, b) => b.pattern.replace(/\*/g, '').length - a.pattern.replace(/\*/g, '').length)[0];
+  }
+
+  save(pattern: string, columns: FixedWidthColumn[]): SavedLayout {
+    const layout: SavedLayout = { pattern, columns, savedAt: new Date().toISOString() };
+    const layouts = [layout, ...this.list().filter(saved => saved.pattern !== pattern)];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(layouts));
+    return layout;
+  }
+
+  remove(pattern: string) {
+    const layouts = this.list().filter(saved => saved.pattern !== pattern);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(layouts));
+  }
+}
+
+/**
+ * Default pattern for a file name: runs of digits such as dates and
+ * sequence numbers become `*`, e.g. `EXPORT_20240131.txt` -> `EXPORT_*.txt`.
+ */
+export function suggestPattern(fileName: string): string {
+  return fileName.replace(/\d+/g, '*');
+}
+
+export function matchesPattern(fileName: string, pattern: string): boolean {
+  const regex = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`, 'i').test(fileName);
+}
+
+export const layoutStore = new LayoutStore();
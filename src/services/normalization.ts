@@ -0,0 +1,60 @@
+import type { ProcessedData } from './fileService';
+import { ColumnSchema, ColumnType, coerceValue, isBlank, parseMoney } from './typeInference';
+
+export interface NormalizedSample {
+  original: string;
+  normalized: string;
+  changed: boolean;
+}
+
+export interface ColumnNormalization {
+  column: ColumnSchema;
+  samples: NormalizedSample[];
+}
+
+/** Column types whose values depend on number, date or currency conventions. */
+const LOCALE_TYPES: ColumnType[] = ['integer', 'decimal', 'money', 'currency', 'date'];
+
+/**
+ * Before/after samples for every locale-dependent column, so the detected
+ * conventions can be checked against real values before import.
+ */
+export function normalizationPreview(data: ProcessedData, sampleCount = 3): ColumnNormalization[] {
+  return (data.schema || [])
+    // Overridden columns stay listed even if the override no longer fits
+    .filter(column => LOCALE_TYPES.includes(column.type) || column.override)
+    .map(column => {
+      const samples: NormalizedSample[] = [];
+      const seen = new Set<string>();
+
+      for (const row of data.rows) {
+        if (samples.length >= sampleCount) break;
+        const raw = row[column.index];
+        if (isBlank(raw)) continue;
+
+        const original = String(raw).trim();
+        if (seen.has(original)) continue;
+        seen.add(original);
+
+        const normalized = normalizeValue(raw, column);
+        samples.push({ original, normalized, changed: normalized !== original });
+      }
+
+      return { column, samples };
+    });
+}
+
+/**
+ * Canonical text form of a value: plain decimals with a point, ISO dates,
+ * and amounts followed by their ISO currency code.
+ */
+export function normalizeValue(value: unknown, column: ColumnSchema): string {
+  if (column.type === 'money') {
+    const price = parseMoney(value, column.decimalSeparator ?? '.');
+    const currency = column.override?.currency ?? price?.currency ?? column.currency;
+    if (price) return currency ? `${price.amount} ${currency}` : String(price.amount);
+  }
+
+  const normalized = coerceValue(value, column);
+  return normalized === null ? '' : String(normalized);
+}
@@ -0,0 +1,78 @@
+/**
+ * Paged access to the data rows of a parsed file. Large files keep their
+ * rows inside the parse worker, so consumers read them a page at a time
+ * instead of holding one giant array on the main thread.
+ */
+export interface RowSource {
+  readonly totalRows: number;
+  getRows(offset: number, limit: number): Promise<unknown[][]>;
+  pages(pageSize?: number): AsyncGenerator<unknown[][]>;
+  close(): void;
+}
+
+export const DEFAULT_PAGE_SIZE = 1000;
+
+abstract class PagedRowSource implements RowSource {
+  abstract readonly totalRows: number;
+  abstract getRows(offset: number, limit: number): Promise<unknown[][]>;
+
+  async *pages(pageSize: number = DEFAULT_PAGE_SIZE): AsyncGenerator<unknown[][]> {
+    for (let offset = 0; offset < this.totalRows; offset += pageSize) {
+      yield await this.getRows(offset, pageSize);
+    }
+  }
+
+  close(): void {}
+}
+
+export class ArrayRowSource extends PagedRowSource {
+  constructor(private rows: unknown[][]) {
+    super();
+  }
+
+  get totalRows(): number {
+    return this.rows.length;
+  }
+
+  async getRows(offset: number, limit: number): Promise<unknown[][]> {
+    return this.rows.slice(offset, offset + limit);
+  }
+}
+
+export class WorkerRowSource extends PagedRowSource {
+  private nextRequestId = 0;
+  private pending = new Map<number, { resolve: (rows: unknown[][]) => void; reject: (error: Error) => void }>();
+  /** Set once the worker has crashed; its rows are gone. */
+  private failure?: Error;
+
+  constructor(private worker: Worker, readonly totalRows: number) {
+    super();
+    worker.addEventListener('message', (event: MessageEvent) => {
+      const message = event.data;
+      if (message.type !== 'rows') return;
+
+      this.pending.get(message.requestId)?.resolve(message.rows);
+      this.pending.delete(message.requestId);
+    });
+    worker.addEventListener('error', (event: ErrorEvent) => {
+      this.failure = new Error(event.message || 'Parse worker failed');
+      this.pending.forEach(({ reject }) => reject(this.failure!));
+      this.pending.clear();
+    });
+  }
+
+  getRows(offset: number, limit: number): Promise<unknown[][]> {
+    if (this.failure) return Promise.reject(this.failure);
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+      this.worker.postMessage({ type: 'rows', requestId, offset, limit });
+    });
+  }
+
+  close(): void {
+    this.worker.terminate();
+    this.pending.forEach(({ resolve }) => resolve([]));
+    this.pending.clear();
+  }
+}
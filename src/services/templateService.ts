@@ -0,0 +1,214 @@
+import { ColumnMapping, ComputedColumn, MappedColumn } from './columnMapping';
+import type { ProcessOptions } from './fileService';
+import { TransformStep, mapStepSources } from './transformPipeline';
+import { ColumnLocaleOverride, LocaleOverrides } from './typeInference';
+import type { ValidationRule } from './validation';
+
+/** Parse settings a template restores; only the ones that survive JSON. */
+export type TemplateParseOptions = Pick<ProcessOptions, 'csv' | 'encoding' | 'header' | 'fixedWidth'> & {
+  /** Locale overrides keyed by source header name, like the columns. */
+  locale?: Record<string, ColumnLocaleOverride>;
+};
+
+/** A mapped column, keyed by source header names so it survives reordering. */
+export interface TemplateColumn extends Omit<MappedColumn, 'source' | 'steps' | 'confidence' | 'rationale'> {
+  source: string;
+  steps?: TransformStep<string>[];
+}
+
+export interface MappingTemplate {
+  id: string;
+  /** Usually the supplier, e.g. "Acme weekly catalog". */
+  name: string;
+  table: string;
+  headers: string[];
+  fingerprint: string;
+  columns: TemplateColumn[];
+  /** Expressions name columns by header already, so they are kept as written. */
+  computed?: ComputedColumn[];
+  /** Checks for this supplier's files; they name columns by header too. */
+  rules?: ValidationRule[];
+  parseOptions: TemplateParseOptions;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TemplateMatch {
+  template: MappingTemplate;
+  /** True when the headers are the same, in the same order. */
+  exact: boolean;
+  /** Share of headers the file and template have in common (0–1). */
+  similarity: number;
+}
+
+/** How a file's headers differ from the template it was matched to. */
+export interface TemplateDrift {
+  /** Mapped template columns the file no longer has. */
+  missing: string[];
+  /** File columns the template doesn't know. */
+  added: string[];
+  /** Columns present in both but at another position. */
+  moved: string[];
+}
+
+// A supplier adding or dropping a couple of columns still matches
+const MATCH_THRESHOLD = 0.75;
+
+/**
+ * Fingerprint of a header row: FNV-1a over the normalized names, in order.
+ * Equal fingerprints mean the same layout.
+ */
+export function headerFingerprint(headers: string[]): string {
+  let hash = 0x811c9dc5;
+  for (const char of headers.map(normalizeHeader).join('\u001f')) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `${headers.length}-${hash.toString(16).padStart(8, '0')}`;
+}
+
+/** How well a file's headers match a template. */
+export function matchTemplate(headers: string[], template: MappingTemplate): TemplateMatch {
+  if (template.fingerprint === headerFingerprint(headers)) return { template, exact: true, similarity: 1 };
+
+  const names = new Set(headers.map(normalizeHeader));
+  const own = new Set(template.headers.map(normalizeHeader));
+  const shared = [...own].filter(name => names.has(name)).length;
+  return { template, exact: false, similarity: shared / new Set([...own, ...names]).size };
+}
+
+/**
+ * The template for a file: an exact fingerprint match, or else the one
+ * sharing the most headers, if it shares enough.
+ */
+export function findTemplate(headers: string[], templates: MappingTemplate[]): TemplateMatch | undefined {
+  return templates
+    .map(template => matchTemplate(headers, template))
+    .filter(match => match.exact || match.similarity >= MATCH_THRESHOLD)
+    .sort((a, b) => Number(b.exact) - Number(a.exact) || b.similarity - a.similarity)[0];
+}
+
+/**
+ * Turns a template into a mapping and locale overrides for the file's
+ * headers, and reports which columns have gone missing, appeared or moved.
+ */
+export function applyTemplate(
+  template: MappingTemplate,
+  headers: string[]
+): { mapping: ColumnMapping; locale: LocaleOverrides; drift: TemplateDrift } {
+  const positions = new Map(headers.map((header, index) => [normalizeHeader(header), index]));
+  const columns: MappedColumn[] = [];
+  const missing: string[] = [];
+
+  const position = (header: string) => {
+    const index = positions.get(normalizeHeader(header));
+    if (index === undefined && !missing.includes(header)) missing.push(header);
+    return index;
+  };
+
+  for (const column of template.columns) {
+    const source = position(column.source);
+    if (source !== undefined) {
+      columns.push({ ...column, source, steps: column.steps && mapStepSources(column.steps, position) });
+    }
+  }
+
+  const locale: LocaleOverrides = {};
+  for (const [header, override] of Object.entries(template.parseOptions.locale ?? {})) {
+    const index = positions.get(normalizeHeader(header));
+    if (index !== undefined) locale[index] = override;
+  }
+
+  const known = new Set(template.headers.map(normalizeHeader));
+  return {
+    mapping: { table: template.table, columns, computed: template.computed },
+    locale,
+    drift: {
+      missing,
+      added: headers.filter(header => !known.has(normalizeHeader(header))),
+      moved: template.headers.filter((header, index) => {
+        const position = positions.get(normalizeHeader(header));
+        return position !== undefined && position !== index;
+      })
+    }
+  };
+}
+
+/**
+ * Settings from a template that differ from the ones a file was parsed
+ * with and need it read again. The locale only changes the column types,
+ * so `applyTemplate` takes care of it.
+ */
+export function parseOptionChanges(
+  template: MappingTemplate,
+  options: ProcessOptions = {}
+): Omit<TemplateParseOptions, 'locale'> | null {
+  const changes = Object.fromEntries(
+    Object.entries(template.parseOptions).filter(
+      ([key, value]) => key !== 'locale' && JSON.stringify(value) !== JSON.stringify(options[key as keyof ProcessOptions])
+    )
+  );
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_\-.]+/g, ' ').trim();
+}
+
+/**
+ * Mapping templates stored on the server, shared by everyone importing
+ * the same suppliers' files.
+ */
+export class TemplateService {
+  async list(): Promise<MappingTemplate[]> {
+    const response = await fetch('/api/templates');
+    if (!response.ok) throw new Error(`Loading templates failed: ${response.status}`);
+    return (await response.json()).templates;
+  }
+
+  /**
+   * Saves the mapping under `name`, replacing an existing template of that
+   * name. Locale overrides are given by column index, as the file has them.
+   */
+  async save(
+    name: string,
+    headers: string[],
+    mapping: ColumnMapping,
+    { locale, ...parseOptions }: Pick<ProcessOptions, 'csv' | 'encoding' | 'header' | 'locale' | 'fixedWidth'>
+  ): Promise<MappingTemplate> {
+    const response = await fetch('/api/templates', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name,
+        table: mapping.table,
+        headers,
+        fingerprint: headerFingerprint(headers),
+        columns: mapping.columns.map(({ target, source, steps }) => ({
+          target,
+          source: headers[source],
+          steps: steps && mapStepSources(steps, index => headers[index])
+        })),
+        computed: mapping.computed,
+        parseOptions: {
+          ...parseOptions,
+          locale: locale && Object.fromEntries(
+            Object.entries(locale)
+              .filter(([index]) => headers[Number(index)] !== undefined)
+              .map(([index, override]) => [headers[Number(index)], override])
+          )
+        }
+      })
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || `Saving template failed: ${response.status}`);
+    return result.template;
+  }
+
+  async remove(id: string): Promise<void> {
+    const response = await fetch(`/api/templates/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    if (!response.ok) throw new Error(`Deleting template failed: ${response.status}`);
+  }
+}
+
+export const templateService = new TemplateService();
@@ -0,0 +1,199 @@
+import { isBlank } from './typeInference';
+import { convertQuantity, findUnit } from './units';
+
+/**
+ * One clean-up step of a mapped column. `S` refers to other source columns:
+ * an index into the headers, or a header name in saved templates.
+ */
+export type TransformStep<S = number> =
+  | { op: 'trim' }
+  | { op: 'case'; to: 'upper' | 'lower' | 'title' }
+  | { op: 'replace'; pattern: string; replacement: string; ignoreCase?: boolean }
+  /** Without `part` the pieces are joined again with `join`. */
+  | { op: 'split'; separator: string; part?: number; join?: string }
+  | { op: 'pad'; length: number; fill: string; side: 'start' | 'end' }
+  | { op: 'default'; value: string }
+  | { op: 'nullIf'; value: string }
+  /** A negative `start` counts from the end. */
+  | { op: 'substring'; start: number; length?: number }
+  /** Appends the values of other source columns, skipping blanks. */
+  | { op: 'concat'; sources: S[]; separator: string }
+  | { op: 'lookup'; values: Record<string, string>; otherwise: 'keep' | 'null' }
+  /** Converts quantities like `12.5kg` to a number in `to`; values it can't read stay as they are. */
+  | { op: 'unit'; to: string; assume?: string };
+
+export type TransformOp = TransformStep['op'];
+
+/** Steps work on text; a unit step gives the converted amount as a number. */
+export type PipelineValue = string | number | null;
+
+export const TRANSFORM_OPS: TransformOp[] = [
+  'trim', 'case', 'replace', 'split', 'pad', 'default', 'nullIf', 'substring', 'concat', 'lookup', 'unit'
+];
+
+/** A step of the given kind with settings that change nothing yet. */
+export function createStep(op: TransformOp): TransformStep {
+  switch (op) {
+    case 'trim':
+      return { op };
+    case 'case':
+      return { op, to: 'upper' };
+    case 'replace':
+      return { op, pattern: '', replacement: '' };
+    case 'split':
+      return { op, separator: ',', join: ' ' };
+    case 'pad':
+      return { op, length: 0, fill: '0', side: 'start' };
+    case 'default':
+    case 'nullIf':
+      return { op, value: '' };
+    case 'substring':
+      return { op, start: 0 };
+    case 'concat':
+      return { op, sources: [], separator: ' ' };
+    case 'lookup':
+      return { op, values: {}, otherwise: 'keep' };
+    case 'unit':
+      return { op, to: 'kg' };
+  }
+}
+
+/** Why a step cannot run as configured; such steps pass values through unchanged. */
+export function stepError(step: TransformStep): string | undefined {
+  switch (step.op) {
+    case 'replace':
+      if (!step.pattern) return 'pattern is empty';
+      return compile(step.pattern, step.ignoreCase) ? undefined : 'pattern is not a valid regular expression';
+    case 'split':
+      return step.separator ? undefined : 'separator is empty';
+    case 'pad':
+      if (!Number.isInteger(step.length) || step.length < 0) return 'length must be a whole number';
+      return [...step.fill].length === 1 ? undefined : 'fill must be one character';
+    case 'substring':
+      if (!Number.isInteger(step.start)) return 'start must be a whole number';
+      return step.length === undefined || (Number.isInteger(step.length) && step.length >= 0)
+        ? undefined
+        : 'length must be a whole number';
+    case 'concat':
+      return step.sources.length > 0 ? undefined : 'no columns to append';
+    case 'unit': {
+      const [to, assume] = [findUnit(step.to), step.assume ? findUnit(step.assume) : undefined];
+      if (!to) return `unknown unit "${step.to}"`;
+      if (step.assume && assume?.dimension !== to.dimension) return `bare numbers can't be ${step.assume} when converting to ${step.to}`;
+      return undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Runs a value through the steps in order. Blank values enter as null;
+ * unit steps read decimals with the column's `decimalSeparator`.
+ */
+export function runPipeline(
+  value: unknown,
+  steps: TransformStep[],
+  row: unknown[],
+  decimalSeparator?: '.' | ','
+): PipelineValue {
+  let current: PipelineValue = isBlank(value) ? null : String(value);
+  for (const step of steps) {
+    if (!stepError(step)) current = runStep(current, step, row, decimalSeparator);
+  }
+  return current;
+}
+
+/**
+ * The values of one column for each row before the pipeline (index 0) and
+ * after each of its steps, for previewing the steps one by one.
+ */
+export function previewPipeline(
+  rows: unknown[][],
+  source: number,
+  steps: TransformStep[],
+  decimalSeparator?: '.' | ','
+): PipelineValue[][] {
+  const stages = rows.map((row): PipelineValue[] => [isBlank(row[source]) ? null : String(row[source])]);
+  steps.forEach((step, i) => {
+    rows.forEach((row, r) => {
+      const previous = stages[r][i];
+      stages[r].push(stepError(step) ? previous : runStep(previous, step, row, decimalSeparator));
+    });
+  });
+  // One list per stage, each holding the value of every row
+  return [0, ...steps.map((_, i) => i + 1)].map(stage => stages.map(values => values[stage]));
+}
+
+/**
+ * Rewrites how steps refer to other source columns, e.g. from indexes to
+ * header names. References the mapper returns undefined for are dropped.
+ */
+export function mapStepSources<A, B>(steps: TransformStep<A>[], mapper: (source: A) => B | undefined): TransformStep<B>[] {
+  return steps.map(step => step.op === 'concat'
+    ? { ...step, sources: step.sources.map(mapper).filter((source): source is B => source !== undefined) }
+    : step);
+}
+
+function runStep(input: PipelineValue, step: TransformStep, row: unknown[], decimalSeparator?: '.' | ','): PipelineValue {
+  if (step.op === 'unit') {
+    if (input === null) return null;
+    return convertQuantity(input, step.to, { assume: step.assume, decimalSeparator })?.amount ?? input;
+  }
+
+  const value = typeof input === 'number' ? String(input) : input;
+  if (step.op === 'default') return value === null || isBlank(value) ? step.value : value;
+  if (step.op === 'concat') {
+    const parts = [value, ...step.sources.map(source => row[source])]
+      .filter(part => !isBlank(part))
+      .map(part => String(part).trim());
+    return parts.length > 0 ? parts.join(step.separator) : null;
+  }
+  if (value === null) return null;
+
+  switch (step.op) {
+    case 'trim':
+      return value.trim().replace(/\s+/g, ' ');
+    case 'case':
+      if (step.to === 'upper') return value.toUpperCase();
+      if (step.to === 'lower') return value.toLowerCase();
+      return value.toLowerCase().replace(/(^|\s)\p{L}/gu, letter => letter.toUpperCase());
+    case 'replace':
+      return value.replace(compile(step.pattern, step.ignoreCase)!, step.replacement);
+    case 'split': {
+      const parts = value.split(step.separator).map(part => part.trim());
+      if (step.part === undefined) return parts.join(step.join ?? ' ');
+      return parts.at(step.part) ?? null;
+    }
+    case 'pad':
+      return step.side === 'start' ? value.padStart(step.length, step.fill) : value.padEnd(step.length, step.fill);
+    case 'nullIf':
+      return value.trim() === step.value.trim() ? null : value;
+    case 'substring': {
+      const end = step.length === undefined ? undefined : step.start + step.length;
+      // A negative start with a length reaching the end of the value
+      return value.slice(step.start, end !== undefined && step.start < 0 && end >= 0 ? undefined : end);
+    }
+    case 'lookup': {
+      const key = value.trim();
+      if (Object.prototype.hasOwnProperty.call(step.values, key)) return step.values[key];
+      return step.otherwise === 'null' ? null : value;
+    }
+  }
+}
+
+// Patterns are compiled once, not for every row
+const patterns = new Map<string, RegExp | null>();
+
+function compile(pattern: string, ignoreCase?: boolean): RegExp | null {
+  const flags = ignoreCase ? 'gi' : 'g';
+  const key = `${flags}/${pattern}`;
+  if (!patterns.has(key)) {
+    try {
+      patterns.set(key, new RegExp(pattern, flags));
+    } catch {
+      patterns.set(key, null);
+    }
+  }
+  return patterns.get(key)!;
+}
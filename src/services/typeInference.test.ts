@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { inferSchema } from './typeInference';
+
+const typeOf = (values: unknown[]) => inferSchema(['column'], values.map(value => [value]))[0].type;
+
+describe('inferSchema', () => {
+  it('keeps codes with leading zeros as strings', () => {
+    expect(typeOf(['00123', '123', '4567'])).toBe('string');
+    expect(typeOf(['0042', '17', '99'])).toBe('string');
+  });
+
+  it('still reads zero and fractions below one as numbers', () => {
+    expect(typeOf(['0', '12', '7'])).toBe('integer');
+    expect(typeOf(['0.5', '12.25', '7.1'])).toBe('decimal');
+  });
+
+  it('still reads dates with leading zeros as dates', () => {
+    expect(typeOf(['03/04/2025', '01/12/2024', '28/02/2025'])).toBe('date');
+  });
+});
@@ -0,0 +1,419 @@
+import { currencyCode, splitCurrency } from './currency';
+
+export type ColumnType =
+  | 'empty'
+  | 'string'
+  | 'integer'
+  | 'decimal'
+  | 'money'
+  | 'currency'
+  | 'boolean'
+  | 'date'
+  | 'gtin'
+  | 'url';
+
+export type DateFormat = 'excel-serial' | 'iso' | 'dmy' | 'mdy' | 'ymd';
+
+export interface ColumnSchema {
+  name: string;
+  index: number;
+  type: ColumnType;
+  /** Share of sampled non-empty values that fit `type`. */
+  confidence: number;
+  nullable: boolean;
+  decimalSeparator?: '.' | ',';
+  dateFormat?: DateFormat;
+  /** ISO 4217 code of a money column's amounts. */
+  currency?: string;
+  sampleSize: number;
+  /** Locale settings chosen by hand instead of detected. */
+  override?: ColumnLocaleOverride;
+}
+
+/**
+ * Number and date conventions of a whole file, used for columns whose own
+ * values are ambiguous (`1.234`, `03/04/25`).
+ */
+export interface FileLocale {
+  decimalSeparator: '.' | ',';
+  dateOrder: 'dmy' | 'mdy';
+  currency?: string;
+}
+
+export interface ColumnLocaleOverride {
+  decimalSeparator?: '.' | ',';
+  dateFormat?: DateFormat;
+  currency?: string;
+}
+
+/** Per-column locale overrides, keyed by column index. */
+export type LocaleOverrides = Record<number, ColumnLocaleOverride>;
+
+export type TypedValue = string | number | boolean | null;
+
+const SAMPLE_ROWS = 1000;
+const TYPE_THRESHOLD = 0.9;
+
+// Excel serial numbers for 1970-01-01 and 2100-01-01
+const EXCEL_SERIAL_MIN = 25569;
+const EXCEL_SERIAL_MAX = 73051;
+const DATE_HEADER = /date|datum|fecha|time|created|updated|modified|valid|expir|_at$|_on$/i;
+
+const TRUE_WORDS = ['true', 'yes', 'y', 'ja', 'j', 'oui', 'si', 'x', 'wahr'];
+const FALSE_WORDS = ['false', 'no', 'n', 'nein', 'non', 'falsch'];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const PARTS_DATE = /^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})(?:[ T]\d{1,2}:\d{2}(?::\d{2})?)?$/;
+const URL = /^(?:https?:\/\/|www\.)\S+$/i;
+// Numbers like 00123: codes whose leading zeros would be lost as a number
+const LEADING_ZERO = /^[+-]?0\d+(?:[.,]\d+)*$/;
+
+/**
+ * Infers a type per column from a sample of rows. A column gets the most
+ * specific type that at least 90% of its non-empty values fit; locale
+ * details (decimal comma, day/month order) are decided per column, since a
+ * single value like `1.234` or `03/04/25` is ambiguous on its own. Columns
+ * that give no hint either way follow the file's `locale`. Numeric columns
+ * with any value like `00123` are codes and stay strings.
+ */
+export function inferSchema(
+  headers: string[],
+  rows: unknown[][],
+  locale: FileLocale = detectLocale(rows),
+  overrides: LocaleOverrides = {}
+): ColumnSchema[] {
+  const sample = rows.slice(0, SAMPLE_ROWS);
+
+  return headers.map((name, index): ColumnSchema => {
+    const values = sample.map(row => row[index]);
+    const present = values.filter(value => !isBlank(value));
+    const override = overrides[index];
+    const base = {
+      name,
+      index,
+      nullable: present.length < values.length,
+      sampleSize: present.length,
+      ...(override && { override })
+    };
+
+    if (present.length === 0) {
+      return { ...base, type: 'empty', confidence: 1 };
+    }
+
+    const ratio = (predicate: (value: unknown) => boolean) =>
+      present.filter(predicate).length / present.length;
+
+    const booleans = ratio(value => parseBoolean(value) !== null);
+    if (booleans >= TYPE_THRESHOLD && !present.every(value => /^[01]$/.test(String(value).trim()))) {
+      return { ...base, type: 'boolean', confidence: booleans };
+    }
+
+    const gtins = ratio(isGtin);
+    if (gtins >= TYPE_THRESHOLD) {
+      return { ...base, type: 'gtin', confidence: gtins };
+    }
+
+    const decimalSeparator = override?.decimalSeparator ?? detectDecimalSeparator(present, locale.decimalSeparator);
+    const integers = ratio(value => Number.isInteger(parseNumber(value, decimalSeparator)));
+    const numbers = ratio(value => parseNumber(value, decimalSeparator) !== null);
+    const codes = present.some(value => typeof value === 'string' && LEADING_ZERO.test(value.trim()));
+
+    if (numbers >= TYPE_THRESHOLD && !codes) {
+      const serials = ratio(value => {
+        const number = parseNumber(value, decimalSeparator);
+        return number !== null && number >= EXCEL_SERIAL_MIN && number <= EXCEL_SERIAL_MAX;
+      });
+      // Serial dates look like plain numbers, so the header has to agree
+      if (serials >= TYPE_THRESHOLD && DATE_HEADER.test(name)) {
+        return { ...base, type: 'date', confidence: serials, dateFormat: 'excel-serial' };
+      }
+      if (integers >= TYPE_THRESHOLD) {
+        return { ...base, type: 'integer', confidence: integers };
+      }
+      return { ...base, type: 'decimal', confidence: numbers, decimalSeparator };
+    }
+
+    const priced = present
+      .map(value => (typeof value === 'string' ? splitCurrency(value) : null))
+      .filter(Boolean) as { amount: string; currency: string }[];
+    if (priced.length > 0) {
+      const moneySeparator = override?.decimalSeparator
+        ?? detectDecimalSeparator(priced.map(price => price.amount), locale.decimalSeparator);
+      const money = ratio(value => parseMoney(value, moneySeparator) !== null);
+      if (money >= TYPE_THRESHOLD) {
+        return {
+          ...base,
+          type: 'money',
+          confidence: money,
+          decimalSeparator: moneySeparator,
+          currency: override?.currency ?? mostCommon(priced.map(price => price.currency)) ?? locale.currency
+        };
+      }
+    }
+
+    const currencies = ratio(value => currencyCode(String(value)) !== null);
+    if (currencies >= TYPE_THRESHOLD) {
+      return { ...base, type: 'currency', confidence: currencies };
+    }
+
+    const dateFormat = override?.dateFormat ?? detectDateFormat(present, locale.dateOrder);
+    if (dateFormat) {
+      const dates = ratio(value => parseDate(value, dateFormat) !== null);
+      if (dates >= TYPE_THRESHOLD) {
+        return { ...base, type: 'date', confidence: dates, dateFormat };
+      }
+    }
+
+    const urls = ratio(value => URL.test(String(value).trim()));
+    if (urls >= TYPE_THRESHOLD) {
+      return { ...base, type: 'url', confidence: urls };
+    }
+
+    return { ...base, type: 'string', confidence: 1 };
+  });
+}
+
+/**
+ * Converts a raw cell to the JavaScript value its column type implies, for
+ * use as a query parameter. Dates become `YYYY-MM-DD` strings; values that
+ * don't fit the column type are passed through as trimmed strings.
+ */
+export function coerceValue(value: unknown, column: ColumnSchema): TypedValue {
+  if (isBlank(value)) return null;
+
+  switch (column.type) {
+    case 'integer':
+    case 'decimal':
+      return parseNumber(value, column.decimalSeparator ?? '.') ?? String(value).trim();
+    case 'money':
+      return parseMoney(value, column.decimalSeparator ?? '.')?.amount ?? String(value).trim();
+    case 'currency':
+      return currencyCode(String(value)) ?? String(value).trim();
+    case 'boolean':
+      return parseBoolean(value) ?? String(value).trim();
+    case 'date':
+      return parseDate(value, column.dateFormat ?? 'iso') ?? String(value).trim();
+    default:
+      return typeof value === 'string' ? value.trim() : String(value);
+  }
+}
+
+export function fitsType(value: unknown, column: ColumnSchema): boolean {
+  if (isBlank(value)) return true;
+
+  switch (column.type) {
+    case 'integer':
+      return Number.isInteger(parseNumber(value, column.decimalSeparator ?? '.'));
+    case 'decimal':
+      return parseNumber(value, column.decimalSeparator ?? '.') !== null;
+    case 'money':
+      return parseMoney(value, column.decimalSeparator ?? '.') !== null;
+    case 'currency':
+      return currencyCode(String(value)) !== null;
+    case 'boolean':
+      return parseBoolean(value) !== null;
+    case 'date':
+      return parseDate(value, column.dateFormat ?? 'iso') !== null;
+    case 'gtin':
+      return isGtin(value);
+    case 'url':
+      return URL.test(String(value).trim());
+    default:
+      return true;
+  }
+}
+
+export function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+/**
+ * Parses a number written with the given decimal separator, allowing
+ * spaces, apostrophes or the other separator as thousands grouping.
+ */
+export function parseNumber(value: unknown, decimalSeparator: '.' | ',' = '.'): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+  const group = decimalSeparator === '.' ? ',' : '.';
+  const pattern = new RegExp(
+    `^[-+]?(?:\\d{1,3}(?:[${escapeRegExp(group)}\\s'’]\\d{3})+|\\d+)(?:${escapeRegExp(decimalSeparator)}\\d+)?$`
+  );
+  if (!pattern.test(text)) return null;
+
+  const normalized = text
+    .replace(new RegExp(`[${escapeRegExp(group)}\\s'’]`, 'g'), '')
+    .replace(decimalSeparator, '.');
+  const number = Number(normalized);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Parses a price with or without a currency marker. Bare amounts are
+ * allowed, since price columns often only mark some of their values.
+ */
+export function parseMoney(
+  value: unknown,
+  decimalSeparator: '.' | ',' = '.'
+): { amount: number; currency?: string } | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? { amount: value } : null;
+  if (typeof value !== 'string') return null;
+
+  const price = splitCurrency(value);
+  const amount = parseNumber(price ? price.amount : value, decimalSeparator);
+  if (amount === null) return null;
+  return price ? { amount, currency: price.currency } : { amount };
+}
+
+/**
+ * Works out a file's number and date conventions from the values that
+ * only read one way: `1,5` or `1.234,56` for a decimal comma, `25/03/24`
+ * for day-first dates. Ties fall back to a decimal point and day-first,
+ * except that US dollar files default to month-first.
+ */
+export function detectLocale(rows: unknown[][]): FileLocale {
+  const strings = rows
+    .slice(0, SAMPLE_ROWS)
+    .flat()
+    .filter((value): value is string => typeof value === 'string' && /\d/.test(value))
+    .map(value => value.trim());
+
+  let commaDecimals = 0;
+  let dotDecimals = 0;
+  let dayFirst = 0;
+  let monthFirst = 0;
+  const currencies: string[] = [];
+
+  for (const value of strings) {
+    const date = value.match(PARTS_DATE);
+    if (date) {
+      if (date[1].length < 4 && Number(date[1]) > 12) dayFirst++;
+      if (date[1].length < 4 && Number(date[2]) > 12) monthFirst++;
+      continue;
+    }
+
+    const price = splitCurrency(value);
+    if (price) currencies.push(price.currency);
+    const amount = price ? price.amount : value;
+    if (/\d,\d{1,2}$|\d\.\d{3},\d/.test(amount)) commaDecimals++;
+    if (/\d\.\d{1,2}$|\d,\d{3}\.\d/.test(amount)) dotDecimals++;
+  }
+
+  const currency = mostCommon(currencies);
+  const dateOrder = dayFirst !== monthFirst
+    ? (dayFirst > monthFirst ? 'dmy' : 'mdy')
+    : (currency === 'USD' ? 'mdy' : 'dmy');
+
+  return {
+    decimalSeparator: commaDecimals > dotDecimals ? ',' : '.',
+    dateOrder,
+    ...(currency && { currency })
+  };
+}
+
+export function parseBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase();
+  if (text === '1' || TRUE_WORDS.includes(text)) return true;
+  if (text === '0' || FALSE_WORDS.includes(text)) return false;
+  return null;
+}
+
+/**
+ * Parses a date in the given format to an ISO `YYYY-MM-DD` string.
+ */
+export function parseDate(value: unknown, format: DateFormat): string | null {
+  if (format === 'excel-serial') {
+    const serial = typeof value === 'number' ? value : parseNumber(value);
+    if (serial === null) return null;
+    // Excel's day 0 is 1899-12-30 once its 1900 leap year bug is accounted for
+    return toIsoDate(new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86400000));
+  }
+
+  const text = String(value).trim();
+  if (format === 'iso') {
+    if (!ISO_DATE.test(text)) return null;
+    const [year, month, day] = text.slice(0, 10).split('-').map(Number);
+    return validDate(year, month, day);
+  }
+
+  const match = text.match(PARTS_DATE);
+  if (!match) return null;
+  const [a, b, c] = match.slice(1, 4).map(Number);
+
+  switch (format) {
+    case 'ymd':
+      return match[1].length === 4 ? validDate(a, b, c) : null;
+    case 'dmy':
+      return validDate(expandYear(c, match[3]), b, a);
+    case 'mdy':
+      return validDate(expandYear(c, match[3]), a, b);
+  }
+}
+
+export function isGtin(value: unknown): boolean {
+  const text = typeof value === 'number' ? String(value) : String(value).trim();
+  if (!/^\d+$/.test(text) || ![8, 12, 13, 14].includes(text.length)) return false;
+
+  // GS1 check digit: weights 3 and 1 alternating from the right
+  const digits = text.split('').map(Number);
+  const check = digits.pop() as number;
+  const sum = digits.reverse().reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+function detectDecimalSeparator(values: unknown[], fallback: '.' | ','): '.' | ',' {
+  const strings = values.filter((value): value is string => typeof value === 'string');
+  const commaParses = strings.filter(value => parseNumber(value, ',') !== null).length;
+  const dotParses = strings.filter(value => parseNumber(value, '.') !== null).length;
+  if (commaParses !== dotParses) return commaParses > dotParses ? ',' : '.';
+
+  // Only evidence that can't be read any other way counts
+  const commaDecimals = strings.filter(value => /\d,\d{1,2}$|\d,\d{4,}$/.test(value.trim())).length;
+  const dotDecimals = strings.filter(value => /\d\.\d{1,2}$|\d\.\d{4,}$/.test(value.trim())).length;
+  if (commaDecimals !== dotDecimals) return commaDecimals > dotDecimals ? ',' : '.';
+  return fallback;
+}
+
+function detectDateFormat(values: unknown[], fallback: 'dmy' | 'mdy'): DateFormat | null {
+  const strings = values.map(value => String(value).trim());
+  if (strings.some(value => ISO_DATE.test(value))) return 'iso';
+
+  const parts = strings.map(value => value.match(PARTS_DATE)).filter(Boolean) as RegExpMatchArray[];
+  if (parts.length === 0) return null;
+  if (parts.some(match => match[1].length === 4)) return 'ymd';
+
+  // Values that can only be read one way decide; otherwise the file does
+  const firstOver12 = parts.some(match => Number(match[1]) > 12);
+  const secondOver12 = parts.some(match => Number(match[2]) > 12);
+  if (firstOver12 !== secondOver12) return firstOver12 ? 'dmy' : 'mdy';
+  return fallback;
+}
+
+function mostCommon(values: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function expandYear(year: number, text: string): number {
+  if (text.length > 2) return year;
+  return year < 70 ? 2000 + year : 1900 + year;
+}
+
+function validDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return toIsoDate(date);
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuantity } from './units';
+
+describe('parseQuantity', () => {
+  it.each([
+    ['12.5kg', 12.5, 'kg'],
+    ['12,5 kg', 12.5, 'kg'],
+    ['-5 kg', -5, 'kg'],
+    ['− 2,5 l', -2.5, 'l'],
+    ['+3 cm', 3, 'cm'],
+    ['5 ft 3 in', 63, 'in'],
+    ['-5 ft 3 in', -63, 'in']
+  ])('reads %j', (text, amount, symbol) => {
+    expect(parseQuantity(text)).toEqual({ amount, unit: expect.objectContaining({ symbol }) });
+  });
+
+  it.each([
+    ['2 m²', 'unknown unit "m²"'],
+    ['3 m³', 'unknown unit "m³"'],
+    ['Größe 42', 'text around the quantity in "Größe 42"'],
+    ['ca. 5 kg', 'text around the quantity in "ca. 5 kg"'],
+    ['10 x 20 cm', 'several quantities in "10 x 20 cm"'],
+    ['1,500 g', '"1,500" could be 1500 or 1.500']
+  ])('reports %j', (text, issue) => {
+    expect(parseQuantity(text)).toEqual({ issue });
+  });
+});
@@ -0,0 +1,204 @@
+import type { ColumnMapping } from './columnMapping';
+import { isBlank, parseNumber } from './typeInference';
+import type { ValidationRule } from './validation';
+
+export type Dimension = 'mass' | 'length' | 'volume';
+
+export interface Unit {
+  symbol: string;
+  dimension: Dimension;
+  /** Size in the dimension's smallest unit here: g, mm or ml. */
+  factor: number;
+}
+
+/** A quantity read from a value like `12.5kg`, or why it couldn't be read with certainty. */
+export interface QuantityReading {
+  amount?: number;
+  unit?: Unit;
+  issue?: string;
+}
+
+export const UNITS: Unit[] = [
+  { symbol: 'mg', dimension: 'mass', factor: 0.001 },
+  { symbol: 'g', dimension: 'mass', factor: 1 },
+  { symbol: 'kg', dimension: 'mass', factor: 1000 },
+  { symbol: 't', dimension: 'mass', factor: 1000000 },
+  { symbol: 'oz', dimension: 'mass', factor: 28.349523125 },
+  { symbol: 'lb', dimension: 'mass', factor: 453.59237 },
+  { symbol: 'mm', dimension: 'length', factor: 1 },
+  { symbol: 'cm', dimension: 'length', factor: 10 },
+  { symbol: 'dm', dimension: 'length', factor: 100 },
+  { symbol: 'm', dimension: 'length', factor: 1000 },
+  { symbol: 'in', dimension: 'length', factor: 25.4 },
+  { symbol: 'ft', dimension: 'length', factor: 304.8 },
+  { symbol: 'ml', dimension: 'volume', factor: 1 },
+  { symbol: 'cl', dimension: 'volume', factor: 10 },
+  { symbol: 'dl', dimension: 'volume', factor: 100 },
+  { symbol: 'l', dimension: 'volume', factor: 1000 }
+];
+
+// Other spellings seen in supplier files, lower case
+const ALIASES: Record<string, string> = {
+  gr: 'g', gram: 'g', grams: 'g', gramm: 'g',
+  kgs: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg', kilogramm: 'kg',
+  tonne: 't', tonnes: 't',
+  ounce: 'oz', ounces: 'oz',
+  lbs: 'lb', pound: 'lb', pounds: 'lb',
+  millimeter: 'mm', millimeters: 'mm', millimetre: 'mm', millimetres: 'mm',
+  centimeter: 'cm', centimeters: 'cm', centimetre: 'cm', centimetres: 'cm',
+  meter: 'm', meters: 'm', metre: 'm', metres: 'm',
+  '"': 'in', '″': 'in', inch: 'in', inches: 'in', zoll: 'in',
+  "'": 'ft', '′': 'ft', foot: 'ft', feet: 'ft',
+  ltr: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml'
+};
+
+// Units that mean different sizes depending on the country
+const AMBIGUOUS_UNITS: Record<string, string> = {
+  ton: 'short (US) or metric ton',
+  tons: 'short (US) or metric tons',
+  gal: 'US or imperial gallons',
+  gallon: 'US or imperial gallons',
+  gallons: 'US or imperial gallons',
+  floz: 'US or imperial fluid ounces',
+  cwt: 'US or imperial hundredweight'
+};
+
+// Units the catalog stores, by target column name
+const CANONICAL_UNITS: [RegExp, string][] = [
+  [/weight|mass|gewicht/i, 'kg'],
+  [/length|width|height|depth|diameter|laenge|breite|hoehe|tiefe/i, 'cm'],
+  [/volume|capacity|inhalt/i, 'l']
+];
+
+// The unit runs to the next space or number, so `m²` is read whole and reported
+const QUANTITY = /(\d+(?:[.,]\d+)*)\s*(fl\.?\s?oz|[^\s\d.,+\-−]+)?\.?/gi;
+const SIGN = /^([+\-−]?)\s*/;
+
+export function findUnit(symbol: string): Unit | undefined {
+  const name = symbol.trim().toLowerCase();
+  return UNITS.find(unit => unit.symbol === (ALIASES[name] ?? name));
+}
+
+/** The unit values of a target column are stored in, if it holds a measurement. */
+export function canonicalUnit(column: string): string | undefined {
+  return CANONICAL_UNITS.find(([pattern]) => pattern.test(column))?.[1];
+}
+
+/**
+ * Reads amount and unit from text such as `12.5kg`, `-12,5 kg`, `10"` or
+ * `5 ft 3 in`. Lists like `10 x 20 cm`, unknown or country-dependent
+ * units such as `m²`, words around the number and numbers like `1,500`
+ * are reported as issues rather than guessed. Blank values give null.
+ */
+export function parseQuantity(value: unknown, decimalSeparator?: '.' | ','): QuantityReading | null {
+  if (isBlank(value)) return null;
+  if (typeof value === 'number') return { amount: value };
+
+  const text = String(value).trim();
+  const sign = SIGN.exec(text)!;
+  const body = text.slice(sign[0].length);
+  const matches = [...body.matchAll(QUANTITY)];
+  if (matches.length === 0) return { issue: `no number in "${text}"` };
+
+  // Dimensions like 10 x 20 cm and ranges like 2-3 kg
+  if (matches.length > 1 && /\d\s*[a-z"″'′]*\s*[x×*\-–/]\s*\d/i.test(body)) {
+    return { issue: `several quantities in "${text}"` };
+  }
+
+  // Words like "ca." or "Größe" may change what the number means
+  let end = 0;
+  let around = '';
+  for (const match of matches) {
+    around += body.slice(end, match.index);
+    end = match.index! + match[0].length;
+  }
+  if ((around + body.slice(end)).trim()) return { issue: `text around the quantity in "${text}"` };
+
+  const readings = matches.map(([, number, symbol]) => readQuantity(number, symbol, decimalSeparator));
+  const problem = readings.find(reading => reading.issue);
+  if (problem) return problem;
+  const reading = readings.length === 1 ? readings[0] : addQuantities(readings, text);
+  const negative = sign[1] === '-' || sign[1] === '−';
+  return negative && reading.amount !== undefined ? { ...reading, amount: -reading.amount } : reading;
+}
+
+/**
+ * Converts a value to the given unit, e.g. `12.5kg` to 12500 for `g`.
+ * Bare numbers are taken to be in `assume`; without it they are an issue.
+ */
+export function convertQuantity(
+  value: unknown,
+  to: string,
+  options: { assume?: string; decimalSeparator?: '.' | ',' } = {}
+): QuantityReading | null {
+  const target = findUnit(to);
+  if (!target) return { issue: `unknown unit "${to}"` };
+
+  const reading = parseQuantity(value, options.decimalSeparator);
+  if (!reading || reading.issue) return reading;
+
+  const unit = reading.unit ?? (options.assume ? findUnit(options.assume) : undefined);
+  if (!unit) return { issue: `no unit given for ${reading.amount}` };
+  if (unit.dimension !== target.dimension) return { issue: `${unit.symbol} is a ${unit.dimension}, not a ${target.dimension}` };
+
+  return { amount: round((reading.amount! * unit.factor) / target.factor), unit: target };
+}
+
+/**
+ * Unit checks for mapped columns whose target holds a measurement, in the
+ * unit the column's pipeline converts to, if it has a unit step.
+ */
+export function unitRules(mapping: ColumnMapping, headers: string[]): ValidationRule[] {
+  return mapping.columns.flatMap(({ target, source, steps }) => {
+    const step = steps?.find(s => s.op === 'unit');
+    const unit = step?.op === 'unit' ? step.to : canonicalUnit(target);
+    if (!unit || !headers[source]) return [];
+    return [{ type: 'unit', id: `unit:${target}`, column: headers[source], unit, assume: step?.op === 'unit' ? step.assume : undefined }];
+  });
+}
+
+function readQuantity(number: string, symbol: string | undefined, decimalSeparator?: '.' | ','): QuantityReading {
+  const separator = decimalSeparator ?? guessSeparator(number);
+  if (!separator) return { issue: `"${number}" could be ${number.replace(/[.,]/, '')} or ${number.replace(',', '.')}` };
+  const amount = parseNumber(number, separator);
+  if (amount === null) return { issue: `"${number}" is not a number` };
+  if (!symbol) return { amount };
+
+  const name = symbol.toLowerCase().replace(/[\s.]/g, '');
+  if (AMBIGUOUS_UNITS[name]) return { issue: `"${symbol}" could mean ${AMBIGUOUS_UNITS[name]}` };
+  const unit = findUnit(name);
+  return unit ? { amount, unit } : { issue: `unknown unit "${symbol}"` };
+}
+
+/** Sums amounts like `5 ft 3 in`; only amounts of one dimension add up. */
+function addQuantities(readings: QuantityReading[], text: string): QuantityReading {
+  const [first] = readings;
+  if (!readings.every(reading => reading.unit && reading.unit.dimension === first.unit?.dimension)) {
+    return { issue: `several quantities in "${text}"` };
+  }
+
+  const smallest = readings.reduce((min, reading) => (reading.unit!.factor < min.factor ? reading.unit! : min), first.unit!);
+  const total = readings.reduce((sum, reading) => sum + (reading.amount! * reading.unit!.factor) / smallest.factor, 0);
+  return { amount: round(total), unit: smallest };
+}
+
+/**
+ * Decimal separator of a number written without a known locale. A single
+ * separator followed by exactly three digits (`1,500`) can't be decided.
+ */
+function guessSeparator(number: string): '.' | ',' | undefined {
+  const dot = number.lastIndexOf('.');
+  const comma = number.lastIndexOf(',');
+  if (dot >= 0 && comma >= 0) return dot > comma ? '.' : ',';
+  const separator = dot >= 0 ? '.' : comma >= 0 ? ',' : undefined;
+  if (!separator) return '.';
+  const parts = number.split(separator);
+  if (parts.length > 2) return separator === '.' ? ',' : '.';
+  return parts[1].length === 3 && parts[0] !== '0' ? undefined : separator;
+}
+
+// Conversions shouldn't show floating point noise like 0.30000000000000004
+function round(value: number): number {
+  return Number(value.toFixed(6));
+}
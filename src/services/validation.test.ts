@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TargetColumn, schemaRules } from './columnMapping';
+import { databaseService } from './databaseService';
+import type { ProcessedData } from './fileService';
+import { ArrayRowSource } from './rowSource';
+import { ValidationReport, ValidationRule, applyValidation, validationEngine } from './validation';
+
+const headers = ['sku', 'name', 'status', 'price', 'sale_price', 'weight', 'supplier'];
+
+const rows = [
+  ['A-1', 'Widget', 'active', '9.99', '8.99', '2 kg', 'ACME'],
+  ['A-2', '', 'Active', '-1', '12.00', '2-3 kg', 'ACME'],
+  ['bad sku', 'Gadget', 'gone', 'abc', '', '500 g', 'Nobody'],
+  ['A-1', 'Widget again', '', '5000', '1', '', '']
+];
+
+function fileOf(data: unknown[][]): ProcessedData {
+  return {
+    headers,
+    rows: data,
+    rowSource: new ArrayRowSource(data),
+    preview: [],
+    totalRows: data.length,
+    fileName: 'products.csv',
+    fileType: 'csv'
+  };
+}
+
+/** Rule id, row and fix of every issue the rule raised. */
+async function issuesOf(rule: ValidationRule) {
+  const report = await validationEngine.validate(fileOf(rows), [rule]);
+  return report.issues
+    .filter(issue => issue.rule !== 'type' && issue.rule !== 'columnCount')
+    .map(({ row, action, fix }) => ({ row, action, fix }));
+}
+
+describe('ValidationEngine', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('checks required values and fills in the default', async () => {
+    expect(await issuesOf({ type: 'required', column: 'name' })).toEqual([{ row: 1, action: 'block', fix: undefined }]);
+    expect(await issuesOf({ type: 'required', column: 'Name', action: 'fix', default: 'Unnamed' }))
+      .toEqual([{ row: 1, action: 'fix', fix: 'Unnamed' }]);
+  });
+
+  it('reports a missing required column', async () => {
+    const report = await validationEngine.validate(fileOf(rows), [{ type: 'required', column: 'ean' }]);
+    expect(report.blocked).toBe(true);
+    expect(report.issues[0].message).toBe('Required column "ean" is missing');
+  });
+
+  it('checks values required by another column', async () => {
+    expect(await issuesOf({ type: 'requiredIf', column: 'supplier', when: 'status', equals: 'active' })).toEqual([]);
+    expect(await issuesOf({ type: 'requiredIf', column: 'status', when: 'name' })).toEqual([{ row: 3, action: 'block', fix: undefined }]);
+  });
+
+  it('checks patterns', async () => {
+    expect(await issuesOf({ type: 'pattern', column: 'sku', pattern: '^[A-Z]-\\d+$', action: 'skip' }))
+      .toEqual([{ row: 2, action: 'skip', fix: undefined }]);
+  });
+
+  it('checks ranges and clamps values when fixing', async () => {
+    expect(await issuesOf({ type: 'range', column: 'price', min: 0, max: 1000, action: 'fix' })).toEqual([
+      { row: 1, action: 'fix', fix: 0 },
+      { row: 2, action: 'skip', fix: undefined },
+      { row: 3, action: 'fix', fix: 1000 }
+    ]);
+  });
+
+  it('checks enum values and fixes case-only differences', async () => {
+    expect(await issuesOf({ type: 'enum', column: 'status', values: ['active', 'inactive'], action: 'fix' })).toEqual([
+      { row: 1, action: 'fix', fix: 'active' },
+      { row: 2, action: 'skip', fix: undefined }
+    ]);
+  });
+
+  it('finds repeated keys', async () => {
+    expect(await issuesOf({ type: 'unique', columns: ['sku'], severity: 'warning' })).toEqual([{ row: 3, action: undefined, fix: undefined }]);
+  });
+
+  it('compares two columns', async () => {
+    expect(await issuesOf({ type: 'compare', column: 'sale_price', operator: '<=', other: 'price' })).toEqual([
+      { row: 1, action: undefined, fix: undefined }
+    ]);
+  });
+
+  it('looks up references in the database', async () => {
+    const lookup = vi.spyOn(databaseService, 'findExistingValues').mockResolvedValue(['ACME']);
+    expect(await issuesOf({ type: 'reference', column: 'supplier', table: 'supplier', field: 'code' }))
+      .toEqual([{ row: 2, action: 'block', fix: undefined }]);
+    expect(lookup).toHaveBeenCalledWith('supplier', 'code', ['ACME', 'Nobody']);
+  });
+
+  it('reports quantities whose unit is unclear', async () => {
+    expect(await issuesOf({ type: 'unit', column: 'weight', unit: 'kg' })).toEqual([{ row: 1, action: undefined, fix: undefined }]);
+  });
+
+  it('notes rules whose column is missing', async () => {
+    const report = await validationEngine.validate(fileOf(rows), [{ type: 'pattern', column: 'ean', pattern: '^\\d+$' }]);
+    expect(report.blocked).toBe(false);
+    expect(report.issues).toEqual([expect.objectContaining({ severity: 'info', row: null })]);
+  });
+});
+
+describe('applyValidation', () => {
+  const report = (changes: Partial<ValidationReport>): ValidationReport => ({
+    isValid: true,
+    blocked: false,
+    counts: { error: 0, warning: 0, info: 0 },
+    issues: [],
+    skipRows: new Set(),
+    fixes: new Map(),
+    ...changes
+  });
+
+  it('leaves out skipped rows and writes in fixes', () => {
+    const result = applyValidation(rows, report({
+      skipRows: new Set([2]),
+      fixes: new Map([[1, new Map<number, unknown>([[1, 'Unnamed'], [3, 0]])]])
+    }));
+    expect(result).toEqual([rows[0], ['A-2', 'Unnamed', 'Active', 0, '12.00', '2-3 kg', 'ACME'], rows[3]]);
+    expect(rows[1][1]).toBe('');
+  });
+
+  it('counts rows from the page offset or the given indexes', () => {
+    const skipping = report({ skipRows: new Set([11]) });
+    expect(applyValidation(rows.slice(0, 2), skipping, 10)).toEqual([rows[0]]);
+    expect(applyValidation(rows.slice(0, 2), skipping, [11, 12])).toEqual([rows[1]]);
+  });
+
+  it('refuses a blocking report', () => {
+    expect(() => applyValidation(rows, report({ blocked: true }))).toThrow('Import blocked by validation errors');
+  });
+});
+
+describe('schemaRules', () => {
+  const targets: TargetColumn[] = [
+    { name: 'product_code', type: 'varchar(64)', nullable: false },
+    { name: 'product_name', type: 'varchar(255)', nullable: false },
+    { name: 'status', type: "enum('active','inactive','it''s')", nullable: true },
+    { name: 'price', type: 'decimal(10,2)', nullable: true, key: 'UNI' }
+  ];
+
+  it('derives rules from the mapped target columns', () => {
+    const mapping = {
+      table: 'pim_product',
+      columns: [
+        { target: 'product_code', source: 0 },
+        { target: 'product_name', source: 1, steps: [{ op: 'trim' as const }] },
+        { target: 'status', source: 2 },
+        { target: 'price', source: 3 }
+      ]
+    };
+    expect(schemaRules(mapping, headers, targets)).toEqual([
+      { type: 'required', id: 'required:product_code', column: 'sku' },
+      { type: 'unique', id: 'unique:product_code', columns: ['sku'], severity: 'warning' },
+      { type: 'enum', id: 'enum:status', column: 'status', values: ['active', 'inactive', "it's"] },
+      { type: 'unique', id: 'unique:price', columns: ['price'], severity: 'warning' }
+    ]);
+  });
+});
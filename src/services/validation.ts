@@ -0,0 +1,417 @@
+import { databaseService } from './databaseService';
+import type { ProcessedData } from './fileService';
+import { ColumnSchema, coerceValue, fitsType, isBlank } from './typeInference';
+import { convertQuantity } from './units';
+
+export type Severity = 'error' | 'warning' | 'info';
+
+/**
+ * What the import does with a row that has an issue: refuse the whole
+ * import, leave the row out, or replace the value with the issue's `fix`.
+ */
+export type ValidationAction = 'block' | 'skip' | 'fix';
+
+interface RuleBase {
+  /** Name shown with the issues; defaults to the rule type and column. */
+  id?: string;
+  severity?: Severity;
+  /** Defaults to `block` for errors; warnings and info don't stop the import. */
+  action?: ValidationAction;
+  /** Replaces the generated message. */
+  message?: string;
+}
+
+/**
+ * Declarative validation rules. Columns are referred to by header name
+ * (case-insensitive), so the same rules apply to every file with those
+ * columns and can be stored as plain JSON.
+ */
+export type ValidationRule = RuleBase & (
+  | { type: 'required'; column: string; default?: string }
+  | { type: 'requiredIf'; column: string; when: string; equals?: string }
+  | { type: 'pattern'; column: string; pattern: string; flags?: string }
+  | { type: 'range'; column: string; min?: number; max?: number }
+  | { type: 'enum'; column: string; values: string[]; caseSensitive?: boolean }
+  | { type: 'unique'; columns: string[] }
+  | { type: 'compare'; column: string; operator: '<' | '<=' | '>' | '>=' | '=' | '!='; other: string }
+  | { type: 'reference'; column: string; table: string; field: string }
+  /** Values must be quantities convertible to `unit`; bare numbers are read as `assume`. */
+  | { type: 'unit'; column: string; unit: string; assume?: string }
+);
+
+export interface ValidationIssue {
+  rule: string;
+  severity: Severity;
+  action?: ValidationAction;
+  /** Data row index (0-based, after the header); null for file-level issues. */
+  row: number | null;
+  /** Column index; null when the issue concerns the whole row or file. */
+  column: number | null;
+  columnName?: string;
+  value?: unknown;
+  message: string;
+  /** Replacement value, for issues the import can fix. */
+  fix?: unknown;
+}
+
+export interface ValidationReport {
+  /** True when there are no issues of severity `error`. */
+  isValid: boolean;
+  /** True when an issue with action `block` was found; the import must not run. */
+  blocked: boolean;
+  counts: Record<Severity, number>;
+  /** Issues for display, capped per rule; `counts` has the full totals. */
+  issues: ValidationIssue[];
+  /** Rows the import leaves out. */
+  skipRows: Set<number>;
+  /** Replacement values by row, then column index. */
+  fixes: Map<number, Map<number, unknown>>;
+}
+
+// Enough issues per rule to find the pattern; the counts stay exact
+const MAX_ISSUES_PER_RULE = 200;
+const REFERENCE_BATCH = 500;
+
+const OPERATORS: Record<string, (a: number | string, b: number | string) => boolean> = {
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b,
+  '=': (a, b) => a === b,
+  '!=': (a, b) => a !== b
+};
+
+/**
+ * Checks a parsed file against structural checks, its inferred column
+ * types and any declarative rules, reading the rows a page at a time.
+ */
+export class ValidationEngine {
+  async validate(data: ProcessedData, rules: ValidationRule[] = []): Promise<ValidationReport> {
+    const report = new ReportBuilder();
+    this.checkStructure(data, report);
+
+    const resolved = rules.flatMap(rule => this.resolveRule(rule, data, report));
+    const unique = resolved.map(() => new Map<string, number>());
+    const references = resolved.map(() => new Map<string, number[]>());
+
+    let offset = 0;
+    for await (const page of data.rowSource.pages()) {
+      page.forEach((row, i) => {
+        const rowIndex = offset + i;
+        if (row.length !== data.headers.length) {
+          report.add({
+            rule: 'columnCount',
+            severity: 'warning',
+            row: rowIndex,
+            column: null,
+            message: `Row has ${row.length} values for ${data.headers.length} columns`
+          });
+        }
+        data.schema?.forEach(column => {
+          if (column.type !== 'string' && !fitsType(row[column.index], column)) {
+            report.add({
+              rule: 'type',
+              severity: 'warning',
+              row: rowIndex,
+              column: column.index,
+              columnName: column.name,
+              value: row[column.index],
+              message: `Not a valid ${column.type}`
+            });
+          }
+        });
+        resolved.forEach((rule, r) => this.checkRow(rule, row, rowIndex, report, unique[r], references[r]));
+      });
+      offset += page.length;
+    }
+
+    for (const [r, rule] of resolved.entries()) {
+      if (rule.type === 'reference') await this.checkReferences(rule, references[r], report);
+    }
+
+    return report.build();
+  }
+
+  private checkStructure(data: ProcessedData, report: ReportBuilder) {
+    data.headers.forEach((header, index) => {
+      if (!header.trim()) {
+        report.add({
+          rule: 'header',
+          severity: 'warning',
+          row: null,
+          column: index,
+          message: `Column ${index + 1} has no header`
+        });
+      }
+    });
+
+    // Parse errors point at lines of the source file, not data rows
+    data.parseErrors?.forEach(issue => {
+      report.add({
+        rule: 'parse',
+        severity: 'warning',
+        row: null,
+        column: null,
+        message: `Line ${issue.line}, column ${issue.column}: ${issue.message}`
+      });
+    });
+
+    if (data.totalRows === 0) {
+      report.add({ rule: 'rows', severity: 'error', action: 'block', row: null, column: null, message: 'No data rows found' });
+    }
+  }
+
+  /**
+   * Looks up the rule's columns. A rule whose column is missing can't be
+   * checked; that is an error for `required` and a note otherwise.
+   */
+  private resolveRule(rule: ValidationRule, data: ProcessedData, report: ReportBuilder): ResolvedRule[] {
+    const names = rule.type === 'unique' ? rule.columns
+      : rule.type === 'compare' ? [rule.column, rule.other]
+      : rule.type === 'requiredIf' ? [rule.column, rule.when]
+      : [rule.column];
+    const indexes = names.map(name => findColumn(data.headers, name));
+    const id = rule.id ?? `${rule.type}:${names.join('+')}`;
+    const severity = rule.severity ?? (rule.type === 'compare' || rule.type === 'unit' ? 'warning' : 'error');
+    const action = rule.action ?? (severity === 'error' ? 'block' : undefined);
+
+    const missing = names.filter((_, i) => indexes[i] < 0);
+    if (missing.length > 0) {
+      const required = rule.type === 'required';
+      report.add({
+        rule: id,
+        severity: required ? severity : 'info',
+        action: required ? action : undefined,
+        row: null,
+        column: null,
+        message: required
+          ? `Required column "${missing[0]}" is missing`
+          : `Rule not checked, column "${missing.join('", "')}" not found`
+      });
+      return [];
+    }
+
+    const schema = indexes.map(index => data.schema?.find(column => column.index === index));
+    return [{ ...rule, id, severity, action, indexes, schema, regex: rule.type === 'pattern' ? new RegExp(rule.pattern, rule.flags) : undefined }];
+  }
+
+  private checkRow(
+    rule: ResolvedRule,
+    row: unknown[],
+    rowIndex: number,
+    report: ReportBuilder,
+    seen: Map<string, number>,
+    references: Map<string, number[]>
+  ) {
+    const [column] = rule.indexes;
+    const value = row[column];
+    const text = isBlank(value) ? '' : String(value).trim();
+    const issue = (message: string, fix?: unknown) => report.add({
+      rule: rule.id,
+      severity: rule.severity,
+      // Without a fix the row can only be left out
+      action: rule.action === 'fix' && fix === undefined ? 'skip' : rule.action,
+      row: rowIndex,
+      column,
+      columnName: rule.schema[0]?.name,
+      value,
+      message: rule.message ?? message,
+      fix
+    });
+
+    switch (rule.type) {
+      case 'required':
+        if (!text) issue('Value is required', rule.default);
+        break;
+      case 'requiredIf': {
+        const other = row[rule.indexes[1]];
+        const applies = rule.equals === undefined ? !isBlank(other) : String(other ?? '').trim() === rule.equals;
+        if (applies && !text) issue(`Value is required when "${rule.when}" is ${rule.equals ?? 'set'}`);
+        break;
+      }
+      case 'pattern':
+        if (text && !rule.regex!.test(text)) issue(`Does not match ${rule.pattern}`);
+        break;
+      case 'range': {
+        if (!text) break;
+        const number = typedNumber(value, rule.schema[0]);
+        if (number === null) {
+          issue('Not a number');
+        } else if (rule.min !== undefined && number < rule.min) {
+          issue(`Below the minimum of ${rule.min}`, rule.min);
+        } else if (rule.max !== undefined && number > rule.max) {
+          issue(`Above the maximum of ${rule.max}`, rule.max);
+        }
+        break;
+      }
+      case 'enum': {
+        if (!text || rule.values.includes(text)) break;
+        const match = rule.caseSensitive ? undefined : rule.values.find(v => v.toLowerCase() === text.toLowerCase());
+        // A case-only difference is fixable by using the listed spelling
+        if (!match) issue(`Not one of ${rule.values.join(', ')}`);
+        else if (match !== text) issue(`Should be written "${match}"`, match);
+        break;
+      }
+      case 'unique': {
+        if (rule.indexes.every(index => isBlank(row[index]))) break;
+        const key = JSON.stringify(rule.indexes.map(index => String(row[index] ?? '').trim()));
+        const first = seen.get(key);
+        if (first === undefined) seen.set(key, rowIndex);
+        else issue(`Duplicate of row ${first + 1}`);
+        break;
+      }
+      case 'compare': {
+        const other = row[rule.indexes[1]];
+        if (!text || isBlank(other)) break;
+        const [a, b] = [comparable(value, rule.schema[0]), comparable(other, rule.schema[1])];
+        if (typeof a === typeof b && !OPERATORS[rule.operator](a, b)) {
+          issue(`Should be ${rule.operator} "${rule.other}" (${String(other).trim()})`);
+        }
+        break;
+      }
+      case 'reference':
+        if (text) references.set(text, [...(references.get(text) ?? []), rowIndex]);
+        break;
+      case 'unit': {
+        if (!text) break;
+        const quantity = convertQuantity(value, rule.unit, { assume: rule.assume, decimalSeparator: rule.schema[0]?.decimalSeparator });
+        if (quantity?.issue) issue(`Ambiguous quantity: ${quantity.issue}`);
+        // Converting is a fix only when asked for; readable values are fine as they are
+        else if (rule.action === 'fix' && quantity?.amount !== undefined && String(quantity.amount) !== text) {
+          report.add({
+            rule: rule.id,
+            severity: 'info',
+            action: 'fix',
+            row: rowIndex,
+            column,
+            columnName: rule.schema[0]?.name,
+            value,
+            message: `Converted to ${quantity.amount} ${rule.unit}`,
+            fix: quantity.amount
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  /** Looks up collected values in batches once all rows are read. */
+  private async checkReferences(rule: ResolvedRule & { type: 'reference' }, references: Map<string, number[]>, report: ReportBuilder) {
+    const values = [...references.keys()];
+    for (let i = 0; i < values.length; i += REFERENCE_BATCH) {
+      const batch = values.slice(i, i + REFERENCE_BATCH);
+      const existing = await databaseService.findExistingValues(rule.table, rule.field, batch);
+      if (existing === null) {
+        report.add({
+          rule: rule.id,
+          severity: 'info',
+          row: null,
+          column: rule.indexes[0],
+          message: `Could not check values against ${rule.table}.${rule.field}`
+        });
+        return;
+      }
+
+      const found = new Set(existing);
+      for (const value of batch.filter(v => !found.has(v))) {
+        for (const row of references.get(value) ?? []) {
+          report.add({
+            rule: rule.id,
+            severity: rule.severity,
+            action: rule.action === 'fix' ? 'skip' : rule.action,
+            row,
+            column: rule.indexes[0],
+            columnName: rule.schema[0]?.name,
+            value,
+            message: rule.message ?? `Not found in ${rule.table}.${rule.field}`
+          });
+        }
+      }
+    }
+  }
+}
+
+type ResolvedRule = ValidationRule & {
+  id: string;
+  severity: Severity;
+  action?: ValidationAction;
+  indexes: number[];
+  schema: (ColumnSchema | undefined)[];
+  regex?: RegExp;
+};
+
+class ReportBuilder {
+  private issues: ValidationIssue[] = [];
+  private perRule = new Map<string, number>();
+  private counts: Record<Severity, number> = { error: 0, warning: 0, info: 0 };
+  private blocked = false;
+  private skipRows = new Set<number>();
+  private fixes = new Map<number, Map<number, unknown>>();
+
+  add(issue: ValidationIssue) {
+    this.counts[issue.severity]++;
+    if (issue.action === 'block') this.blocked = true;
+    if (issue.action === 'skip' && issue.row !== null) this.skipRows.add(issue.row);
+    if (issue.action === 'fix' && issue.row !== null && issue.column !== null) {
+      if (!this.fixes.has(issue.row)) this.fixes.set(issue.row, new Map());
+      this.fixes.get(issue.row)!.set(issue.column, issue.fix);
+    }
+
+    const shown = this.perRule.get(issue.rule) ?? 0;
+    if (shown < MAX_ISSUES_PER_RULE) this.issues.push(issue);
+    this.perRule.set(issue.rule, shown + 1);
+  }
+
+  build(): ValidationReport {
+    const rank: Record<Severity, number> = { error: 0, warning: 1, info: 2 };
+    return {
+      isValid: this.counts.error === 0,
+      blocked: this.blocked,
+      counts: this.counts,
+      issues: this.issues.sort((a, b) => rank[a.severity] - rank[b.severity] || (a.row ?? -1) - (b.row ?? -1)),
+      skipRows: this.skipRows,
+      fixes: this.fixes
+    };
+  }
+}
+
+/**
+ * Applies a report to a page of rows starting at `offset`: skipped rows are
+ * dropped and fixes written in. When earlier steps already left rows out,
+ * pass the data row index of every row instead. Throws when the report
+ * blocks the import.
+ */
+export function applyValidation(rows: unknown[][], report: ValidationReport, offset: number | number[] = 0): unknown[][] {
+  if (report.blocked) throw new Error('Import blocked by validation errors');
+
+  return rows.flatMap((row, i) => {
+    const rowIndex = typeof offset === 'number' ? offset + i : offset[i];
+    if (report.skipRows.has(rowIndex)) return [];
+    const fixes = report.fixes.get(rowIndex);
+    if (!fixes) return [row];
+    const fixed = [...row];
+    fixes.forEach((value, column) => { fixed[column] = value; });
+    return [fixed];
+  });
+}
+
+function findColumn(headers: string[], name: string): number {
+  const wanted = name.trim().toLowerCase();
+  return headers.findIndex(header => header.trim().toLowerCase() === wanted);
+}
+
+function typedNumber(value: unknown, column?: ColumnSchema): number | null {
+  const typed = column ? coerceValue(value, column) : value;
+  const number = typeof typed === 'number' ? typed : Number(String(typed).trim());
+  return Number.isFinite(number) ? number : null;
+}
+
+/** Numbers compare as numbers, dates as ISO strings, the rest as text. */
+function comparable(value: unknown, column?: ColumnSchema): number | string {
+  const typed = column ? coerceValue(value, column) : value;
+  if (typeof typed === 'number') return typed;
+  const text = String(typed).trim();
+  return text !== '' && Number.isFinite(Number(text)) ? Number(text) : text;
+}
+
+export const validationEngine = new ValidationEngine();
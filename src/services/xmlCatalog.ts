@@ -0,0 +1,246 @@
+export type XmlMode = 'bmecat' | 'generic';
+
+export interface XmlFieldSelector {
+  name: string;
+  /**
+   * Path relative to the record element, matched by local name so default
+   * namespaces don't get in the way. Supports `a/b`, `@attr`, `a/@attr`,
+   * `text()`, `*`, positional `[2]` and value `[@type='net']` / `[CODE='x']`
+   * predicates, and `|` to fall back to the next alternative when empty.
+   */
+  path: string;
+}
+
+export interface XmlMappingOptions {
+  mode?: XmlMode;
+  /** `//NAME` matches NAME anywhere; `A/B/C` is a path from the root element. */
+  recordPath?: string;
+  fields?: XmlFieldSelector[];
+}
+
+export interface XmlRecordCandidate {
+  path: string;
+  count: number;
+}
+
+export interface XmlExtraction {
+  mode: XmlMode;
+  recordPath: string;
+  fields: XmlFieldSelector[];
+  candidates: XmlRecordCandidate[];
+  headers: string[];
+  rows: string[][];
+}
+
+const BMECAT_FIELDS: XmlFieldSelector[] = [
+  { name: 'product_code', path: 'SUPPLIER_PID|SUPPLIER_AID' },
+  { name: 'product_name', path: 'PRODUCT_DETAILS/DESCRIPTION_SHORT|ARTICLE_DETAILS/DESCRIPTION_SHORT' },
+  { name: 'description', path: 'PRODUCT_DETAILS/DESCRIPTION_LONG|ARTICLE_DETAILS/DESCRIPTION_LONG' },
+  { name: 'ean', path: 'PRODUCT_DETAILS/INTERNATIONAL_PID|ARTICLE_DETAILS/EAN' },
+  { name: 'manufacturer', path: 'PRODUCT_DETAILS/MANUFACTURER_NAME|ARTICLE_DETAILS/MANUFACTURER_NAME' },
+  { name: 'manufacturer_code', path: 'PRODUCT_DETAILS/MANUFACTURER_PID|ARTICLE_DETAILS/MANUFACTURER_AID' },
+  {
+    name: 'category',
+    path: 'PRODUCT_FEATURES/REFERENCE_FEATURE_GROUP_ID|ARTICLE_FEATURES/REFERENCE_FEATURE_GROUP_ID'
+  },
+  {
+    name: 'price',
+    path: 'PRODUCT_PRICE_DETAILS/PRODUCT_PRICE/PRICE_AMOUNT|ARTICLE_PRICE_DETAILS/ARTICLE_PRICE/PRICE_AMOUNT'
+  },
+  {
+    name: 'currency',
+    path: 'PRODUCT_PRICE_DETAILS/PRODUCT_PRICE/PRICE_CURRENCY|ARTICLE_PRICE_DETAILS/ARTICLE_PRICE/PRICE_CURRENCY'
+  },
+  { name: 'order_unit', path: 'PRODUCT_ORDER_DETAILS/ORDER_UNIT|ARTICLE_ORDER_DETAILS/ORDER_UNIT' },
+  { name: 'image', path: 'MIME_INFO/MIME/MIME_SOURCE' }
+];
+
+const MAX_SUGGESTED_FIELDS = 50;
+
+/**
+ * Parses an XML document, reporting the parser's own message on failure.
+ */
+export function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) {
+    throw new Error(`Invalid XML: ${error.textContent?.trim().split('\n')[0]}`);
+  }
+  return doc;
+}
+
+/**
+ * Extracts a table from an XML catalog. BMEcat documents use the built-in
+ * product mapping; anything else uses the given record element and field
+ * selectors, or guesses both when they are missing.
+ */
+export function extractXmlRecords(doc: Document, options: XmlMappingOptions = {}): XmlExtraction {
+  const root = doc.documentElement;
+  const mode = options.mode ?? (root.localName.toUpperCase() === 'BMECAT' ? 'bmecat' : 'generic');
+  const candidates = findRecordCandidates(root);
+
+  const recordPath = options.recordPath
+    ?? (mode === 'bmecat' ? '//PRODUCT|//ARTICLE' : candidates[0]?.path ?? root.localName);
+  const records = selectRecords(root, recordPath);
+
+  const fields = options.fields?.length
+    ? options.fields
+    : mode === 'bmecat' ? BMECAT_FIELDS : suggestFields(records);
+
+  return {
+    mode,
+    recordPath,
+    fields,
+    candidates,
+    headers: fields.map(field => field.name),
+    rows: records.map(record => fields.map(field => selectValue(record, field.path)))
+  };
+}
+
+/**
+ * Lists element paths that repeat under the same parent, most frequent
+ * first. These are the likely record elements of a catalog.
+ */
+export function findRecordCandidates(root: Element): XmlRecordCandidate[] {
+  const counts = new Map<string, number>();
+
+  const visit = (element: Element, path: string) => {
+    const siblingCounts = new Map<string, number>();
+    for (const child of Array.from(element.children)) {
+      siblingCounts.set(child.localName, (siblingCounts.get(child.localName) || 0) + 1);
+    }
+    for (const child of Array.from(element.children)) {
+      const childPath = `${path}/${child.localName}`;
+      if ((siblingCounts.get(child.localName) || 0) > 1) {
+        counts.set(childPath, (counts.get(childPath) || 0) + 1);
+      }
+      visit(child, childPath);
+    }
+  };
+  visit(root, root.localName);
+
+  return [...counts.entries()]
+    .map(([path, count]) => ({ path, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Suggests one field per leaf element or attribute found in the records.
+ */
+export function suggestFields(records: Element[]): XmlFieldSelector[] {
+  const paths: string[] = [];
+  const seen = new Set<string>();
+
+  const add = (path: string) => {
+    if (!seen.has(path) && paths.length < MAX_SUGGESTED_FIELDS) {
+      seen.add(path);
+      paths.push(path);
+    }
+  };
+
+  const visit = (element: Element, prefix: string) => {
+    for (const attribute of Array.from(element.attributes)) {
+      if (attribute.name.startsWith('xmlns')) continue;
+      add(prefix ? `${prefix}/@${attribute.localName}` : `@${attribute.localName}`);
+    }
+    if (element.children.length === 0 && prefix) {
+      add(prefix);
+    }
+    for (const child of Array.from(element.children)) {
+      visit(child, prefix ? `${prefix}/${child.localName}` : child.localName);
+    }
+  };
+
+  records.slice(0, 20).forEach(record => visit(record, ''));
+  return paths.map(path => ({ name: path.replace(/@/g, '').replace(/\//g, '.'), path }));
+}
+
+function selectRecords(root: Element, recordPath: string): Element[] {
+  for (const alternative of recordPath.split('|').map(p => p.trim())) {
+    let records: Element[];
+
+    if (alternative.startsWith('//')) {
+      const name = alternative.slice(2);
+      records = Array.from(root.getElementsByTagName('*')).filter(element => element.localName === name);
+    } else {
+      const [first, ...steps] = alternative.split('/');
+      records = first === root.localName ? selectElements([root], steps) : [];
+    }
+
+    if (records.length > 0) return records;
+  }
+  return [];
+}
+
+function selectValue(record: Element, path: string): string {
+  for (const alternative of path.split('|').map(p => p.trim())) {
+    const steps = alternative.split('/').filter(Boolean);
+    const last = steps[steps.length - 1];
+    let value: string | undefined;
+
+    if (last?.startsWith('@')) {
+      const [element] = selectElements([record], steps.slice(0, -1));
+      value = element ? attributeByLocalName(element, last.slice(1)) : undefined;
+    } else if (last === 'text()') {
+      const [element] = selectElements([record], steps.slice(0, -1));
+      value = element
+        ? Array.from(element.childNodes)
+          .filter(node => node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE)
+          .map(node => node.textContent)
+          .join('')
+        : undefined;
+    } else {
+      const [element] = selectElements([record], steps);
+      value = element?.textContent ?? undefined;
+    }
+
+    const trimmed = value?.trim();
+    if (trimmed) return trimmed;
+  }
+  return '';
+}
+
+function selectElements(context: Element[], steps: string[]): Element[] {
+  return steps.reduce((elements, step) => {
+    const match = step.match(/^([\w.*-]+)((?:\[[^\]]+\])*)$/);
+    if (!match) {
+      throw new Error(`Unsupported selector step "${step}"`);
+    }
+    const [, name, predicateText] = match;
+    const predicates = predicateText.match(/\[[^\]]+\]/g)?.map(p => p.slice(1, -1)) || [];
+
+    return elements.flatMap(element => {
+      let children = Array.from(element.children).filter(child => name === '*' || child.localName === name);
+      for (const predicate of predicates) {
+        children = applyPredicate(children, predicate);
+      }
+      return children;
+    });
+  }, context);
+}
+
+function applyPredicate(elements: Element[], predicate: string): Element[] {
+  if (/^\d+$/.test(predicate)) {
+    const element = elements[Number(predicate) - 1];
+    return element ? [element] : [];
+  }
+
+  const match = predicate.match(/^(@?[\w.-]+)\s*=\s*['"](.*)['"]$/);
+  if (!match) {
+    throw new Error(`Unsupported selector predicate "[${predicate}]"`);
+  }
+  const [, key, expected] = match;
+
+  return elements.filter(element => {
+    if (key.startsWith('@')) {
+      return attributeByLocalName(element, key.slice(1)) === expected;
+    }
+    return Array.from(element.children).some(
+      child => child.localName === key && child.textContent?.trim() === expected
+    );
+  });
+}
+
+function attributeByLocalName(element: Element, name: string): string | undefined {
+  return Array.from(element.attributes).find(attribute => attribute.localName === name)?.value;
+}
@@ -0,0 +1,142 @@
+export interface ZipEntry {
+  /** Path inside the archive, with `/` separators. */
+  path: string;
+  compressedSize: number;
+  size: number;
+  /** 0 = stored, 8 = deflate; anything else can't be extracted. */
+  method: number;
+  encrypted: boolean;
+  directory: boolean;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_ID = 0x0001;
+// End of central directory record plus the longest possible comment
+const EOCD_SEARCH = 22 + 0xffff;
+
+/**
+ * Lists the entries of a ZIP archive from its central directory, reading
+ * only the tail of the file and the directory itself.
+ */
+export async function readZipEntries(file: Blob): Promise<ZipEntry[]> {
+  const tailStart = Math.max(0, file.size - EOCD_SEARCH);
+  const tail = await readView(file, tailStart, file.size);
+
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP archive');
+
+  let entryCount = tail.getUint16(eocd + 10, true);
+  let directorySize = tail.getUint32(eocd + 12, true);
+  let directoryOffset = tail.getUint32(eocd + 16, true);
+
+  // Archives over 4 GB or 65535 entries keep the real values in a ZIP64 record
+  const locator = eocd - 20;
+  if (locator >= 0 && tail.getUint32(locator, true) === ZIP64_LOCATOR_SIGNATURE) {
+    const recordOffset = Number(tail.getBigUint64(locator + 8, true));
+    const record = await readView(file, recordOffset, recordOffset + 56);
+    if (record.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) throw new Error('Corrupt ZIP64 directory');
+    entryCount = Number(record.getBigUint64(32, true));
+    directorySize = Number(record.getBigUint64(40, true));
+    directoryOffset = Number(record.getBigUint64(48, true));
+  }
+
+  const directory = await readView(file, directoryOffset, directoryOffset + directorySize);
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new Error('Corrupt ZIP directory');
+
+    const flags = directory.getUint16(offset + 8, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const nameBytes = new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength);
+    // Names without the UTF-8 flag are nominally CP437, but ASCII is by far
+    // the common case and TextDecoder has no CP437
+    const path = new TextDecoder('utf-8').decode(nameBytes);
+
+    const sizes = {
+      size: directory.getUint32(offset + 24, true),
+      compressedSize: directory.getUint32(offset + 20, true),
+      localHeaderOffset: directory.getUint32(offset + 42, true)
+    };
+    readZip64Extra(directory, offset + 46 + nameLength, extraLength, sizes);
+
+    entries.push({
+      path,
+      ...sizes,
+      method: directory.getUint16(offset + 10, true),
+      encrypted: (flags & 0x1) !== 0,
+      directory: path.endsWith('/')
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Decompresses one entry. Deflate goes through the browser's native
+ * DecompressionStream, so nothing is inflated on the JavaScript side.
+ */
+export async function extractZipEntry(file: Blob, entry: ZipEntry): Promise<Blob> {
+  if (entry.encrypted) throw new Error(`${entry.path} is encrypted`);
+
+  const header = await readView(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  if (header.getUint32(0, true) !== LOCAL_SIGNATURE) throw new Error(`Corrupt ZIP entry ${entry.path}`);
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = file.slice(dataStart, dataStart + entry.compressedSize);
+
+  switch (entry.method) {
+    case 0:
+      return data;
+    case 8:
+      return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+    default:
+      throw new Error(`${entry.path} uses unsupported compression method ${entry.method}`);
+  }
+}
+
+/**
+ * Values that don't fit 32 bits are stored as 0xFFFFFFFF and moved to the
+ * ZIP64 extra field, in this fixed order.
+ */
+function readZip64Extra(
+  view: DataView,
+  start: number,
+  length: number,
+  sizes: { size: number; compressedSize: number; localHeaderOffset: number }
+) {
+  let offset = start;
+  while (offset + 4 <= start + length) {
+    const id = view.getUint16(offset, true);
+    const size = view.getUint16(offset + 2, true);
+    if (id === ZIP64_EXTRA_ID) {
+      let field = offset + 4;
+      for (const key of ['size', 'compressedSize', 'localHeaderOffset'] as const) {
+        if (sizes[key] === 0xffffffff) {
+          sizes[key] = Number(view.getBigUint64(field, true));
+          field += 8;
+        }
+      }
+      return;
+    }
+    offset += 4 + size;
+  }
+}
+
+async function readView(file: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await file.slice(start, end).arrayBuffer());
+}
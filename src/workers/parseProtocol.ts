@@ -0,0 +1,50 @@
+import type { ParseIssue, CsvParseOptions } from '@/services/csvParser';
+import type { DetectedEncoding } from '@/services/encoding';
+import type { ChildRecordSet } from '@/services/jsonFlattener';
+import type { FixedWidthColumn, FixedWidthLayout } from '@/services/fixedWidth';
+import type { HeaderDetection, HeaderOverride } from '@/services/headerDetection';
+import type { SheetData } from '@/services/fileService';
+
+export type ParseKind = 'excel' | 'csv' | 'text' | 'json' | 'ndjson';
+
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rowsParsed: number;
+}
+
+export type ParseWorkerRequest =
+  | {
+      type: 'parse';
+      file: File;
+      kind: ParseKind;
+      csv?: CsvParseOptions;
+      encoding?: string;
+      header?: HeaderOverride;
+      /** Column layout for fixed-width text; `false` rules out auto-detection. */
+      fixedWidth?: FixedWidthColumn[] | false;
+      chunkSize?: number;
+      pageSize: number;
+    }
+  | { type: 'rows'; requestId: number; offset: number; limit: number };
+
+export type ParseWorkerResponse =
+  | ({ type: 'progress' } & ParseProgress)
+  | { type: 'preview'; headers: string[]; rows: unknown[][] }
+  | {
+      type: 'done';
+      headers: string[];
+      totalRows: number;
+      firstPage: unknown[][];
+      parseErrors: ParseIssue[];
+      delimiter?: string;
+      encoding?: DetectedEncoding;
+      header?: HeaderDetection;
+      fixedWidth?: FixedWidthLayout;
+      /** First raw lines of a text file, for laying out fixed-width columns. */
+      sampleLines?: string[];
+      sheets?: SheetData[];
+      childRecords?: ChildRecordSet[];
+    }
+  | { type: 'rows'; requestId: number; rows: unknown[][] }
+  | { type: 'error'; message: string };
@@ -0,0 +1,309 @@
+import * as XLSX from 'xlsx';
+import { CsvParseOptions, CsvTokenizer, ParseIssue, detectDelimiter } from '@/services/csvParser';
+import { DetectedEncoding, detectEncoding } from '@/services/encoding';
+import {
+  FixedWidthColumn,
+  FixedWidthLayout,
+  FixedWidthSplitter,
+  looksFixedWidth,
+  suggestFixedWidthColumns
+} from '@/services/fixedWidth';
+import { JsonRecordFlattener, extractJsonRecords } from '@/services/jsonFlattener';
+import {
+  HEADER_SCAN_ROWS,
+  HeaderDetection,
+  HeaderOverride,
+  combineHeaderRows,
+  detectHeader
+} from '@/services/headerDetection';
+import type { SheetData } from '@/services/fileService';
+import type { ParseWorkerRequest, ParseWorkerResponse } from './parseProtocol';
+
+// Off-main-thread parser. One worker is spawned per file; it keeps the
+// parsed rows and serves them back in pages until it is terminated.
+
+const ctx = self as unknown as Worker;
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+const PREVIEW_ROWS = 10;
+
+let rows: unknown[][] = [];
+
+const post = (message: ParseWorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'rows') {
+    post({
+      type: 'rows',
+      requestId: request.requestId,
+      rows: rows.slice(request.offset, request.offset + request.limit)
+    });
+    return;
+  }
+
+  try {
+    if (request.kind === 'excel') {
+      await parseExcel(request.file, request.header);
+    } else if (request.kind === 'json' || request.kind === 'ndjson') {
+      await parseJson(request.file, request.kind, request.pageSize, request.encoding, request.chunkSize);
+    } else {
+      await parseDelimited(
+        request.file,
+        request.kind,
+        request.pageSize,
+        request.csv,
+        request.encoding,
+        request.header,
+        request.fixedWidth,
+        request.chunkSize
+      );
+    }
+  } catch (error) {
+    post({ type: 'error', message: errorMessage(error) });
+  }
+};
+
+async function parseExcel(file: File, override?: HeaderOverride) {
+  const workbook = XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: 'array' });
+  post({ type: 'progress', bytesRead: file.size, totalBytes: file.size, rowsParsed: 0 });
+
+  const sheets: SheetData[] = workbook.SheetNames.map((sheetName, index) => {
+    const worksheet = workbook.Sheets[sheetName];
+    unmergeCells(worksheet);
+    const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as unknown[][];
+    const header = detectHeader(jsonData, override?.sheet === sheetName ? override : undefined);
+    const headers = combineHeaderRows(jsonData, header);
+    const sheetRows = jsonData.slice(header.rowIndex + header.rowCount);
+
+    return {
+      name: sheetName,
+      headers,
+      header,
+      rows: sheetRows,
+      totalRows: sheetRows.length,
+      // Hidden is 1 for hidden and 2 for "very hidden" sheets
+      hidden: !!workbook.Workbook?.Sheets?.[index]?.Hidden,
+      empty: jsonData.length === 0
+    };
+  });
+
+  post({
+    type: 'done',
+    headers: [],
+    totalRows: 0,
+    firstPage: [],
+    parseErrors: [],
+    sheets
+  });
+}
+
+/**
+ * Copies the value of every merged range into all of its cells, so merged
+ * group headers and fill-down category cells survive as plain values.
+ */
+function unmergeCells(worksheet: XLSX.WorkSheet) {
+  for (const range of worksheet['!merges'] || []) {
+    const origin = worksheet[XLSX.utils.encode_cell(range.s)];
+    if (!origin) continue;
+
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        if (r !== range.s.r || c !== range.s.c) {
+          worksheet[XLSX.utils.encode_cell({ r, c })] = { ...origin };
+        }
+      }
+    }
+  }
+  delete worksheet['!merges'];
+}
+
+/**
+ * Reads a file in chunks, decoding it with the given or detected encoding,
+ * and reports progress after every chunk. `rowsParsed` counts the rows
+ * read so far, for parsers that don't collect them in `rows` as they go.
+ */
+async function readText(
+  file: File,
+  onText: (text: string) => void,
+  encodingOverride?: string,
+  chunkSize: number = DEFAULT_CHUNK_SIZE,
+  rowsParsed: () => number = () => rows.length
+): Promise<DetectedEncoding | undefined> {
+  let encoding: DetectedEncoding | undefined;
+  let decoder: TextDecoder | undefined;
+
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    const bytes = new Uint8Array(await file.slice(offset, offset + chunkSize).arrayBuffer());
+
+    if (!decoder) {
+      encoding = encodingOverride
+        ? { name: encodingOverride, source: 'user', confidence: 1 }
+        : detectEncoding(bytes);
+      decoder = new TextDecoder(encoding.name);
+    }
+    onText(decoder.decode(bytes, { stream: true }));
+
+    post({
+      type: 'progress',
+      bytesRead: Math.min(offset + chunkSize, file.size),
+      totalBytes: file.size,
+      rowsParsed: rowsParsed()
+    });
+  }
+
+  if (decoder) onText(decoder.decode());
+  return encoding;
+}
+
+async function parseDelimited(
+  file: File,
+  kind: 'csv' | 'text',
+  pageSize: number,
+  options: CsvParseOptions = {},
+  encodingOverride?: string,
+  override?: HeaderOverride,
+  fixedWidthColumns?: FixedWidthColumn[] | false,
+  chunkSize?: number
+) {
+  let tokenizer: CsvTokenizer | FixedWidthSplitter | undefined;
+  let delimiter = options.delimiter;
+  let fixedWidth: FixedWidthLayout | undefined;
+  let sampleLines: string[] | undefined;
+  let headers: string[] | undefined;
+  let header: HeaderDetection | undefined;
+  let previewSent = false;
+  // Records are held back until there are enough to find the header row
+  let leading: string[][] = [];
+  rows = [];
+
+  const resolveHeader = () => {
+    header = detectHeader(leading, override);
+    headers = combineHeaderRows(leading, header);
+    rows.push(...leading.slice(header.rowIndex + header.rowCount));
+    leading = [];
+  };
+
+  const collect = (records: string[][]) => {
+    for (const record of records) {
+      if (header) {
+        rows.push(record);
+        continue;
+      }
+      leading.push(record);
+      if (leading.length >= HEADER_SCAN_ROWS) resolveHeader();
+    }
+  };
+
+  const encoding = await readText(file, (text) => {
+    if (!tokenizer) {
+      if (kind === 'text') {
+        sampleLines = text.replace(/^\uFEFF/, '').split(/\r?\n/).slice(0, HEADER_SCAN_ROWS);
+      }
+
+      if (fixedWidthColumns) {
+        fixedWidth = { columns: fixedWidthColumns, source: 'user' };
+      } else if (kind === 'text' && !delimiter && sampleLines) {
+        // Text files carry no delimiter hint, so sniff it from the first line
+        delimiter = detectDelimiter(sampleLines[0]);
+        if (fixedWidthColumns !== false && looksFixedWidth(sampleLines, delimiter)) {
+          fixedWidth = { columns: suggestFixedWidthColumns(sampleLines), source: 'suggested' };
+        }
+      }
+
+      tokenizer = fixedWidth
+        ? new FixedWidthSplitter(fixedWidth.columns)
+        : new CsvTokenizer({ ...options, delimiter });
+    }
+
+    collect(tokenizer.write(text));
+
+    if (!previewSent && headers && rows.length >= PREVIEW_ROWS) {
+      previewSent = true;
+      post({ type: 'preview', headers, rows: rows.slice(0, PREVIEW_ROWS) });
+    }
+  }, encodingOverride, chunkSize);
+
+  tokenizer = tokenizer || new CsvTokenizer({ ...options, delimiter });
+  collect(tokenizer.end());
+  if (!header) resolveHeader();
+
+  post({
+    type: 'done',
+    headers: headers || [],
+    header,
+    totalRows: rows.length,
+    firstPage: rows.slice(0, pageSize),
+    parseErrors: tokenizer.errors,
+    delimiter: fixedWidth ? undefined : delimiter,
+    fixedWidth,
+    sampleLines,
+    encoding
+  });
+}
+
+async function parseJson(
+  file: File,
+  kind: 'json' | 'ndjson',
+  pageSize: number,
+  encodingOverride?: string,
+  chunkSize?: number
+) {
+  const flattener = new JsonRecordFlattener();
+  const parseErrors: ParseIssue[] = [];
+  let text = '';
+  let lineNumber = 0;
+
+  const addLine = (line: string) => {
+    lineNumber++;
+    if (!line.trim()) return;
+    try {
+      flattener.add(JSON.parse(line));
+    } catch (error) {
+      parseErrors.push({ line: lineNumber, column: 1, message: `Invalid JSON record: ${errorMessage(error)}` });
+    }
+  };
+
+  const encoding = await readText(file, (chunk) => {
+    text += chunk;
+    if (kind !== 'ndjson') return;
+
+    // Newline-delimited records can be flattened as they arrive
+    const lines = text.split('\n');
+    text = lines.pop() ?? '';
+    lines.forEach(addLine);
+  }, encodingOverride, chunkSize, () => flattener.totalRows);
+
+  if (kind === 'ndjson') {
+    addLine(text);
+  } else {
+    try {
+      extractJsonRecords(JSON.parse(text)).forEach(record => flattener.add(record));
+    } catch (error) {
+      // Some feeds ship NDJSON with a .json extension
+      const lines = text.split('\n').filter(line => line.trim());
+      if (lines.length > 1 && lines.every(line => line.trim().startsWith('{'))) {
+        text.split('\n').forEach(addLine);
+      } else {
+        throw new Error(`Invalid JSON: ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  rows = flattener.rows();
+  // A JSON document is only parsed once it is read completely
+  post({ type: 'progress', bytesRead: file.size, totalBytes: file.size, rowsParsed: rows.length });
+  post({
+    type: 'done',
+    headers: flattener.headers(),
+    totalRows: rows.length,
+    firstPage: rows.slice(0, pageSize),
+    parseErrors,
+    encoding,
+    childRecords: flattener.childRecords()
+  });
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}